@@ -0,0 +1,28 @@
+"use client";
+
+import Link from "next/link";
+import React from "react";
+import { logout, useSession } from "@/lib/auth/client";
+import { ROLE_LABELS, can } from "@/lib/auth/roles";
+
+// ==============================
+// Usuario de la sesión en las barras superiores: nombre, rol, usuarios (admin) y salir
+// ==============================
+
+export default function UserMenu() {
+  const user = useSession();
+  if (!user) return null;
+  return (
+    <div className="flex items-center gap-2 text-xs sm:text-sm">
+      <span className="rounded-full bg-white/20 text-white px-3 py-1" title={user.username}>
+        👤 <b>{user.name}</b> · {ROLE_LABELS[user.role]}
+      </span>
+      {can(user.role, "users.manage") && (
+        <Link href="/usuarios" className="rounded bg-white/20 text-white px-3 py-1 hover:bg-white/30">Usuarios</Link>
+      )}
+      <button onClick={() => logout().catch((e) => alert("No se pudo cerrar la sesión.\n" + (e?.message || e)))} className="rounded bg-white/20 text-white px-3 py-1 hover:bg-white/30">
+        Salir
+      </button>
+    </div>
+  );
+}
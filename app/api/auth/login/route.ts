@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE, sessionTtlSeconds, signSession } from "@/lib/auth/session";
+import { authenticate, hasUsers } from "@/lib/auth/users";
+
+// POST /api/auth/login  { username, password } → { user } y cookie de sesión (httpOnly)
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (typeof body?.username !== "string" || typeof body?.password !== "string")
+    return NextResponse.json({ error: "Indica usuario y contraseña" }, { status: 400 });
+  try {
+    if (!(await hasUsers()))
+      return NextResponse.json({ error: "No hay usuarios configurados: define AUTH_ADMIN_PASSWORD y reinicia el servidor" }, { status: 503 });
+    const user = await authenticate(body.username, body.password);
+    if (!user) return NextResponse.json({ error: "Usuario o contraseña incorrectos" }, { status: 401 });
+    const res = NextResponse.json({ user });
+    res.cookies.set(SESSION_COOKIE, await signSession(user), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: new URL(req.url).protocol === "https:",
+      path: "/",
+      maxAge: sessionTtlSeconds(),
+    });
+    return res;
+  } catch (e: any) {
+    return NextResponse.json({ error: `No se pudo iniciar sesión: ${e?.message || e}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/session";
+
+// POST /api/auth/logout  borra la cookie de sesión
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+  return res;
+}
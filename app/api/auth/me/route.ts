@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+
+// GET /api/auth/me  usuario de la sesión con su rol vigente → { user }
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  return NextResponse.json({ user });
+}
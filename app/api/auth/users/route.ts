@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+import { UserValidationError, listUsers, upsertUser } from "@/lib/auth/users";
+
+// GET  /api/auth/users  lista de usuarios (sin contraseñas) → { users }
+// POST /api/auth/users  { username, name?, role?, password?, disabled? } crea o actualiza
+// Solo administradores.
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const actor = await requireUser(req, "users.manage");
+  if (actor instanceof NextResponse) return actor;
+  try {
+    return NextResponse.json({ users: await listUsers() });
+  } catch (e: any) {
+    return NextResponse.json({ error: `No se pudo leer los usuarios: ${e?.message || e}` }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const actor = await requireUser(req, "users.manage");
+  if (actor instanceof NextResponse) return actor;
+  const body = await req.json().catch(() => null);
+  if (typeof body?.username !== "string") return NextResponse.json({ error: "Falta el usuario" }, { status: 400 });
+  try {
+    const user = await upsertUser(
+      {
+        username: body.username,
+        name: typeof body.name === "string" ? body.name : undefined,
+        role: body.role,
+        password: typeof body.password === "string" && body.password ? body.password : undefined,
+        disabled: typeof body.disabled === "boolean" ? body.disabled : undefined,
+      },
+      actor
+    );
+    return NextResponse.json({ user });
+  } catch (e: any) {
+    if (e instanceof UserValidationError) return NextResponse.json({ error: e.message }, { status: 400 });
+    return NextResponse.json({ error: `No se pudo guardar el usuario: ${e?.message || e}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+import { ApprovalForbiddenError, ApprovalTransitionError, type ApprovalAction } from "@/lib/evaluations/approval";
+import { EvaluationNotFoundError, transitionEvaluation } from "@/lib/evaluations/store";
+
+// POST /api/evaluations/:id/approval  { action: submit|approve|reject|reopen, justification? }
+//      Quien actúa es el usuario de la sesión; aprobar y rechazar exigen rol gerente o admin (403).
+//      submit   envía a aprobación; si cumple la política queda aprobada automáticamente
+//      approve  aprueba (con excepción si incumple la política; exige justificación)
+//      reject   rechaza (exige justificación)
+//      reopen   vuelve a borrador; una aprobada, o la de otro ejecutivo, solo la reabre un gerente o admin (403)
+export const dynamic = "force-dynamic";
+
+const ACTIONS: ApprovalAction[] = ["submit", "approve", "reject", "reopen"];
+
+type Ctx = { params: { id: string } };
+
+export async function POST(req: Request, { params }: Ctx) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  const body = await req.json().catch(() => null);
+  const action = body?.action as ApprovalAction;
+  if (!ACTIONS.includes(action)) return NextResponse.json({ error: `Acción inválida; usa ${ACTIONS.join(", ")}` }, { status: 400 });
+  try {
+    const justification = typeof body.justification === "string" ? body.justification : undefined;
+    return NextResponse.json(await transitionEvaluation(params.id, action, { by: user.name, role: user.role, justification }));
+  } catch (e: any) {
+    if (e instanceof EvaluationNotFoundError) return NextResponse.json({ error: e.message }, { status: 404 });
+    if (e instanceof ApprovalForbiddenError) return NextResponse.json({ error: e.message }, { status: 403 });
+    if (e instanceof ApprovalTransitionError) return NextResponse.json({ error: e.message }, { status: 409 });
+    return NextResponse.json({ error: `No se pudo actualizar la aprobación: ${e?.message || e}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+import { EvaluationNotFoundError, getEvaluationAudit } from "@/lib/evaluations/store";
+
+// GET /api/evaluations/:id/audit   registro de cambios (más antiguo primero) → { entries }
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Ctx) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  try {
+    return NextResponse.json({ entries: await getEvaluationAudit(params.id) });
+  } catch (e: any) {
+    if (e instanceof EvaluationNotFoundError) return NextResponse.json({ error: e.message }, { status: 404 });
+    return NextResponse.json({ error: `No se pudo leer el registro: ${e?.message || e}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+import { diffEvaluations } from "@/lib/evaluations/audit";
+import { EvaluationNotFoundError, EvaluationVersionNotFoundError, getEvaluationVersion } from "@/lib/evaluations/store";
+
+// GET /api/evaluations/:id/diff?from=1&to=3   diferencias campo a campo entre dos versiones → { from, to, changes }
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Ctx) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  const sp = new URL(req.url).searchParams;
+  const from = Number(sp.get("from"));
+  const to = Number(sp.get("to"));
+  if (!Number.isInteger(from) || !Number.isInteger(to)) return NextResponse.json({ error: "Indica las versiones from y to" }, { status: 400 });
+  try {
+    const [a, b] = await Promise.all([getEvaluationVersion(params.id, from), getEvaluationVersion(params.id, to)]);
+    return NextResponse.json({ from, to, changes: diffEvaluations(a, b) });
+  } catch (e: any) {
+    if (e instanceof EvaluationNotFoundError || e instanceof EvaluationVersionNotFoundError) return NextResponse.json({ error: e.message }, { status: 404 });
+    return NextResponse.json({ error: `No se pudo comparar: ${e?.message || e}` }, { status: 500 });
+  }
+}
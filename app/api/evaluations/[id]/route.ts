@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+import { forbiddenChanges } from "@/lib/evaluations/permissions";
+import { parseScenario } from "@/lib/evaluations/schema";
+import { loadServerCatalog } from "@/lib/evaluations/serverCatalog";
+import { EvaluationNotFoundError, getEvaluation, updateEvaluation } from "@/lib/evaluations/store";
+import type { EvaluationData } from "@/lib/evaluations/types";
+
+// GET /api/evaluations/:id   evaluación completa (para reabrir o clonar)
+// PUT /api/evaluations/:id   { data } reemplaza el contenido; conserva el correlativo.
+//                            Si estaba enviada o resuelta y cambia, vuelve a borrador.
+//                            400 con la lista de problemas (issues) si data no es válida.
+//                            403 si el rol cambió campos que no puede editar.
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Ctx) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  try {
+    return NextResponse.json(await getEvaluation(params.id));
+  } catch (e: any) {
+    if (e instanceof EvaluationNotFoundError) return NextResponse.json({ error: e.message }, { status: 404 });
+    return NextResponse.json({ error: `No se pudo leer la evaluación: ${e?.message || e}` }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  const body = await req.json().catch(() => null);
+  let data: EvaluationData;
+  try {
+    data = parseScenario(body?.data).data;
+  } catch (e: any) {
+    return NextResponse.json({ error: `Evaluación inválida:\n${e?.message || e}`, issues: e?.issues }, { status: 400 });
+  }
+  try {
+    const denied = forbiddenChanges(user.role, data, (await getEvaluation(params.id)).data, await loadServerCatalog());
+    if (denied.length) return NextResponse.json({ error: `Tu rol no permite cambiar: ${denied.join(", ")}` }, { status: 403 });
+    return NextResponse.json(await updateEvaluation(params.id, data, { by: user.name }));
+  } catch (e: any) {
+    if (e instanceof EvaluationNotFoundError) return NextResponse.json({ error: e.message }, { status: 404 });
+    return NextResponse.json({ error: `No se pudo guardar la evaluación: ${e?.message || e}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { approvalPolicy } from "@/lib/evaluations/store";
+
+// GET /api/evaluations/policy   límites que envían una evaluación a aprobación { minMarginPct, maxDiscountPct }
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(approvalPolicy());
+}
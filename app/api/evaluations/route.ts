@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/server";
+import { forbiddenChanges } from "@/lib/evaluations/permissions";
+import { EvaluationNotFoundError, createEvaluation, getEvaluation, listEvaluations } from "@/lib/evaluations/store";
+import { APPROVAL_STATUS_LABELS, type ApprovalStatus } from "@/lib/evaluations/approval";
+import { parseScenario } from "@/lib/evaluations/schema";
+import { loadServerCatalog } from "@/lib/evaluations/serverCatalog";
+import type { EvaluationData, Verdict } from "@/lib/evaluations/types";
+
+// GET  /api/evaluations?q=&rut=&executive=&from=aaaa-mm-dd&to=aaaa-mm-dd&verdict=viable|no-viable&status=&limit=
+//      Lista resumida, más reciente primero.
+// POST /api/evaluations  { data, clonedFrom? } → 201 con la evaluación y su correlativo (docNumber)
+//      data se migra al formato vigente (schema.ts); 400 con la lista de problemas (issues) si no es válida.
+//      403 si el rol cambió campos que no puede editar (respecto del origen de la copia o de los valores por defecto)
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  const sp = new URL(req.url).searchParams;
+  const verdict = sp.get("verdict");
+  const status = sp.get("status") || "";
+  try {
+    const list = await listEvaluations({
+      q: sp.get("q") || undefined,
+      rut: sp.get("rut") || undefined,
+      executive: sp.get("executive") || undefined,
+      from: sp.get("from") || undefined,
+      to: sp.get("to") || undefined,
+      verdict: verdict === "viable" || verdict === "no-viable" ? (verdict as Verdict) : undefined,
+      status: Object.keys(APPROVAL_STATUS_LABELS).includes(status) ? (status as ApprovalStatus) : undefined,
+      limit: Number(sp.get("limit")) || undefined,
+    });
+    return NextResponse.json({ evaluations: list });
+  } catch (e: any) {
+    return NextResponse.json({ error: `No se pudo leer el repositorio: ${e?.message || e}` }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+  const body = await req.json().catch(() => null);
+  let data: EvaluationData;
+  try {
+    data = parseScenario(body?.data).data;
+  } catch (e: any) {
+    return NextResponse.json({ error: `Evaluación inválida:\n${e?.message || e}`, issues: e?.issues }, { status: 400 });
+  }
+  const clonedFrom = typeof body.clonedFrom === "string" ? body.clonedFrom : undefined;
+  try {
+    const base = clonedFrom ? await getEvaluation(clonedFrom).then((r) => r.data).catch((e) => (e instanceof EvaluationNotFoundError ? null : Promise.reject(e))) : null;
+    const denied = forbiddenChanges(user.role, data, base, await loadServerCatalog());
+    if (denied.length) return NextResponse.json({ error: `Tu rol no permite cambiar: ${denied.join(", ")}` }, { status: 403 });
+    const rec = await createEvaluation(data, { clonedFrom, by: user.name });
+    return NextResponse.json(rec, { status: 201 });
+  } catch (e: any) {
+    return NextResponse.json({ error: `No se pudo guardar la evaluación: ${e?.message || e}` }, { status: 500 });
+  }
+}
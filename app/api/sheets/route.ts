@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { fetchSheetCached, isAllowedSheetUrl, sheetCacheTtlMs } from "@/lib/ingestion/proxy";
+
+// GET /api/sheets?url=<Google Sheet o CSV>[&fresh=1]
+// Devuelve el IngestResult normalizado. Responde 304 si If-None-Match coincide con el ETag.
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const url = (searchParams.get("url") || "").trim();
+  if (!url) return NextResponse.json({ error: "Falta el parámetro url" }, { status: 400 });
+  if (!isAllowedSheetUrl(url)) return NextResponse.json({ error: "URL no permitida para el proxy de hojas" }, { status: 400 });
+
+  try {
+    const entry = await fetchSheetCached(url, { fresh: searchParams.has("fresh") });
+    const headers = {
+      ETag: entry.etag,
+      "Cache-Control": `private, max-age=${Math.floor(sheetCacheTtlMs() / 1000)}`,
+      "X-Sheets-Cache": entry.hit ? "HIT" : "MISS",
+    };
+    if (req.headers.get("if-none-match") === entry.etag) return new NextResponse(null, { status: 304, headers });
+    return new NextResponse(entry.body, { status: 200, headers: { ...headers, "Content-Type": "application/json; charset=utf-8" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: `No se pudo leer la hoja: ${e?.message || e}` }, { status: 502 });
+  }
+}
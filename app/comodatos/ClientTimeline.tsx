@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { computeTimeline, type TimelinePoint } from "@/lib/comodatos/timeline";
+import type { KeyType } from "@/lib/comodatos/metrics";
+import type { ComodatoRow, VentasRow } from "@/lib/comodatos/types";
+import { moneyCL, pctInt } from "@/lib/numbers";
+
+// ==============================
+// Línea de tiempo mensual de un cliente (ventas vs cuota de comodato)
+// ==============================
+
+type Props = {
+  ventasRows: VentasRow[];
+  comodatosRows: ComodatoRow[];
+  keyType: KeyType;
+  keyValue: string;
+  title: string;
+  asOf: Date;
+  months: number;
+  setMonths: (n: number) => void;
+  contractMonthsDefault: number;
+  relMax: number;
+  onClose: () => void;
+};
+
+const W = 900, H = 260, PAD_L = 70, PAD_R = 50, PAD_T = 16, PAD_B = 36;
+
+// Barras: ventas (azul) y comodato (naranjo) por mes · línea: relación (eje derecho)
+function TimelineChart({ points, relMax }: { points: TimelinePoint[]; relMax: number }) {
+  const maxMoney = Math.max(1, ...points.map((p) => Math.max(p.ventas, p.comodato)));
+  // Meses con notas de crédito pueden quedar con venta neta negativa: la barra baja del cero
+  const minMoney = Math.min(0, ...points.map((p) => p.ventas));
+  const maxRel = Math.max(relMax * 1.5, ...points.map((p) => p.relacion ?? 0));
+  const cw = (W - PAD_L - PAD_R) / Math.max(1, points.length);
+  const yMoney = (v: number) => PAD_T + (H - PAD_T - PAD_B) * ((maxMoney - v) / (maxMoney - minMoney));
+  const y0 = yMoney(0);
+  const bar = (v: number) => ({ y: Math.min(yMoney(v), y0), height: Math.abs(y0 - yMoney(v)) });
+  const yRel = (v: number) => PAD_T + (H - PAD_T - PAD_B) * (1 - Math.min(v, maxRel) / maxRel);
+  const relPath = points
+    .map((p, i) => (p.relacion === null ? null : `${PAD_L + cw * i + cw / 2},${yRel(p.relacion)}`))
+    .reduce<string[]>((acc, pt, i, arr) => {
+      if (pt) acc.push(`${i > 0 && arr[i - 1] ? "L" : "M"}${pt}`);
+      return acc;
+    }, [])
+    .join(" ");
+  const labelEvery = Math.ceil(points.length / 12);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label="Ventas vs comodato por mes">
+      {[0, 0.5, 1].map((f) => (
+        <g key={f}>
+          <line x1={PAD_L} x2={W - PAD_R} y1={yMoney(maxMoney * f)} y2={yMoney(maxMoney * f)} stroke="#e4e4e7" />
+          <text x={PAD_L - 6} y={yMoney(maxMoney * f) + 4} textAnchor="end" fontSize="10" fill="#71717a">{moneyCL(maxMoney * f)}</text>
+          <text x={W - PAD_R + 6} y={yRel(maxRel * f) + 4} fontSize="10" fill="#71717a">{pctInt(maxRel * f)}</text>
+        </g>
+      ))}
+      {minMoney < 0 && (
+        <text x={PAD_L - 6} y={yMoney(minMoney) + 4} textAnchor="end" fontSize="10" fill="#71717a">{moneyCL(minMoney)}</text>
+      )}
+      <line x1={PAD_L} x2={W - PAD_R} y1={yRel(relMax)} y2={yRel(relMax)} stroke="#dc2626" strokeDasharray="4 3" />
+      {points.map((p, i) => {
+        const x = PAD_L + cw * i;
+        const bw = Math.max(1, cw / 2 - 2);
+        return (
+          <g key={p.ym}>
+            <rect x={x + 2} {...bar(p.ventas)} width={bw} fill="#2B6CFF"><title>{`${p.label} · ventas ${moneyCL(p.ventas)}`}</title></rect>
+            <rect x={x + 2 + bw} {...bar(p.comodato)} width={bw} fill="#f59e0b"><title>{`${p.label} · comodato ${moneyCL(p.comodato)}`}</title></rect>
+            {i % labelEvery === 0 && <text x={x + cw / 2} y={H - PAD_B + 14} textAnchor="middle" fontSize="10" fill="#71717a">{p.label}</text>}
+          </g>
+        );
+      })}
+      {relPath && <path d={relPath} fill="none" stroke="#059669" strokeWidth={2} />}
+    </svg>
+  );
+}
+
+export default function ClientTimeline({ ventasRows, comodatosRows, keyType, keyValue, title, asOf, months, setMonths, contractMonthsDefault, relMax, onClose }: Props) {
+  const points = useMemo(
+    () => computeTimeline(ventasRows, comodatosRows, { keyType, key: keyValue, asOf, months, contractMonthsDefault }),
+    [ventasRows, comodatosRows, keyType, keyValue, asOf, months, contractMonthsDefault]
+  );
+  const totVentas = points.reduce((a, p) => a + p.ventas, 0);
+  const totComodato = points.reduce((a, p) => a + p.comodato, 0);
+
+  return (
+    <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">📈 Historia mensual — {title}</h2>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-zinc-500">Meses</span>
+          {[24, 36].map((n) => (
+            <button key={n} onClick={() => setMonths(n)} className={`rounded px-2 py-0.5 ${months === n ? "bg-[#2B6CFF] text-white" : "border"}`}>{n}</button>
+          ))}
+          <button onClick={onClose} className="rounded border px-2 py-0.5">Cerrar</button>
+        </div>
+      </div>
+      <div className="mb-2 flex flex-wrap gap-4 text-xs text-zinc-600">
+        <span><span className="inline-block h-2 w-3 bg-[#2B6CFF]" /> Ventas ({moneyCL(totVentas)})</span>
+        <span><span className="inline-block h-2 w-3 bg-amber-500" /> Comodato ({moneyCL(totComodato)})</span>
+        <span><span className="inline-block h-0.5 w-3 bg-emerald-600 align-middle" /> Relación · <span className="text-red-600">umbral {pctInt(relMax)}</span></span>
+      </div>
+      <TimelineChart points={points} relMax={relMax} />
+      <div className="mt-3 max-h-72 overflow-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Mes</th>
+              <th className="border px-2 py-1 text-right">Ventas</th>
+              <th className="border px-2 py-1 text-right">Comodato mensual</th>
+              <th className="border px-2 py-1 text-right">Equipos</th>
+              <th className="border px-2 py-1 text-right">Relación</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...points].reverse().map((p) => (
+              <tr key={p.ym}>
+                <td className="border px-2 py-1">{p.ym}</td>
+                <td className="border px-2 py-1 text-right">{moneyCL(p.ventas)}</td>
+                <td className="border px-2 py-1 text-right">{moneyCL(p.comodato)}</td>
+                <td className="border px-2 py-1 text-right">{p.equipos}</td>
+                <td className={`border px-2 py-1 text-right ${p.relacion === null ? "text-zinc-400" : p.relacion <= relMax ? "text-emerald-700" : "text-red-700"}`}>
+                  {p.relacion === null ? (p.comodato ? "sin ventas" : "—") : pctInt(p.relacion)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
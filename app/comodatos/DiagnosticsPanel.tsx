@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { tableToCsv } from "@/lib/ingestion";
+import type { MapReport } from "@/lib/comodatos/mappers";
+
+// ==============================
+// Diagnóstico de ingesta: filas descartadas y valores coercionados, con su línea de origen,
+// más los avisos de la fuente (hoja leída a medias, fuente de respaldo…) por hoja
+// ==============================
+
+type Props = { reports: { ventas?: MapReport; comodatos?: MapReport }; warnings?: Record<string, string[] | undefined> };
+
+type Kind = "descartada" | "coercion" | "fecha" | "rut" | "fuente";
+type Entry = { sheet: string; line: number; kind: Kind; field: string; value: string; reason: string };
+
+const KIND_LABELS: Record<Kind, string> = { descartada: "Descartada", coercion: "Coerción", fecha: "Fecha adivinada", rut: "RUT inválido", fuente: "Aviso de la fuente" };
+const SHEET_LABELS = { ventas: "Ventas", comodatos: "Comodatos" } as const;
+
+const isDateField = (field: string) => field === "fecha" || field === "fecha_instalacion";
+
+function entriesOf(sheet: string, rep: MapReport): Entry[] {
+  const out: Entry[] = rep.discarded.map((d) => ({ sheet, line: d.line, kind: "descartada", field: "", value: "", reason: d.reason }));
+  rep.notes.forEach((n) => out.push({ sheet, line: n.line, kind: n.field === "rut" ? "rut" : isDateField(n.field) ? "fecha" : "coercion", field: n.field, value: n.value, reason: n.note }));
+  return out.sort((a, b) => a.line - b.line);
+}
+
+export default function DiagnosticsPanel({ reports, warnings = {} }: Props) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<Kind | "all">("all");
+
+  const entries = useMemo(() => {
+    const out: Entry[] = [];
+    Object.entries(warnings).forEach(([sheet, ws]) => (ws || []).forEach((w) => out.push({ sheet, line: 0, kind: "fuente", field: "", value: "", reason: w })));
+    (["ventas", "comodatos"] as const).forEach((k) => { const rep = reports[k]; if (rep) out.push(...entriesOf(SHEET_LABELS[k], rep)); });
+    return out;
+  }, [reports, warnings]);
+
+  const sourceWarnings = entries.filter((e) => e.kind === "fuente").length;
+  if (!reports.ventas && !reports.comodatos && !sourceWarnings) return null;
+
+  const shown = kind === "all" ? entries : entries.filter((e) => e.kind === kind);
+  const countOf = (k: Kind) => entries.filter((e) => e.kind === k).length;
+
+  const downloadCsv = () => {
+    const table = [["Hoja", "Línea", "Tipo", "Campo", "Valor", "Motivo"], ...shown.map((e) => [e.sheet, String(e.line), KIND_LABELS[e.kind], e.field, e.value, e.reason])];
+    const blob = new Blob([tableToCsv(table)], { type: "text/csv;charset=utf-8" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `diagnostico_ingesta_${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+  };
+
+  return (
+    <div className="mt-3 rounded border bg-zinc-50 p-3 text-xs text-zinc-700 dark:bg-zinc-800 dark:text-zinc-200">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-semibold">🩺 Diagnóstico de ingesta</span>
+          {(["ventas", "comodatos"] as const).map((k) => {
+            const rep = reports[k]; if (!rep) return null;
+            return (
+              <span key={k}>
+                {SHEET_LABELS[k]}: <b>{rep.kept}</b> usadas · <b className={rep.discarded.length ? "text-red-700" : ""}>{rep.discarded.length}</b> descartadas · <b className={rep.notes.length ? "text-amber-700" : ""}>{rep.notes.length}</b> con avisos
+              </span>
+            );
+          })}
+          {sourceWarnings > 0 && <span><b className="text-amber-700">{sourceWarnings}</b> avisos de la fuente</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          {entries.length > 0 && <button onClick={() => setOpen((v) => !v)} className="rounded border px-2 py-1">{open ? "Ocultar detalle" : "Ver detalle"}</button>}
+          {entries.length > 0 && <button onClick={downloadCsv} className="rounded border px-2 py-1">⬇️ Descargar CSV</button>}
+        </div>
+      </div>
+
+      {open && (
+        <>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <button onClick={() => setKind("all")} className={`rounded px-2 py-0.5 ${kind === "all" ? "bg-[#2B6CFF] text-white" : "border"}`}>Todas ({entries.length})</button>
+            {(Object.keys(KIND_LABELS) as Kind[]).map((k) => (
+              <button key={k} onClick={() => setKind(k)} className={`rounded px-2 py-0.5 ${kind === k ? "bg-[#2B6CFF] text-white" : "border"}`}>{KIND_LABELS[k]} ({countOf(k)})</button>
+            ))}
+          </div>
+          <div className="mt-2 max-h-80 overflow-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-zinc-100 text-zinc-700">
+                  <th className="border px-2 py-1 text-left">Hoja</th>
+                  <th className="border px-2 py-1 text-right">Línea</th>
+                  <th className="border px-2 py-1 text-left">Tipo</th>
+                  <th className="border px-2 py-1 text-left">Campo</th>
+                  <th className="border px-2 py-1 text-left">Valor</th>
+                  <th className="border px-2 py-1 text-left">Motivo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.slice(0, 500).map((e, i) => (
+                  <tr key={`${e.sheet}-${e.line}-${i}`}>
+                    <td className="border px-2 py-1">{e.sheet}</td>
+                    <td className="border px-2 py-1 text-right">{e.line || "—"}</td>
+                    <td className={`border px-2 py-1 ${e.kind === "descartada" ? "text-red-700" : "text-amber-700"}`}>{KIND_LABELS[e.kind]}</td>
+                    <td className="border px-2 py-1">{e.field}</td>
+                    <td className="border px-2 py-1">{e.value}</td>
+                    <td className="border px-2 py-1">{e.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length > 500 && <div className="mt-1 text-zinc-500">Se muestran 500 de {shown.length}; descarga el CSV para ver todas.</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
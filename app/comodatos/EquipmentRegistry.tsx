@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { formatRut } from "@/lib/rut";
+import { computeEquipmentRegistry } from "@/lib/comodatos/equipment";
+import type { ComodatoRow } from "@/lib/comodatos/types";
+import { moneyCL } from "@/lib/numbers";
+
+// ==============================
+// Registro de equipos por SN: ubicación, historial de clientes y costo acumulado
+// ==============================
+
+type Props = {
+  comodatosRows: ComodatoRow[];
+  asOf: Date;
+  contractMonthsDefault: number;
+};
+
+const showRut = (rut: string, invalido?: boolean) => (invalido ? rut : formatRut(rut));
+
+export default function EquipmentRegistry({ comodatosRows, asOf, contractMonthsDefault }: Props) {
+  const [open, setOpen] = useState(false);
+  const [q, setQ] = useState("");
+  const [soloConflictos, setSoloConflictos] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const registry = useMemo(
+    () => computeEquipmentRegistry(comodatosRows, { asOf, contractMonthsDefault }),
+    [comodatosRows, asOf, contractMonthsDefault]
+  );
+  const soloSalida = comodatosRows.length > 0 && comodatosRows.every((c) => c.isSalida);
+  const conflictos = registry.filter((r) => r.conflicto).length;
+  const shown = useMemo(() => {
+    const s = q.trim().toLowerCase();
+    return registry
+      .filter((r) => !soloConflictos || r.conflicto)
+      .filter((r) => !s || r.sn.toLowerCase().includes(s) || r.placements.some((p) => (p.cliente || "").toLowerCase().includes(s) || p.rut.toLowerCase().includes(s)))
+      .slice(0, 500);
+  }, [registry, q, soloConflictos]);
+
+  return (
+    <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🧾 Registro de equipos (SN)</h2>
+        <div className="flex items-center gap-3 text-xs text-zinc-600">
+          <span>{registry.length} equipos{conflictos > 0 && <> · <span className="font-semibold text-red-700">{conflictos} en dos clientes</span></>}</span>
+          <button onClick={() => setOpen((v) => !v)} className="rounded border px-2 py-1">{open ? "Ocultar" : "Ver registro"}</button>
+        </div>
+      </div>
+
+      {open && (
+        <>
+          {soloSalida ? (
+            <div className="mt-3 text-xs text-zinc-500">La hoja cargada es de <b>Comodatos Salida</b>: ahí el SN es un código de producto, no un número de serie. Carga la hoja de contratos para ver el registro.</div>
+          ) : (
+            <>
+              <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+                <input className="rounded border px-2 py-1" placeholder="Buscar SN, cliente o RUT" value={q} onChange={(e) => setQ(e.target.value)} />
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={soloConflictos} onChange={(e) => setSoloConflictos(e.target.checked)} />
+                  Solo vigentes en dos o más clientes
+                </label>
+                <span className="text-zinc-500">Costo acumulado = cuota mensual × meses transcurridos de cada contrato al {asOf.toLocaleDateString("es-CL")}.</span>
+              </div>
+
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full border-collapse text-xs">
+                  <thead>
+                    <tr className="bg-zinc-100 text-zinc-700">
+                      <th className="border px-2 py-1 text-left">SN</th>
+                      <th className="border px-2 py-1 text-left">Ubicación actual</th>
+                      <th className="border px-2 py-1 text-left">Instalado</th>
+                      <th className="border px-2 py-1 text-left">Término</th>
+                      <th className="border px-2 py-1 text-right">Instalaciones</th>
+                      <th className="border px-2 py-1 text-right">Movimientos</th>
+                      <th className="border px-2 py-1 text-right">Costo acumulado</th>
+                      <th className="border px-2 py-1 text-left">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.length === 0 && <tr><td colSpan={8} className="border px-2 py-2 text-center text-zinc-500">Sin equipos</td></tr>}
+                    {shown.map((r) => (
+                      <React.Fragment key={r.sn}>
+                        <tr className="cursor-pointer hover:bg-zinc-50" onClick={() => setExpanded((v) => (v === r.sn ? null : r.sn))}>
+                          <td className="border px-2 py-1 font-mono">{r.sn}</td>
+                          <td className="border px-2 py-1">{r.actual ? <>{r.actual.cliente || "—"} <span className="text-zinc-500">({showRut(r.actual.rut, r.actual.rutInvalido)})</span></> : "—"}</td>
+                          <td className="border px-2 py-1">{r.actual?.fechaInst || "—"}</td>
+                          <td className="border px-2 py-1">{r.actual?.fechaFin || "—"}</td>
+                          <td className="border px-2 py-1 text-right">{r.placements.length}</td>
+                          <td className="border px-2 py-1 text-right">{r.movimientos}</td>
+                          <td className="border px-2 py-1 text-right">{moneyCL(r.costoAcumulado)}</td>
+                          <td className="border px-2 py-1">
+                            {r.conflicto ? <span className="rounded bg-red-100 px-1.5 py-0.5 text-red-800">En {r.clientesVigentes.length} clientes</span>
+                              : r.clientesVigentes.length ? <span className="rounded bg-emerald-100 px-1.5 py-0.5 text-emerald-800">Vigente</span>
+                              : <span className="rounded bg-zinc-100 px-1.5 py-0.5 text-zinc-700">Vencido</span>}
+                          </td>
+                        </tr>
+                        {expanded === r.sn && (
+                          <tr>
+                            <td colSpan={8} className="border bg-zinc-50 px-3 py-2">
+                              <div className="mb-1 font-semibold text-zinc-600">Historial de instalaciones</div>
+                              <table className="w-full border-collapse">
+                                <thead>
+                                  <tr className="text-zinc-600">
+                                    <th className="border px-2 py-1 text-left">Cliente</th>
+                                    <th className="border px-2 py-1 text-left">RUT</th>
+                                    <th className="border px-2 py-1 text-left">Instalación</th>
+                                    <th className="border px-2 py-1 text-left">Término</th>
+                                    <th className="border px-2 py-1 text-right">Meses</th>
+                                    <th className="border px-2 py-1 text-right">Cuota mensual</th>
+                                    <th className="border px-2 py-1 text-right">Entregado</th>
+                                    <th className="border px-2 py-1 text-center">Vigente</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {r.placements.map((p, i) => (
+                                    <tr key={`${p.rut}-${p.fechaInst}-${i}`} className={r.conflicto && p.vigente ? "bg-red-50" : undefined}>
+                                      <td className="border px-2 py-1">{p.cliente || "—"}</td>
+                                      <td className="border px-2 py-1">{showRut(p.rut, p.rutInvalido)}</td>
+                                      <td className="border px-2 py-1">{p.fechaInst}</td>
+                                      <td className="border px-2 py-1">{p.fechaFin}</td>
+                                      <td className="border px-2 py-1 text-right">{p.mesesTranscurridos}/{p.mesesContrato}</td>
+                                      <td className="border px-2 py-1 text-right">{moneyCL(p.costoMensual)}</td>
+                                      <td className="border px-2 py-1 text-right">{moneyCL(p.costoEntregado)}</td>
+                                      <td className="border px-2 py-1 text-center">{p.vigente ? "Sí" : "No"}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+                {registry.length > shown.length && !q && !soloConflictos && <div className="mt-1 text-xs text-zinc-500">Mostrando los primeros {shown.length} de {registry.length}; usa la búsqueda para acotar.</div>}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
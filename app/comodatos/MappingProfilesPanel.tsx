@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useState } from "react";
+import { DATE_FORMATS, DATE_FORMAT_LABELS, type DateFormat } from "@/lib/dates";
+import { NUMBER_LOCALES, NUMBER_LOCALE_LABELS, type NumberLocale } from "@/lib/numbers";
+import type { MapReport } from "@/lib/comodatos/mappers";
+import {
+  CANONICAL_FIELDS,
+  DEFAULT_ACTIVE_PROFILES,
+  DEFAULT_PROFILES,
+  TARGET_LABELS,
+  TRANSFORMS,
+  parseProfilesJSON,
+  pickProfile,
+  profilesToJSON,
+  type ActiveProfiles,
+  type FieldTransform,
+  type MappingProfile,
+  type ProfileTarget,
+} from "@/lib/comodatos/mapping";
+
+type Props = {
+  profiles: MappingProfile[];
+  setProfiles: (fn: (prev: MappingProfile[]) => MappingProfile[]) => void;
+  active: ActiveProfiles;
+  setActive: (fn: (prev: ActiveProfiles) => ActiveProfiles) => void;
+  reports: { ventas?: MapReport; comodatos?: MapReport };
+};
+
+const TARGETS: ProfileTarget[] = ["ventas", "comodatos", "salida"];
+
+export default function MappingProfilesPanel({ profiles, setProfiles, active, setActive, reports }: Props) {
+  const [target, setTarget] = useState<ProfileTarget>("ventas");
+  const profile = pickProfile(profiles, active, target);
+  const ofTarget = profiles.filter((p) => p.target === target);
+  const rep = target === "ventas" ? reports.ventas : reports.comodatos?.mode === (target === "comodatos" ? "contratos" : "salida") ? reports.comodatos : undefined;
+  const repForProfile = rep && rep.profileId === profile.id ? rep : undefined;
+
+  const updateProfile = (fn: (p: MappingProfile) => MappingProfile) =>
+    setProfiles((prev) => {
+      const exists = prev.some((p) => p.id === profile.id);
+      const base = exists ? prev : [...prev, profile];
+      return base.map((p) => (p.id === profile.id ? fn(p) : p));
+    });
+
+  const setField = (field: string, patch: Partial<{ headers: string[]; transform: FieldTransform }>) =>
+    updateProfile((p) => ({ ...p, fields: { ...p.fields, [field]: { ...(p.fields[field] || { headers: [], transform: "text" }), ...patch } } }));
+
+  const duplicate = () => {
+    const copy: MappingProfile = { ...JSON.parse(JSON.stringify(profile)), id: `perfil-${Date.now()}`, name: `${profile.name} (copia)` };
+    setProfiles((prev) => [...prev, copy]);
+    setActive((a) => ({ ...a, [target]: copy.id }));
+  };
+
+  const remove = () => {
+    if (ofTarget.length <= 1) { alert("Debe quedar al menos un perfil para esta hoja."); return; }
+    if (!confirm(`¿Eliminar el perfil "${profile.name}"?`)) return;
+    const next = ofTarget.find((p) => p.id !== profile.id)!;
+    setProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+    setActive((a) => ({ ...a, [target]: next.id }));
+  };
+
+  const restoreDefaults = () => {
+    if (!confirm("¿Restaurar los perfiles predeterminados? Se perderán los perfiles editados.")) return;
+    setProfiles(() => DEFAULT_PROFILES);
+    setActive(() => DEFAULT_ACTIVE_PROFILES);
+  };
+
+  const exportJSON = () => {
+    const blob = new Blob([profilesToJSON(profiles)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = "perfiles_mapeo_comodatos.json";
+    a.click();
+  };
+
+  const importJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then((text) => {
+      try {
+        const imported = parseProfilesJSON(text);
+        setProfiles((prev) => {
+          const byId = new Map(prev.map((p) => [p.id, p] as const));
+          imported.forEach((p) => byId.set(p.id, p));
+          return Array.from(byId.values());
+        });
+        alert(`Se importaron ${imported.length} perfil(es).`);
+      } catch (err: any) {
+        alert("JSON de perfiles inválido: " + (err?.message || err));
+      }
+    });
+    e.target.value = "";
+  };
+
+  const reasons = new Map<string, number>();
+  (repForProfile?.discarded || []).forEach((d) => reasons.set(d.reason, (reasons.get(d.reason) || 0) + 1));
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-semibold text-[#2B6CFF]">🧭 Mapeo de columnas</h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <button onClick={exportJSON} className="rounded border px-2 py-1">⤴️ Exportar JSON</button>
+          <label className="cursor-pointer rounded border px-2 py-1">
+            ⤵️ Importar JSON
+            <input type="file" accept="application/json" onChange={importJSON} className="hidden" />
+          </label>
+          <button onClick={restoreDefaults} className="rounded border px-2 py-1">Restaurar predeterminados</button>
+        </div>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        {TARGETS.map((t) => (
+          <button key={t} onClick={() => setTarget(t)} className={`rounded px-3 py-1 text-xs ${t === target ? "bg-[#2B6CFF] text-white" : "border"}`}>
+            {TARGET_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-zinc-600">Perfil activo</span>
+          <select value={profile.id} onChange={(e) => { const id = e.target.value; setActive((a) => ({ ...a, [target]: id })); }} className="rounded border px-2 py-1">
+            {(ofTarget.length ? ofTarget : [profile]).map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </label>
+        <input className="w-64 rounded border px-2 py-1" value={profile.name} onChange={(e) => { const v = e.target.value; updateProfile((p) => ({ ...p, name: v })); }} />
+        <label className="flex items-center gap-2">
+          <span className="text-zinc-600">Formato de fecha</span>
+          <select value={profile.dateFormat ?? "auto"} onChange={(e) => { const v = e.target.value as DateFormat; updateProfile((p) => ({ ...p, dateFormat: v })); }} className="rounded border px-2 py-1">
+            {DATE_FORMATS.map((d) => <option key={d} value={d}>{DATE_FORMAT_LABELS[d]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-zinc-600">Números</span>
+          <select value={profile.numberLocale ?? "auto"} onChange={(e) => { const v = e.target.value as NumberLocale; updateProfile((p) => ({ ...p, numberLocale: v })); }} className="rounded border px-2 py-1">
+            {NUMBER_LOCALES.map((l) => <option key={l} value={l}>{NUMBER_LOCALE_LABELS[l]}</option>)}
+          </select>
+        </label>
+        <button onClick={duplicate} className="rounded border px-2 py-1 text-xs">Duplicar</button>
+        <button onClick={remove} className="rounded bg-red-100 px-2 py-1 text-xs text-red-700">Eliminar</button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Campo</th>
+              <th className="border px-2 py-1 text-left">Cabeceras aceptadas (separadas por |)</th>
+              <th className="border px-2 py-1 text-left">Transformación</th>
+              <th className="border px-2 py-1 text-left">Encontrada en la hoja</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.keys(CANONICAL_FIELDS[target]).map((field) => {
+              const fm = profile.fields[field] || { headers: [], transform: "text" as FieldTransform };
+              const joined = fm.headers.join(" | ");
+              const found = repForProfile?.resolution.matched[field];
+              return (
+                <tr key={field}>
+                  <td className="border px-2 py-1"><b>{field}</b><div className="text-zinc-500">{CANONICAL_FIELDS[target][field]}</div></td>
+                  <td className="border px-2 py-1">
+                    <input
+                      key={`${profile.id}:${field}:${joined}`}
+                      className="w-full rounded border px-1 py-0.5"
+                      defaultValue={joined}
+                      onBlur={(e) => {
+                        const headers = e.target.value.split("|").map((h) => h.trim()).filter(Boolean);
+                        if (headers.join(" | ") !== joined) setField(field, { headers });
+                      }}
+                    />
+                  </td>
+                  <td className="border px-2 py-1">
+                    <select value={fm.transform} onChange={(e) => setField(field, { transform: e.target.value as FieldTransform })} className="rounded border px-1 py-0.5">
+                      {TRANSFORMS.map((t) => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </td>
+                  <td className={`border px-2 py-1 ${repForProfile ? (found ? "text-emerald-700" : "text-red-700") : "text-zinc-400"}`}>
+                    {repForProfile ? (found ? `✔ ${found}` : "✘ sin coincidencia") : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 rounded border bg-zinc-50 p-3 text-xs text-zinc-700 dark:bg-zinc-800 dark:text-zinc-200">
+        <div className="mb-1 font-semibold">Vista previa con la última carga</div>
+        {!repForProfile ? (
+          <div className="text-zinc-500">
+            {rep ? `La hoja se mapeó con "${rep.profileName}". Activa este perfil para ver su vista previa.` : "Carga las hojas para ver qué cabeceras coinciden y qué filas se descartan."}
+          </div>
+        ) : (
+          <>
+            <div>Filas usadas: <b>{repForProfile.kept}</b> · descartadas: <b>{repForProfile.discarded.length}</b></div>
+            {repForProfile.resolution.unused.length > 0 && (
+              <div className="mt-1">Cabeceras sin usar: {repForProfile.resolution.unused.join(", ")}</div>
+            )}
+            {reasons.size > 0 && (
+              <ul className="mt-1 list-disc pl-5">
+                {Array.from(reasons.entries()).map(([r, n]) => <li key={r}>{r}: {n}</li>)}
+              </ul>
+            )}
+            {repForProfile.discarded.length > 0 && (
+              <div className="mt-1 text-zinc-500">Primeras filas descartadas: {repForProfile.discarded.slice(0, 20).map((d) => `línea ${d.line} (${d.reason})`).join(", ")}</div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
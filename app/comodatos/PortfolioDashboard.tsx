@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { computePortfolio, sinVentas, type ExposureGroup } from "@/lib/comodatos/portfolio";
+import type { Metric } from "@/lib/comodatos/metrics";
+import { moneyCL, pctInt } from "@/lib/numbers";
+
+// ==============================
+// Resumen de cartera: exposición total de comodatos sobre las métricas filtradas
+// ==============================
+
+type Props = {
+  metrics: Metric[]; // ya filtradas (mismos filtros que la tabla principal)
+  relMax: number;
+  labels: { ventasVentanaProm: string; comodatoRestanteTotal: string };
+  formatKey: (m: Metric) => string;
+  onOpenClient?: (key: string) => void;
+};
+
+const BUCKET_COLORS: Record<string, string> = {
+  b50: "bg-emerald-500",
+  b100: "bg-emerald-300",
+  b150: "bg-amber-400",
+  bmas: "bg-red-500",
+  "sin-ventas": "bg-zinc-500",
+};
+
+function GroupTable({ title, groups, relMax }: { title: string; groups: ExposureGroup[]; relMax: number }) {
+  return (
+    <div className="overflow-x-auto">
+      <div className="mb-1 text-xs font-semibold text-zinc-600">{title}</div>
+      <table className="w-full border-collapse text-xs">
+        <thead>
+          <tr className="bg-zinc-100 text-zinc-700">
+            <th className="border px-2 py-1 text-left">Nombre</th>
+            <th className="border px-2 py-1 text-right">Clientes</th>
+            <th className="border px-2 py-1 text-right">Cuota mensual</th>
+            <th className="border px-2 py-1 text-right">Restante</th>
+            <th className="border px-2 py-1 text-right">Relación</th>
+            <th className="border px-2 py-1 text-right">Sobre umbral</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((g) => (
+            <tr key={g.name}>
+              <td className="border px-2 py-1">{g.name}</td>
+              <td className="border px-2 py-1 text-right">{g.clientes}</td>
+              <td className="border px-2 py-1 text-right">{moneyCL(g.mensual)}</td>
+              <td className="border px-2 py-1 text-right">{moneyCL(g.restante)}</td>
+              <td className={`border px-2 py-1 text-right ${g.relacion <= relMax ? "text-emerald-700" : "text-red-700"}`}>{pctInt(g.relacion)}</td>
+              <td className="border px-2 py-1 text-right">{g.sobreUmbral}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PortfolioDashboard({ metrics, relMax, labels, formatKey, onOpenClient }: Props) {
+  const [open, setOpen] = useState(false);
+  const [topN, setTopN] = useState(10);
+  const s = useMemo(() => computePortfolio(metrics, relMax, topN), [metrics, relMax, topN]);
+  const maxBucket = Math.max(1, ...s.buckets.map((b) => b.count));
+
+  return (
+    <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🗂️ Resumen de cartera</h2>
+        <div className="flex items-center gap-3 text-xs text-zinc-600">
+          <span>{s.clientes} clientes · cuota mensual {moneyCL(s.totalMensual)} · {s.sobreUmbral} sobre umbral</span>
+          <button onClick={() => setOpen((v) => !v)} className="rounded border px-2 py-1">{open ? "Ocultar" : "Ver resumen"}</button>
+        </div>
+      </div>
+
+      {open && (
+        <>
+          <p className="mt-1 text-xs text-zinc-500">Calculado sobre los clientes visibles en la tabla (mismos filtros).</p>
+          <div className="mt-3 grid grid-cols-2 gap-3 text-sm md:grid-cols-5">
+            <div className="rounded border p-3"><div className="text-xs text-zinc-500">Cuota mensual vigente</div><div className="font-semibold">{moneyCL(s.totalMensual)}</div></div>
+            <div className="rounded border p-3"><div className="text-xs text-zinc-500">{labels.comodatoRestanteTotal}</div><div className="font-semibold">{moneyCL(s.totalRestante)}</div></div>
+            <div className="rounded border p-3"><div className="text-xs text-zinc-500">{labels.ventasVentanaProm}</div><div className="font-semibold">{moneyCL(s.totalVentasProm)}</div></div>
+            <div className="rounded border p-3"><div className="text-xs text-zinc-500">Relación cartera</div><div className={`font-semibold ${s.relacionCartera <= relMax ? "text-emerald-700" : "text-red-700"}`}>{pctInt(s.relacionCartera)}</div></div>
+            <div className="rounded border p-3"><div className="text-xs text-zinc-500">Sobre umbral ({pctInt(relMax)})</div><div className="font-semibold text-red-700">{s.sobreUmbral} · {moneyCL(s.mensualSobreUmbral)}/mes</div></div>
+          </div>
+
+          <div className="mt-4 grid gap-6 md:grid-cols-2">
+            <div>
+              <div className="mb-1 text-xs font-semibold text-zinc-600">Distribución de la relación vs umbral</div>
+              <div className="space-y-1 text-xs">
+                {s.buckets.map((b) => (
+                  <div key={b.id} className="flex items-center gap-2">
+                    <div className="w-56 shrink-0 text-zinc-600">{b.label}</div>
+                    <div className="h-3 flex-1 rounded bg-zinc-100">
+                      <div className={`h-3 rounded ${BUCKET_COLORS[b.id]}`} style={{ width: `${(b.count / maxBucket) * 100}%` }} />
+                    </div>
+                    <div className="w-40 shrink-0 text-right">{b.count} · {moneyCL(b.mensual)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <div className="mb-1 flex items-center justify-between text-xs font-semibold text-zinc-600">
+                <span>Peores relaciones</span>
+                <label className="flex items-center gap-1 font-normal">
+                  Top
+                  <select value={topN} onChange={(e) => setTopN(Number(e.target.value))} className="rounded border px-1 py-0.5">
+                    {[5, 10, 20, 50].map((n) => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+              </div>
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="bg-zinc-100 text-zinc-700">
+                    <th className="border px-2 py-1 text-left">Clave</th>
+                    <th className="border px-2 py-1 text-left">Cliente</th>
+                    <th className="border px-2 py-1 text-right">Cuota mensual</th>
+                    <th className="border px-2 py-1 text-right">Relación</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {s.peores.length === 0 && <tr><td colSpan={4} className="border px-2 py-2 text-center text-zinc-500">Sin clientes con relación</td></tr>}
+                  {s.peores.map((m) => (
+                    <tr key={m.key} className={onOpenClient ? "cursor-pointer hover:bg-zinc-50" : undefined} onClick={() => onOpenClient?.(m.key)}>
+                      <td className="border px-2 py-1">{formatKey(m)}</td>
+                      <td className="border px-2 py-1">{m.cliente || "—"}</td>
+                      <td className="border px-2 py-1 text-right">{moneyCL(m.comodatoMensualVigente)}</td>
+                      <td className={`border px-2 py-1 text-right ${m.relacion <= relMax && !sinVentas(m) ? "text-emerald-700" : "text-red-700"}`}>{sinVentas(m) ? "sin ventas" : pctInt(m.relacion)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {(s.porEjecutivo.length > 0 || s.porRegion.length > 0) && (
+            <div className="mt-4 grid gap-6 md:grid-cols-2">
+              {s.porEjecutivo.length > 0 && <GroupTable title="Exposición por ejecutivo" groups={s.porEjecutivo} relMax={relMax} />}
+              {s.porRegion.length > 0 && <GroupTable title="Exposición por región" groups={s.porRegion} relMax={relMax} />}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
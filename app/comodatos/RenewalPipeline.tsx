@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { toISODate } from "@/lib/dates";
+import type { Metric } from "@/lib/comodatos/metrics";
+import { isOverThreshold, sinVentas } from "@/lib/comodatos/portfolio";
+import { RENEWAL_STAGES, RENEWAL_STAGE_LABELS, computeRenewals, type RenewalStage } from "@/lib/comodatos/renewals";
+import { moneyCL, pctInt } from "@/lib/numbers";
+
+// ==============================
+// Pipeline de renovaciones (30/60/90 días y vencidos), exportable a XLSX
+// ==============================
+
+type Props = {
+  metrics: Metric[]; // todas las claves que pasan la búsqueda (incluye clientes sin equipos vigentes)
+  asOf: Date;
+  relMax: number;
+  labels: { ventasVentanaProm: string; relacion: string };
+  formatKey: (m: Metric) => string;
+};
+
+const STAGE_STYLES: Record<RenewalStage, string> = {
+  vencido: "bg-red-100 text-red-800",
+  "30": "bg-amber-100 text-amber-800",
+  "60": "bg-yellow-50 text-yellow-800",
+  "90": "bg-zinc-100 text-zinc-700",
+};
+
+export default function RenewalPipeline({ metrics, asOf, relMax, labels, formatKey }: Props) {
+  const [open, setOpen] = useState(false);
+  const [stages, setStages] = useState<Record<RenewalStage, boolean>>({ vencido: true, "30": true, "60": true, "90": true });
+  const groups = useMemo(() => computeRenewals(metrics, asOf), [metrics, asOf]);
+  const shown = groups
+    .map((g) => ({ ...g, items: g.items.filter((it) => stages[it.stage]) }))
+    .filter((g) => g.items.length);
+  const counts = RENEWAL_STAGES.reduce((acc, st) => {
+    acc[st] = groups.reduce((a, g) => a + g.items.filter((it) => it.stage === st).length, 0);
+    return acc;
+  }, {} as Record<RenewalStage, number>);
+
+  const exportXlsx = async () => {
+    try {
+      const XLSX = await import("xlsx");
+      const rows = shown.flatMap((g) => g.items.map((it) => ({
+        Clave: formatKey(g.metric),
+        Cliente: g.metric.cliente || "",
+        Estado: RENEWAL_STAGE_LABELS[it.stage],
+        "Días al término": it.dias,
+        SN: it.equipo.sn || "",
+        Instalación: it.equipo.fechaInst,
+        Término: it.equipo.fechaFin,
+        "Meses contrato": it.equipo.mesesContrato,
+        "Cuota mensual equipo": Math.round(it.equipo.costoMensual || 0),
+        "Cuota mensual cliente": Math.round(g.metric.comodatoMensualVigente || 0),
+        [labels.ventasVentanaProm]: Math.round(g.metric.ventasVentanaProm || 0),
+        [labels.relacion]: Number((g.metric.relacion || 0).toFixed(4)),
+        "Sobre umbral": isOverThreshold(g.metric, relMax) ? "Sí" : "No",
+      })));
+      const ws = XLSX.utils.json_to_sheet(rows);
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, "Renovaciones");
+      XLSX.writeFile(wb, `renovaciones_comodatos_${toISODate(asOf)}.xlsx`);
+    } catch (e: any) {
+      alert("No se pudo exportar el XLSX: " + (e?.message || e));
+    }
+  };
+
+  return (
+    <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🔁 Renovaciones</h2>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-600">
+          {RENEWAL_STAGES.map((st) => (
+            <span key={st} className={`rounded-full px-2 py-0.5 ${STAGE_STYLES[st]}`}>{RENEWAL_STAGE_LABELS[st]}: {counts[st]}</span>
+          ))}
+          <button onClick={() => setOpen((v) => !v)} className="rounded border px-2 py-1">{open ? "Ocultar" : "Ver pipeline"}</button>
+        </div>
+      </div>
+
+      {open && (
+        <>
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+            {RENEWAL_STAGES.map((st) => (
+              <label key={st} className="flex items-center gap-1">
+                <input type="checkbox" checked={stages[st]} onChange={(e) => { const v = e.target.checked; setStages((s) => ({ ...s, [st]: v })); }} />
+                {RENEWAL_STAGE_LABELS[st]}
+              </label>
+            ))}
+            <button onClick={exportXlsx} disabled={!shown.length} className="rounded bg-[#2B6CFF] px-3 py-1 text-white hover:bg-[#1F5AE6] disabled:opacity-50">⬇️ Exportar XLSX</button>
+            <span className="text-zinc-500">Días contados desde {asOf.toLocaleDateString("es-CL")}.</span>
+          </div>
+
+          {shown.length === 0 ? (
+            <div className="mt-3 text-xs text-zinc-500">No hay contratos por vencer en los próximos 90 días ni vencidos en la hoja.</div>
+          ) : (
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="bg-zinc-100 text-zinc-700">
+                    <th className="border px-2 py-1 text-left">Cliente</th>
+                    <th className="border px-2 py-1 text-right">{labels.relacion}</th>
+                    <th className="border px-2 py-1 text-left">SN</th>
+                    <th className="border px-2 py-1 text-left">Instalación</th>
+                    <th className="border px-2 py-1 text-left">Término</th>
+                    <th className="border px-2 py-1 text-right">Días</th>
+                    <th className="border px-2 py-1 text-right">Cuota mensual</th>
+                    <th className="border px-2 py-1 text-left">Estado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((g) => g.items.map((it, i) => (
+                    <tr key={`${g.metric.key}-${it.equipo.sn || ""}-${i}`}>
+                      {i === 0 && (
+                        <>
+                          <td className="border px-2 py-1 align-top" rowSpan={g.items.length}>
+                            <div className="font-semibold">{g.metric.cliente || "—"}</div>
+                            <div className="text-zinc-500">{formatKey(g.metric)}</div>
+                          </td>
+                          <td className={`border px-2 py-1 align-top text-right ${isOverThreshold(g.metric, relMax) ? "text-red-700" : "text-emerald-700"}`} rowSpan={g.items.length}>{sinVentas(g.metric) ? "sin ventas" : pctInt(g.metric.relacion)}</td>
+                        </>
+                      )}
+                      <td className="border px-2 py-1">{it.equipo.sn || "—"}</td>
+                      <td className="border px-2 py-1">{it.equipo.fechaInst}</td>
+                      <td className="border px-2 py-1">{it.equipo.fechaFin}</td>
+                      <td className="border px-2 py-1 text-right">{it.dias < 0 ? `hace ${-it.dias}` : it.dias}</td>
+                      <td className="border px-2 py-1 text-right">{moneyCL(it.equipo.costoMensual)}</td>
+                      <td className="border px-2 py-1"><span className={`rounded px-1.5 py-0.5 ${STAGE_STYLES[it.stage]}`}>{RENEWAL_STAGE_LABELS[it.stage]}</span></td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
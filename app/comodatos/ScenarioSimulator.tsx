@@ -0,0 +1,355 @@
+"use client";
+
+import React, { useState } from "react";
+import { toISODate } from "@/lib/dates";
+import { computeBreakEven } from "@/lib/comodatos/breakeven";
+import { NEGOCIO_HANDOFF_PARAM, buildNegocioHandoff, writeNegocioHandoff } from "@/lib/comodatos/handoff";
+import type { Metric, TopProd } from "@/lib/comodatos/metrics";
+import type { CatalogItem, SolicitudRow } from "@/lib/comodatos/types";
+import { blankScenario, equipoId, evaluateScenario, solicitudMensual, type Scenario } from "@/lib/comodatos/scenarios";
+import { parseSimulationsJSON, simulationsToJSON } from "@/lib/comodatos/scenarioSchema";
+import { parseJSONText } from "@/lib/schema";
+import { moneyCL, pctInt } from "@/lib/numbers";
+
+// ==============================
+// Evaluación en vivo: escenarios what-if con nombre, guardados por cliente
+// ==============================
+
+type Props = {
+  metric: Metric;
+  title: string;
+  scenarios: Scenario[]; // guardados para este cliente (puede venir vacío)
+  setScenarios: (list: Scenario[]) => void;
+  catalog: Record<string, CatalogItem>;
+  onRefreshCatalog: () => void;
+  relMax: number;
+  contractMonthsDefault: number;
+  ventasLabel: string;
+  topProds: TopProd[]; // top productos del cliente (precio/kg para el punto de equilibrio)
+  exportName: string; // nombre base del XLSX
+  clientRut: string; // vacío si la clave no es RUT
+  onClose: () => void;
+};
+
+// Id fijo del escenario implícito: se guarda recién al editarlo
+const DEFAULT_ID = "esc-inicial";
+
+export default function ScenarioSimulator({ metric, title, scenarios, setScenarios, catalog, onRefreshCatalog, relMax, contractMonthsDefault, ventasLabel, topProds, exportName, clientRut, onClose }: Props) {
+  const list = scenarios.length ? scenarios : [blankScenario("Escenario 1", DEFAULT_ID)];
+  const [activeId, setActiveId] = useState<string>(list[0].id);
+  const sc = list.find((s) => s.id === activeId) || list[0];
+  const vigentes = metric.detalle.filter((e) => e.mesesRestantes > 0);
+
+  const update = (patch: Partial<Scenario>) => setScenarios(list.map((s) => (s.id === sc.id ? { ...s, ...patch } : s)));
+  const setRows = (fn: (rows: SolicitudRow[]) => SolicitudRow[]) => update({ rows: fn(sc.rows.map((r) => ({ ...r }))) });
+
+  const addScenario = (copyFrom?: Scenario) => {
+    const name = prompt("Nombre del escenario", copyFrom ? `${copyFrom.name} (copia)` : `Escenario ${list.length + 1}`);
+    if (!name) return;
+    const n = copyFrom ? { ...copyFrom, ...blankScenario(name), rows: copyFrom.rows.map((r) => ({ ...r })), retirados: [...copyFrom.retirados], ventasProyectadas: copyFrom.ventasProyectadas } : blankScenario(name);
+    setScenarios([...list, n]);
+    setActiveId(n.id);
+  };
+  const renameScenario = () => {
+    const name = prompt("Nuevo nombre", sc.name);
+    if (name) update({ name });
+  };
+  const deleteScenario = () => {
+    if (!confirm(`¿Eliminar el escenario "${sc.name}"?`)) return;
+    const rest = list.filter((s) => s.id !== sc.id);
+    setScenarios(rest);
+    setActiveId(rest[0]?.id || DEFAULT_ID);
+  };
+  const toggleRetiro = (id: string, on: boolean) => update({ retirados: on ? [...sc.retirados, id] : sc.retirados.filter((x) => x !== id) });
+
+  const results = list.map((s) => {
+    const r = evaluateScenario(metric, s, contractMonthsDefault, relMax);
+    return { s, r, be: computeBreakEven(metric, s, r, topProds, relMax, contractMonthsDefault) };
+  });
+  const current = results.find((x) => x.s.id === sc.id) || results[0];
+  const actual = metric.ventasVentanaProm > 0 ? metric.comodatoMensualVigente / metric.ventasVentanaProm : 0;
+
+  // Abre /negocio con el cliente, los equipos del escenario y sus productos top como líneas de venta
+  const evaluarNegocio = () => {
+    try {
+      writeNegocioHandoff(buildNegocioHandoff(sc, topProds, { customerName: metric.cliente || "", clientRut, executive: metric.ejecutivo }, contractMonthsDefault));
+      window.open(`/negocio?${NEGOCIO_HANDOFF_PARAM}=comodatos`, "_blank", "noopener");
+    } catch (e: any) {
+      alert("No se pudo preparar la evaluación de negocio: " + (e?.message || e));
+    }
+  };
+
+  const exportJSON = () => {
+    const blob = new Blob([simulationsToJSON(list)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `simulacion_${exportName}_${toISODate(new Date())}.json`;
+    a.click();
+  };
+
+  // Se valida todo el archivo antes de guardar; un escenario con el mismo id se reemplaza
+  const importJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then((text) => {
+      try {
+        const imported = parseSimulationsJSON(parseJSONText(text));
+        const byId = new Map(list.map((s) => [s.id, s] as const));
+        imported.forEach((s) => byId.set(s.id, s));
+        setScenarios(Array.from(byId.values()));
+        if (imported[0]) setActiveId(imported[0].id);
+        alert(`Se importaron ${imported.length} escenario(s).`);
+      } catch (err: any) {
+        alert("JSON de simulación inválido:\n" + (err?.message || err));
+      }
+    });
+    e.target.value = "";
+  };
+
+  const exportXlsx = async () => {
+    try {
+      const XLSX = await import("xlsx");
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(results.map(({ s, r, be }) => ({
+        Escenario: s.name,
+        "Ventas prom/mes": Math.round(r.ventasProm),
+        "Ventas proyectadas": s.ventasProyectadas !== undefined ? "Sí" : "No",
+        "Cuota vigente": Math.round(metric.comodatoMensualVigente || 0),
+        "Cuota retirada": Math.round(r.cuotaRetirada),
+        "Cuota simulada": Math.round(r.cuotaSim),
+        "Cuota nueva": Math.round(r.cuotaNueva),
+        "Relación nueva": Number(r.relacionNueva.toFixed(4)),
+        Umbral: relMax,
+        Resultado: r.viable ? "Viable" : "No viable",
+        "Venta mínima/mes": Number.isFinite(be.ventasMinimas) ? Math.round(be.ventasMinimas) : "",
+        "Brecha de ventas/mes": Math.round(be.brechaVentas),
+        "Cuota máx. equipos nuevos": Math.round(be.cuotaMaxNueva),
+        "Meses referencia": Math.round(be.mesesReferencia),
+        "Valor máx. equipos nuevos": Math.round(be.valorMaxEquipos),
+      }))), "Escenarios");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(results.flatMap(({ s }) => s.rows.map((r) => {
+        const { totalEquip, mensual } = solicitudMensual(r, contractMonthsDefault);
+        return { Escenario: s.name, Código: r.code, Descripción: r.name, Cantidad: r.qty, Meses: r.meses, "$ equipo (unit)": r.valorUnit ?? "", "$ total": Math.round(totalEquip), "$ mensual": Math.round(mensual) };
+      }))), "Equipos");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(results.flatMap(({ s, be }) => be.kilos.map((k) => ({
+        Escenario: s.name, Código: k.sn, Descripción: k.name || "", "$/kg": Math.round(k.priceVentaKg), "Kg/mes actuales": Number(k.kilosActualesMes.toFixed(1)), "Kg/mes adicionales": Number(k.kilosAdicionalesMes.toFixed(1)),
+      })))), "Kilos equilibrio");
+      XLSX.writeFile(wb, `simulacion_${exportName}_${toISODate(new Date())}.xlsx`);
+    } catch (e: any) {
+      alert("No se pudo exportar el XLSX: " + (e?.message || e));
+    }
+  };
+
+  return (
+    <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🧪 Evaluación en vivo — {title}</h2>
+        <div className="flex items-center gap-2">
+          <button className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1 text-xs text-white" onClick={evaluarNegocio} title={`Abre /negocio con los equipos de "${sc.name}" y los productos top del cliente`}>Evaluar negocio →</button>
+          <button className="rounded border px-2 py-1 text-xs" onClick={exportXlsx}>⬇️ Exportar XLSX</button>
+          <button className="rounded border px-2 py-1 text-xs" onClick={exportJSON}>⤴️ Exportar JSON</button>
+          <label className="cursor-pointer rounded border px-2 py-1 text-xs">
+            ⤵️ Importar JSON
+            <input type="file" accept="application/json" onChange={importJSON} className="hidden" />
+          </label>
+          <button className="rounded border px-2 py-1 text-xs" onClick={onClose}>Cerrar</button>
+        </div>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-zinc-500">Escenarios:</span>
+        {list.map((s) => (
+          <button key={s.id} onClick={() => setActiveId(s.id)} className={`rounded px-2 py-1 ${s.id === sc.id ? "bg-[#2B6CFF] text-white" : "border"}`}>{s.name}</button>
+        ))}
+        <button onClick={() => addScenario()} className="rounded border px-2 py-1">+ Escenario</button>
+        <button onClick={() => addScenario(sc)} className="rounded border px-2 py-1">Duplicar</button>
+        <button onClick={renameScenario} className="rounded border px-2 py-1">Renombrar</button>
+        <button onClick={deleteScenario} disabled={!scenarios.length} className="rounded border px-2 py-1 text-red-700 disabled:opacity-50">Eliminar</button>
+      </div>
+
+      <div className="text-xs text-zinc-600 mb-2">Cuota mensual = (Valor equipo × Cantidad / Meses) salvo que se ingrese un &quot;$ mensual&quot; manual.</div>
+
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="font-semibold text-sm">Nuevos equipos a solicitar</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={onRefreshCatalog} className="rounded border px-2 py-1 text-xs">Refrescar catálogo</button>
+          <button onClick={() => setRows(() => [])} className="rounded border px-2 py-1 text-xs">Vaciar</button>
+          <button onClick={() => setRows((s) => [...s, { code: "", name: "", qty: 1, meses: contractMonthsDefault }])} className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1 text-xs text-white">+ Equipo</button>
+        </div>
+      </div>
+
+      <datalist id="catCodes">
+        {Object.keys(catalog).slice(0, 5000).map((k) => (
+          <option key={k} value={k}>{catalog[k].name}</option>
+        ))}
+      </datalist>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Código</th>
+              <th className="border px-2 py-1 text-left">Descripción</th>
+              <th className="border px-2 py-1 text-right">Cant.</th>
+              <th className="border px-2 py-1 text-right">Meses</th>
+              <th className="border px-2 py-1 text-right">$ equipo (unit)</th>
+              <th className="border px-2 py-1 text-right">$ total</th>
+              <th className="border px-2 py-1 text-right">$ mensual</th>
+              <th className="border px-2 py-1 text-center">—</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sc.rows.length === 0 && (
+              <tr><td className="border px-2 py-2 text-center text-zinc-500" colSpan={8}>Sin equipos. Usa &quot;+ Equipo&quot; o carga catálogo para autocompletar códigos.</td></tr>
+            )}
+            {sc.rows.map((r, i) => {
+              const { totalEquip, mensual } = solicitudMensual(r, contractMonthsDefault);
+              return (
+                <tr key={i}>
+                  <td className="border px-2 py-1"><input list="catCodes" className="w-40 rounded border px-1 py-0.5" value={r.code} onChange={(e) => { const it = catalog[e.target.value?.toUpperCase?.() || ""]; setRows((n) => { n[i].code = e.target.value.toUpperCase(); if (it) { n[i].name = it.name; if (!n[i].valorUnit) n[i].valorUnit = it.costo_total ?? it.precio ?? 0; if (!n[i].costoMensual && it.costo_mensual) n[i].costoMensual = undefined; } return n; }); }} placeholder="Código" /></td>
+                  <td className="border px-2 py-1"><input className="w-full rounded border px-1 py-0.5" value={r.name} onChange={(e) => { const v = e.target.value; setRows((n) => { n[i].name = v; return n; }); }} placeholder="Descripción" /></td>
+                  <td className="border px-2 py-1 text-right"><input type="number" className="w-20 rounded border px-1 py-0.5 text-right" value={r.qty} onChange={(e) => { const v = Number(e.target.value); setRows((n) => { n[i].qty = v; return n; }); }} /></td>
+                  <td className="border px-2 py-1 text-right"><input type="number" className="w-20 rounded border px-1 py-0.5 text-right" value={r.meses} onChange={(e) => { const v = Math.max(1, Number(e.target.value)); setRows((n) => { n[i].meses = v; return n; }); }} /></td>
+                  <td className="border px-2 py-1 text-right"><input type="number" className="w-28 rounded border px-1 py-0.5 text-right" value={r.valorUnit ?? ""} onChange={(e) => { const v = e.target.value; setRows((n) => { n[i].valorUnit = v === "" ? undefined : Number(v); return n; }); }} placeholder="$ equipo" /></td>
+                  <td className="border px-2 py-1 text-right">{moneyCL(totalEquip)}</td>
+                  <td className="border px-2 py-1 text-right">{moneyCL(mensual)}</td>
+                  <td className="border px-2 py-1 text-center"><button className="rounded bg-red-100 text-red-700 px-2 py-0.5" onClick={() => setRows((n) => n.filter((_, idx) => idx !== i))}>×</button></td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <div>
+          <h3 className="mb-1 font-semibold text-sm">Retirar equipos vigentes</h3>
+          {vigentes.length === 0 ? (
+            <div className="text-xs text-zinc-500">El cliente no tiene equipos vigentes.</div>
+          ) : (
+            <div className="max-h-48 overflow-auto text-xs">
+              {vigentes.map((e) => {
+                const id = equipoId(e);
+                return (
+                  <label key={id} className="flex items-center gap-2 py-0.5">
+                    <input type="checkbox" checked={sc.retirados.includes(id)} onChange={(ev) => toggleRetiro(id, ev.target.checked)} />
+                    <span className="font-mono">{e.sn || "—"}</span>
+                    <span className="text-zinc-500">instalado {e.fechaInst} · {e.mesesRestantes} meses restantes</span>
+                    <span className="ml-auto">{moneyCL(e.costoMensual)}/mes</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <div>
+          <h3 className="mb-1 font-semibold text-sm">Ventas proyectadas</h3>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <input type="number" className="w-36 rounded border px-2 py-1 text-right" value={sc.ventasProyectadas ?? ""} placeholder={String(Math.round(metric.ventasVentanaProm))} onChange={(e) => { const v = e.target.value; update({ ventasProyectadas: v === "" ? undefined : Number(v) }); }} />
+            <span className="text-zinc-500">$/mes · vacío = {ventasLabel}: {moneyCL(metric.ventasVentanaProm)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <h3 className="mb-1 font-semibold text-sm">Comparación de escenarios (umbral {pctInt(relMax)})</h3>
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Escenario</th>
+              <th className="border px-2 py-1 text-right">Ventas prom/mes</th>
+              <th className="border px-2 py-1 text-right">Cuota vigente</th>
+              <th className="border px-2 py-1 text-right">Retirada</th>
+              <th className="border px-2 py-1 text-right">Simulada</th>
+              <th className="border px-2 py-1 text-right">Cuota nueva</th>
+              <th className="border px-2 py-1 text-right">Relación nueva</th>
+              <th className="border px-2 py-1 text-center">Resultado</th>
+              <th className="border px-2 py-1 text-right">Venta mínima</th>
+              <th className="border px-2 py-1 text-right">Valor máx. equipos</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="text-zinc-500">
+              <td className="border px-2 py-1">Situación actual</td>
+              <td className="border px-2 py-1 text-right">{moneyCL(metric.ventasVentanaProm)}</td>
+              <td className="border px-2 py-1 text-right">{moneyCL(metric.comodatoMensualVigente)}</td>
+              <td className="border px-2 py-1 text-right">—</td>
+              <td className="border px-2 py-1 text-right">—</td>
+              <td className="border px-2 py-1 text-right">{moneyCL(metric.comodatoMensualVigente)}</td>
+              <td className="border px-2 py-1 text-right">{pctInt(actual)}</td>
+              <td className="border px-2 py-1 text-center">—</td>
+              <td className="border px-2 py-1 text-right">—</td>
+              <td className="border px-2 py-1 text-right">—</td>
+            </tr>
+            {results.map(({ s, r, be }) => (
+              <tr key={s.id} className={s.id === sc.id ? "bg-blue-50" : undefined}>
+                <td className="border px-2 py-1"><button className="underline-offset-2 hover:underline" onClick={() => setActiveId(s.id)}>{s.name}</button></td>
+                <td className="border px-2 py-1 text-right">{moneyCL(r.ventasProm)}{s.ventasProyectadas !== undefined && <span className="text-zinc-400"> (proy.)</span>}</td>
+                <td className="border px-2 py-1 text-right">{moneyCL(metric.comodatoMensualVigente)}</td>
+                <td className="border px-2 py-1 text-right">{r.cuotaRetirada ? `−${moneyCL(r.cuotaRetirada)}` : "—"}</td>
+                <td className="border px-2 py-1 text-right">{moneyCL(r.cuotaSim)}</td>
+                <td className="border px-2 py-1 text-right font-semibold">{moneyCL(r.cuotaNueva)}</td>
+                <td className={`border px-2 py-1 text-right font-semibold ${r.viable ? "text-emerald-700" : "text-red-700"}`}>{r.ventasProm > 0 ? pctInt(r.relacionNueva) : "sin ventas"}</td>
+                <td className="border px-2 py-1 text-center"><span className={`inline-block rounded-full px-2 py-0.5 text-white ${r.viable ? "bg-emerald-600" : "bg-red-600"}`}>{r.viable ? "Viable" : "No viable"}</span></td>
+                <td className="border px-2 py-1 text-right">{Number.isFinite(be.ventasMinimas) ? moneyCL(be.ventasMinimas) : "—"}</td>
+                <td className="border px-2 py-1 text-right">{moneyCL(be.valorMaxEquipos)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 rounded border p-3 text-xs">
+        <h3 className="mb-2 font-semibold text-sm">Punto de equilibrio — {sc.name}</h3>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div>
+            <div className="text-zinc-500">Venta mínima mensual para quedar en {pctInt(relMax)}</div>
+            <div className="font-semibold">{Number.isFinite(current.be.ventasMinimas) ? moneyCL(current.be.ventasMinimas) : "—"}</div>
+            <div className={current.be.brechaVentas > 0 ? "text-red-700" : "text-emerald-700"}>{current.be.brechaVentas > 0 ? `Faltan ${moneyCL(current.be.brechaVentas)}/mes` : "Las ventas del escenario alcanzan"}</div>
+          </div>
+          <div>
+            <div className="text-zinc-500">Cuota máxima para equipos nuevos</div>
+            <div className="font-semibold">{moneyCL(current.be.cuotaMaxNueva)}/mes</div>
+            <div className="text-zinc-500">con {moneyCL(current.r.ventasProm)}/mes de ventas</div>
+          </div>
+          <div>
+            <div className="text-zinc-500">Valor máximo de equipos nuevos</div>
+            <div className="font-semibold">{moneyCL(current.be.valorMaxEquipos)}</div>
+            <div className="text-zinc-500">a {Math.round(current.be.mesesReferencia)} meses{sc.rows.length > 1 ? " (plazo ponderado del escenario)" : ""}</div>
+          </div>
+        </div>
+        {current.be.brechaVentas > 0 && (
+          current.be.kilos.length ? (
+            <div className="mt-3 overflow-x-auto">
+              <div className="mb-1 text-zinc-600">Kilos adicionales por mes si la brecha se cubre con un solo producto:</div>
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="bg-zinc-100 text-zinc-700">
+                    <th className="border px-2 py-1 text-left">Código</th>
+                    <th className="border px-2 py-1 text-left">Descripción</th>
+                    <th className="border px-2 py-1 text-right">$/kg</th>
+                    <th className="border px-2 py-1 text-right">Kg/mes actuales</th>
+                    <th className="border px-2 py-1 text-right">Kg/mes adicionales</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {current.be.kilos.map((k) => (
+                    <tr key={k.sn}>
+                      <td className="border px-2 py-1">{k.sn}</td>
+                      <td className="border px-2 py-1">{k.name || "—"}</td>
+                      <td className="border px-2 py-1 text-right">{moneyCL(k.priceVentaKg)}</td>
+                      <td className="border px-2 py-1 text-right">{k.kilosActualesMes.toLocaleString("es-CL", { maximumFractionDigits: 1 })}</td>
+                      <td className="border px-2 py-1 text-right font-semibold">{k.kilosAdicionalesMes.toLocaleString("es-CL", { maximumFractionDigits: 1 })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="mt-2 text-zinc-500">Sin productos PT* con precio por kg para este cliente (solo disponible con clave RUT).</div>
+          )
+        )}
+      </div>
+    </section>
+  );
+}
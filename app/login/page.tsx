@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useState } from "react";
+import { login } from "@/lib/auth/client";
+
+// ==============================
+// Ingreso con usuario y contraseña locales
+// ==============================
+
+// Solo rutas internas: evita redirigir a otro sitio con ?next=
+const safeNext = (raw: string | null) => (raw && raw.startsWith("/") && !raw.startsWith("//") ? raw : "/");
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true); setError(null);
+    try {
+      await login(username, password);
+      location.href = safeNext(new URLSearchParams(location.search).get("next"));
+    } catch (err: any) {
+      setError(err?.message || String(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-900 dark:bg-zinc-950 dark:text-zinc-100">
+      <header className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-[#1f4ed8]" />
+        <div className="absolute inset-y-0 right-[-20%] w-[60%] rotate-[-8deg] bg-sky-400/60" />
+        <div className="relative mx-auto max-w-7xl px-6 py-10">
+          <h1 className="text-white uppercase font-semibold tracking-widest text-2xl md:text-3xl">Spartan — Ingreso</h1>
+        </div>
+      </header>
+      <main className="mx-auto max-w-sm px-6 py-10">
+        <form onSubmit={submit} className="rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
+          <label className="mb-3 block text-sm">
+            Usuario
+            <input className="mt-1 w-full rounded border px-2 py-1" autoComplete="username" autoFocus value={username} onChange={(e) => setUsername(e.target.value)} />
+          </label>
+          <label className="mb-4 block text-sm">
+            Contraseña
+            <input type="password" className="mt-1 w-full rounded border px-2 py-1" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+          </label>
+          {error && <div className="mb-3 rounded bg-rose-50 p-2 text-xs text-rose-700">{error}</div>}
+          <button type="submit" disabled={busy || !username || !password} className="w-full rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1.5 text-sm text-white disabled:opacity-50">
+            {busy ? "Ingresando…" : "Ingresar"}
+          </button>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React from "react";
+import { APPROVAL_STATUS_COLORS, APPROVAL_STATUS_LABELS, type Approval, type ApprovalAction, type ApprovalPolicy } from "@/lib/evaluations/approval";
+import { pct } from "@/lib/numbers";
+
+// ==============================
+// Estado de aprobación de la evaluación abierta: motivos, acciones e historial
+// ==============================
+
+type Props = {
+  approval: Approval | null; // null = aún no guardada
+  pendingReasons: string[]; // motivos con los valores actuales del formulario
+  policy: ApprovalPolicy;
+  canDecide: boolean; // gerente o admin
+  busy: boolean;
+  onAction: (action: ApprovalAction) => void;
+};
+
+const fmtDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("es-CL", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export default function ApprovalPanel({ approval, pendingReasons, policy, canDecide, busy, onAction }: Props) {
+  const status = approval?.status || "draft";
+  const editable = status === "draft" || status === "rejected";
+  // En borrador se muestran los motivos en vivo; una vez enviada, los que se evaluaron al enviar
+  const reasons = editable ? pendingReasons : approval?.reasons || [];
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🛡️ Aprobación</h2>
+        <span className="rounded-full px-3 py-1 text-xs font-semibold text-white" style={{ background: APPROVAL_STATUS_COLORS[status] }}>
+          {APPROVAL_STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      <div className="mb-3 text-xs text-zinc-500">
+        Requiere aprobación si el margen final es menor a {pct(policy.minMarginPct)} o algún descuento supera {pct(policy.maxDiscountPct)}.
+      </div>
+
+      {reasons.length > 0 ? (
+        <ul className="mb-3 list-disc pl-5 text-xs text-amber-700">
+          {reasons.map((r, i) => <li key={i}>{r}</li>)}
+        </ul>
+      ) : (
+        editable && <div className="mb-3 text-xs text-emerald-700">Cumple la política: al enviarla se aprueba automáticamente.</div>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {editable && (
+          <button disabled={busy} onClick={() => onAction("submit")} className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1.5 text-white disabled:opacity-50">
+            {status === "rejected" ? "Reenviar a aprobación" : "Enviar a aprobación"}
+          </button>
+        )}
+        {status === "submitted" && !canDecide && (
+          <span className="self-center text-zinc-500">Esperando la decisión de un gerente.</span>
+        )}
+        {status === "submitted" && canDecide && (
+          <>
+            <button disabled={busy} onClick={() => onAction("approve")} className="rounded bg-emerald-700 hover:bg-emerald-800 px-3 py-1.5 text-white disabled:opacity-50">
+              {approval?.reasons.length ? "Aprobar con excepción" : "Aprobar"}
+            </button>
+            <button disabled={busy} onClick={() => onAction("reject")} className="rounded bg-red-600 hover:bg-red-700 px-3 py-1.5 text-white disabled:opacity-50">
+              Rechazar
+            </button>
+          </>
+        )}
+        {approval && status !== "draft" && (canDecide || (status !== "approved" && status !== "approved-exception")) && (
+          <button disabled={busy} onClick={() => onAction("reopen")} className="rounded border px-3 py-1.5 disabled:opacity-50" title="Vuelve a borrador para editar y reenviar">
+            Reabrir
+          </button>
+        )}
+      </div>
+      {approval && status !== "draft" && (
+        <div className="mt-2 text-[11px] text-zinc-500">Guardar cambios en los números devuelve la evaluación a borrador.</div>
+      )}
+
+      {approval && approval.history.length > 0 && (
+        <table className="mt-3 w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Fecha</th>
+              <th className="border px-2 py-1 text-left">Estado</th>
+              <th className="border px-2 py-1 text-left">Por</th>
+              <th className="border px-2 py-1 text-left">Justificación</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...approval.history].reverse().map((e, i) => (
+              <tr key={i}>
+                <td className="border px-2 py-1 whitespace-nowrap">{fmtDateTime(e.at)}</td>
+                <td className="border px-2 py-1" style={{ color: APPROVAL_STATUS_COLORS[e.status] }}>{APPROVAL_STATUS_LABELS[e.status]}</td>
+                <td className="border px-2 py-1">{e.by}</td>
+                <td className="border px-2 py-1 whitespace-pre-wrap">{e.justification || "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { APPROVAL_STATUS_LABELS } from "@/lib/evaluations/approval";
+import { AUDIT_ACTION_LABELS, formatChangeValue, type AuditEntry, type FieldChange } from "@/lib/evaluations/audit";
+import { fetchEvaluationAudit, fetchEvaluationDiff } from "@/lib/evaluations/client";
+
+// ==============================
+// Registro de cambios de la evaluación abierta: línea de tiempo, exportación y comparación de versiones
+// ==============================
+
+type Props = {
+  evalId: string;
+  docNumber: number | null;
+  version: number; // cambia al guardar para volver a consultar
+  onClose: () => void;
+};
+
+const fmtDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("es-CL", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function ChangesTable({ changes }: { changes: FieldChange[] }) {
+  if (!changes.length) return <div className="text-xs text-zinc-500">Sin diferencias.</div>;
+  return (
+    <table className="w-full border-collapse text-xs">
+      <thead>
+        <tr className="bg-zinc-100 text-zinc-700">
+          <th className="border px-2 py-1 text-left">Campo</th>
+          <th className="border px-2 py-1 text-right">Antes</th>
+          <th className="border px-2 py-1 text-right">Después</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((c, i) => (
+          <tr key={i}>
+            <td className="border px-2 py-1">{c.label}</td>
+            <td className="border px-2 py-1 text-right text-rose-700 whitespace-pre-wrap">{formatChangeValue(c.old, c.format)}</td>
+            <td className="border px-2 py-1 text-right text-emerald-700 whitespace-pre-wrap">{formatChangeValue(c.new, c.format)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AuditTimeline({ evalId, docNumber, version, onClose }: Props) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [from, setFrom] = useState<number>(1);
+  const [to, setTo] = useState<number>(1);
+  const [diff, setDiff] = useState<FieldChange[] | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true); setError(null);
+    try {
+      const list = await fetchEvaluationAudit(evalId);
+      setEntries(list);
+      const last = list.reduce((m, e) => Math.max(m, e.version), 1);
+      setFrom(Math.max(1, last - 1));
+      setTo(last);
+      setDiff(null);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [evalId]);
+  useEffect(() => { load(); }, [load, version]);
+
+  // Todas las versiones hasta la última (la v1 de una evaluación anterior al registro no tiene línea propia)
+  const versions = useMemo(() => {
+    const last = entries.reduce((m, e) => Math.max(m, e.version), 0);
+    return Array.from({ length: last }, (_, i) => i + 1);
+  }, [entries]);
+
+  // Más reciente primero; el filtro busca en el nombre del campo y en el usuario
+  const shown = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    return [...entries]
+      .reverse()
+      .map((e) => (q && !e.by.toLowerCase().includes(q) ? { ...e, changes: e.changes.filter((c) => c.label.toLowerCase().includes(q)) } : e))
+      .filter((e) => !q || e.changes.length > 0 || e.by.toLowerCase().includes(q));
+  }, [entries, filter]);
+
+  const compare = async () => {
+    try { setDiff(await fetchEvaluationDiff(evalId, from, to)); }
+    catch (e: any) { alert("No se pudo comparar las versiones.\n" + (e?.message || e)); }
+  };
+
+  const exportXlsx = async () => {
+    try {
+      const XLSX = await import("xlsx");
+      const rows = entries.flatMap((e) => {
+        const base = {
+          Version: e.version,
+          Fecha: fmtDateTime(e.at),
+          Usuario: e.by,
+          Accion: AUDIT_ACTION_LABELS[e.action],
+          Estado: e.approvalStatus ? APPROVAL_STATUS_LABELS[e.approvalStatus] : "",
+          Nota: e.note || "",
+        };
+        if (!e.changes.length) return [{ ...base, Campo: "", Anterior: "", Nuevo: "" }];
+        return e.changes.map((c) => ({ ...base, Campo: c.label, Anterior: formatChangeValue(c.old, c.format), Nuevo: formatChangeValue(c.new, c.format) }));
+      });
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Cambios");
+      if (diff) {
+        const d = diff.map((c) => ({ Campo: c.label, [`v${from}`]: formatChangeValue(c.old, c.format), [`v${to}`]: formatChangeValue(c.new, c.format) }));
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(d), `v${from} vs v${to}`);
+      }
+      XLSX.writeFile(wb, `cambios_evaluacion_${docNumber ?? "borrador"}.xlsx`);
+    } catch (e: any) {
+      alert("No se pudo exportar el XLSX: " + (e?.message || e));
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🕘 Cambios de la evaluación {docNumber ? `N° ${docNumber}` : ""}</h2>
+        <button onClick={onClose} className="rounded border px-2 py-1 text-xs">Cerrar</button>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-end gap-2 text-xs">
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Campo o usuario</span>
+          <input className="w-48 rounded border px-2 py-1" value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="p. ej. Precio venta" />
+        </label>
+        <button onClick={exportXlsx} disabled={!entries.length} className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1 text-white disabled:opacity-50">⬇️ Exportar XLSX</button>
+        <span className="mx-2 h-6 border-l" />
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Comparar versión</span>
+          <select className="rounded border px-2 py-1" value={from} onChange={(e) => setFrom(Number(e.target.value))}>
+            {versions.map((v) => <option key={v} value={v}>v{v}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">con</span>
+          <select className="rounded border px-2 py-1" value={to} onChange={(e) => setTo(Number(e.target.value))}>
+            {versions.map((v) => <option key={v} value={v}>v{v}</option>)}
+          </select>
+        </label>
+        <button onClick={compare} disabled={versions.length < 2 || from === to} className="rounded border px-3 py-1 disabled:opacity-50">Comparar</button>
+      </div>
+
+      {error && <div className="mb-2 rounded bg-rose-50 p-2 text-xs text-rose-700">{error}</div>}
+
+      {diff && (
+        <div className="mb-4 rounded-xl border p-3">
+          <div className="mb-2 text-sm font-semibold">v{from} → v{to}</div>
+          <ChangesTable changes={diff} />
+        </div>
+      )}
+
+      {!loading && !entries.length && !error && (
+        <div className="text-xs text-zinc-500">Sin cambios registrados (la evaluación se guardó antes de existir el registro).</div>
+      )}
+
+      <ol className="space-y-3">
+        {shown.map((e, i) => (
+          <li key={i} className="rounded-xl border p-3">
+            <div className="mb-1 flex flex-wrap items-center gap-2 text-xs">
+              <span className="rounded-full bg-zinc-100 px-2 py-0.5 font-semibold text-zinc-700">v{e.version}</span>
+              <span>{fmtDateTime(e.at)}</span>
+              <span className="font-semibold">{e.by}</span>
+              <span className="text-zinc-500">{AUDIT_ACTION_LABELS[e.action]}</span>
+            </div>
+            {e.note && <div className="mb-1 text-xs italic text-zinc-600">“{e.note}”</div>}
+            <ChangesTable changes={e.changes} />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
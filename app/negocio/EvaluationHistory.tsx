@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { APPROVAL_STATUS_COLORS, APPROVAL_STATUS_LABELS, type ApprovalStatus } from "@/lib/evaluations/approval";
+import { fetchEvaluation, fetchEvaluations } from "@/lib/evaluations/client";
+import type { EvaluationQuery, EvaluationRecord, EvaluationSummary, Verdict } from "@/lib/evaluations/types";
+import { moneyCL, pct } from "@/lib/numbers";
+
+// ==============================
+// Historial de evaluaciones guardadas: búsqueda, reabrir y clonar
+// ==============================
+
+type Props = {
+  currentId: string | null;
+  version: number; // cambia al guardar para volver a consultar
+  onOpen: (rec: EvaluationRecord) => void;
+  onClone: (rec: EvaluationRecord) => void;
+  onClose: () => void;
+};
+
+const fmtDate = (iso: string) => new Date(iso).toLocaleDateString("es-CL", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+export default function EvaluationHistory({ currentId, version, onOpen, onClone, onClose }: Props) {
+  const [filters, setFilters] = useState<EvaluationQuery>({});
+  const [query, setQuery] = useState<EvaluationQuery>({}); // filtros aplicados con "Buscar"
+  const [list, setList] = useState<EvaluationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = useCallback(async (q: EvaluationQuery) => {
+    setLoading(true); setError(null);
+    try { setList(await fetchEvaluations(q)); }
+    catch (e: any) { setError(e?.message || String(e)); }
+    finally { setLoading(false); }
+  }, []);
+
+  // Primera carga, cada "Buscar" y tras cada guardado
+  useEffect(() => { search(query); }, [version, query, search]);
+
+  const pick = async (id: string, then: (rec: EvaluationRecord) => void) => {
+    try { then(await fetchEvaluation(id)); }
+    catch (e: any) { alert("No se pudo abrir la evaluación.\n" + (e?.message || e)); }
+  };
+  const set = (k: keyof EvaluationQuery, v: string) => setFilters((f) => ({ ...f, [k]: v || undefined }));
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">📂 Evaluaciones guardadas</h2>
+        <button onClick={onClose} className="rounded border px-2 py-1 text-xs">Cerrar</button>
+      </div>
+
+      <form
+        className="mb-3 flex flex-wrap items-end gap-2 text-xs"
+        onSubmit={(e) => { e.preventDefault(); setQuery({ ...filters }); }}
+      >
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Cliente o RUT</span>
+          <input className="w-48 rounded border px-2 py-1" value={filters.q || ""} onChange={(e) => set("q", e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Ejecutivo</span>
+          <input className="w-40 rounded border px-2 py-1" value={filters.executive || ""} onChange={(e) => set("executive", e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Desde</span>
+          <input type="date" className="rounded border px-2 py-1" value={filters.from || ""} onChange={(e) => set("from", e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Hasta</span>
+          <input type="date" className="rounded border px-2 py-1" value={filters.to || ""} onChange={(e) => set("to", e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Veredicto</span>
+          <select className="rounded border px-2 py-1" value={filters.verdict || ""} onChange={(e) => set("verdict", e.target.value as Verdict)}>
+            <option value="">Todos</option>
+            <option value="viable">Viable</option>
+            <option value="no-viable">No viable</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-zinc-500">Aprobación</span>
+          <select className="rounded border px-2 py-1" value={filters.status || ""} onChange={(e) => set("status", e.target.value as ApprovalStatus)}>
+            <option value="">Todas</option>
+            {(Object.keys(APPROVAL_STATUS_LABELS) as ApprovalStatus[]).map((s) => (
+              <option key={s} value={s}>{APPROVAL_STATUS_LABELS[s]}</option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" disabled={loading} className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1 text-white disabled:opacity-50">{loading ? "Buscando…" : "Buscar"}</button>
+        <button type="button" onClick={() => { setFilters({}); setQuery({}); }} className="rounded border px-2 py-1">Limpiar</button>
+      </form>
+
+      {error && <div className="mb-2 rounded bg-rose-50 p-2 text-xs text-rose-700">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-right">N°</th>
+              <th className="border px-2 py-1 text-left">Fecha</th>
+              <th className="border px-2 py-1 text-left">Cliente</th>
+              <th className="border px-2 py-1 text-left">RUT</th>
+              <th className="border px-2 py-1 text-left">Ejecutivo</th>
+              <th className="border px-2 py-1 text-right">Ventas/mes</th>
+              <th className="border px-2 py-1 text-right">Rel. Com/Vta</th>
+              <th className="border px-2 py-1 text-center">Veredicto</th>
+              <th className="border px-2 py-1 text-center">Aprobación</th>
+              <th className="border px-2 py-1 text-center">—</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!loading && list.length === 0 && (
+              <tr><td colSpan={10} className="border px-2 py-2 text-center text-zinc-500">Sin evaluaciones guardadas con esos filtros.</td></tr>
+            )}
+            {list.map((e) => (
+              <tr key={e.id} className={e.id === currentId ? "bg-blue-50" : undefined}>
+                <td className="border px-2 py-1 text-right font-semibold">{e.docNumber}</td>
+                <td className="border px-2 py-1" title={e.updatedAt !== e.createdAt ? `Modificada ${fmtDate(e.updatedAt)}` : undefined}>{fmtDate(e.createdAt)}</td>
+                <td className="border px-2 py-1">{e.customerName || "—"}</td>
+                <td className="border px-2 py-1">{e.clientRut || "—"}</td>
+                <td className="border px-2 py-1">{e.executive || "—"}</td>
+                <td className="border px-2 py-1 text-right">{moneyCL(e.ventasTot)}</td>
+                <td className="border px-2 py-1 text-right">{pct(e.relComVta)}</td>
+                <td className="border px-2 py-1 text-center">
+                  <span className={`rounded-full px-2 py-0.5 text-white ${e.viable ? "bg-emerald-600" : "bg-red-600"}`}>{e.viable ? "Viable" : "No viable"}</span>
+                </td>
+                <td className="border px-2 py-1 text-center whitespace-nowrap" style={{ color: APPROVAL_STATUS_COLORS[e.approvalStatus] }}>
+                  {APPROVAL_STATUS_LABELS[e.approvalStatus]}
+                </td>
+                <td className="border px-2 py-1 text-center whitespace-nowrap">
+                  <button onClick={() => pick(e.id, onOpen)} className="rounded border px-2 py-0.5">Abrir</button>
+                  <button onClick={() => pick(e.id, onClone)} className="ml-1 rounded border px-2 py-0.5">Clonar</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
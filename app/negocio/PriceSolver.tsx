@@ -0,0 +1,135 @@
+"use client";
+
+import React from "react";
+import { applyLinePrice, applyUniformDiscount, applyUniformIncrease, type PriceSolution } from "@/lib/evaluations/solver";
+import type { SaleLine } from "@/lib/evaluations/types";
+import { moneyCL, pct } from "@/lib/numbers";
+
+// ==============================
+// Precios para llegar a viable: alza pareja, precio mínimo por línea o descuento máximo
+// ==============================
+
+type Props = {
+  solution: PriceSolution;
+  saleLines: SaleLine[];
+  canDiscount: boolean; // el % descuento es solo de gerente/admin
+  maxPolicyDiscountPct: number; // sobre esto el descuento pide aprobación
+  onApply: (lines: SaleLine[]) => void;
+  onClose: () => void;
+};
+
+export default function PriceSolver({ solution, saleLines, canDiscount, maxPolicyDiscountPct, onApply, onClose }: Props) {
+  const { threshold, currentSales, requiredSales, uniformIncreasePct, lineFloors, maxDiscountPct } = solution;
+  const viable = requiredSales !== null && currentSales >= requiredSales;
+
+  return (
+    <div className="mb-6 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">🎯 Precios para ser viable</h2>
+        <button onClick={onClose} className="rounded border px-2 py-1 text-xs">Cerrar</button>
+      </div>
+
+      <div className="mb-3 text-xs text-zinc-500">
+        Margen final mínimo {pct(threshold)}, con la comisión y el comodato de esta evaluación (el comodato se reparte según la venta).
+      </div>
+
+      {requiredSales === null ? (
+        <div className="rounded bg-rose-50 p-2 text-xs text-rose-800">
+          Ningún precio alcanza: la comisión más el margen mínimo suman 100% o más de la venta.
+        </div>
+      ) : (
+        <>
+          <div className="mb-4 grid gap-3 text-xs md:grid-cols-3">
+            <div className="rounded-xl border p-3">
+              <div className="text-zinc-500">Venta mensual mínima</div>
+              <div className="text-base font-semibold">{moneyCL(requiredSales)}</div>
+              <div className={viable ? "text-emerald-700" : "text-rose-700"}>
+                Actual {moneyCL(currentSales)} {viable ? "· cumple" : `· faltan ${moneyCL(requiredSales - currentSales)}`}
+              </div>
+            </div>
+
+            <div className="rounded-xl border p-3">
+              <div className="text-zinc-500">Alza pareja de precios</div>
+              {uniformIncreasePct === null ? (
+                <div className="text-zinc-500">Sin ventas: ingresa cantidades y precios.</div>
+              ) : uniformIncreasePct > 0 ? (
+                <>
+                  <div className="text-base font-semibold">+{pct(uniformIncreasePct)}</div>
+                  <button
+                    onClick={() => onApply(applyUniformIncrease(saleLines, uniformIncreasePct))}
+                    className="mt-1 rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-2 py-1 text-white"
+                  >
+                    Aplicar a todas las líneas
+                  </button>
+                </>
+              ) : (
+                <div className="text-emerald-700">No hace falta; los precios podrían bajar hasta {pct(-uniformIncreasePct)}.</div>
+              )}
+            </div>
+
+            <div className="rounded-xl border p-3">
+              <div className="text-zinc-500">Descuento máximo (parejo)</div>
+              {maxDiscountPct === null ? (
+                <div className="text-rose-700">Ni sin descuento alcanza: hay que subir precios.</div>
+              ) : (
+                <>
+                  <div className="text-base font-semibold">{pct(maxDiscountPct)}</div>
+                  {maxDiscountPct > maxPolicyDiscountPct && (
+                    <div className="text-amber-700">Sobre {pct(maxPolicyDiscountPct)} requiere aprobación.</div>
+                  )}
+                  {canDiscount && (
+                    <button
+                      onClick={() => onApply(applyUniformDiscount(saleLines, maxDiscountPct))}
+                      className="mt-1 rounded border px-2 py-1 border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white"
+                      title="Reemplaza el % descuento de cada línea"
+                    >
+                      Aplicar a todas las líneas
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          <h3 className="mb-1 text-sm font-semibold">Precio mínimo por línea</h3>
+          <div className="mb-1 text-[11px] text-zinc-500">Cambiando solo esa línea y dejando las demás como están ($/kg antes de descuento).</div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="bg-zinc-100 text-zinc-700">
+                  <th className="border px-2 py-1 text-left">Código</th>
+                  <th className="border px-2 py-1 text-left">Descripción</th>
+                  <th className="border px-2 py-1 text-right">$ venta/kg actual</th>
+                  <th className="border px-2 py-1 text-right">$ venta/kg mínimo</th>
+                  <th className="border px-2 py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {lineFloors.length === 0 && (
+                  <tr><td colSpan={5} className="border px-2 py-2 text-center text-zinc-500">Sin productos.</td></tr>
+                )}
+                {lineFloors.map((f) => (
+                  <tr key={f.index}>
+                    <td className="border px-2 py-1">{f.code}</td>
+                    <td className="border px-2 py-1">{f.name}</td>
+                    <td className="border px-2 py-1 text-right">{moneyCL(f.sellPrice)}</td>
+                    <td className={`border px-2 py-1 text-right ${f.minSellPrice !== null && f.minSellPrice > f.sellPrice ? "text-rose-700" : ""}`}>
+                      {f.minSellPrice === null ? "—" : moneyCL(Math.ceil(f.minSellPrice))}
+                    </td>
+                    <td className="border px-2 py-1 text-center">
+                      {f.minSellPrice !== null && Math.ceil(f.minSellPrice) !== f.sellPrice && (
+                        <button onClick={() => onApply(applyLinePrice(saleLines, f.index, f.minSellPrice!))} className="text-[#2B6CFF] hover:underline">
+                          Aplicar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState } from "react";
+import { delta, equipoRows, saleLineRows, summaryRows, type ComparedVariant, type MetricFormat } from "@/lib/evaluations/compare";
+import { moneyCL, pct } from "@/lib/numbers";
+
+// ==============================
+// Variantes de la misma propuesta lado a lado: indicadores, veredicto y diferencias por línea
+// ==============================
+
+type Props = {
+  variants: ComparedVariant[];
+  activeId: string;
+  customerName: string;
+  onSelect: (id: string) => void; // ir a la pestaña de la variante
+  onExportPDF: (html: string, fileName: string) => Promise<void>;
+  onClose: () => void;
+};
+
+const fmt = (v: number, f: MetricFormat) => (f === "money" ? moneyCL(v) : pct(v));
+// Diferencias: los porcentajes en puntos porcentuales
+const fmtDelta = (d: number | null, f: MetricFormat | "number") => {
+  if (d === null || Math.abs(d) < 1e-9) return "";
+  const sign = d > 0 ? "+" : "−";
+  const abs = Math.abs(d);
+  if (f === "money") return `${sign}${moneyCL(abs)}`;
+  if (f === "pct") return `${sign}${(abs * 100).toFixed(1)} pp`;
+  return `${sign}${abs.toLocaleString("es-CL")}`;
+};
+const deltaColor = (d: number | null) => (d === null || Math.abs(d) < 1e-9 ? "" : d > 0 ? "text-emerald-700" : "text-rose-700");
+
+const escapeHtml = (s: unknown) =>
+  String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export default function VariantComparison({ variants, activeId, customerName, onSelect, onExportPDF, onClose }: Props) {
+  const [baseId, setBaseId] = useState(variants[0]?.id);
+  const baseIdx = Math.max(0, variants.findIndex((v) => v.id === baseId));
+  const summary = summaryRows(variants);
+  const sales = saleLineRows(variants);
+  const equipos = equipoRows(variants);
+  const isBase = (i: number) => i === baseIdx;
+
+  const exportXlsx = async () => {
+    try {
+      const XLSX = await import("xlsx");
+      const wb = XLSX.utils.book_new();
+      const resumen = summary.map((r) => {
+        const row: Record<string, string | number> = { Indicador: r.label };
+        variants.forEach((v, i) => {
+          row[v.label] = r.values[i];
+          if (!isBase(i)) row[`Δ ${v.label}`] = r.values[i] - r.values[baseIdx];
+        });
+        return row;
+      });
+      const veredicto: Record<string, string> = { Indicador: "Resultado" };
+      variants.forEach((v) => { veredicto[v.label] = v.viable ? "Viable" : "No viable"; });
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([...resumen, veredicto]), "Resumen");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sales.map((r) => {
+        const row: Record<string, string | number> = { Código: r.key, Descripción: r.name };
+        r.cells.forEach((c, i) => {
+          const l = variants[i].label;
+          row[`${l} cant.`] = c ? c.qty : "";
+          row[`${l} $/kg`] = c ? Math.round(c.priceSaleKg) : "";
+          row[`${l} venta`] = c ? Math.round(c.venta) : "";
+          if (!isBase(i)) row[`Δ venta ${l}`] = Math.round((c?.venta ?? 0) - (r.cells[baseIdx]?.venta ?? 0));
+        });
+        return row;
+      })), "Productos");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(equipos.map((r) => {
+        const row: Record<string, string | number> = { Código: r.key, Descripción: r.name };
+        r.cells.forEach((c, i) => {
+          const l = variants[i].label;
+          row[`${l} cant.`] = c ? c.qty : 0;
+          if (!isBase(i)) row[`Δ cant. ${l}`] = (c?.qty ?? 0) - (r.cells[baseIdx]?.qty ?? 0);
+        });
+        return row;
+      })), "Equipos");
+      XLSX.writeFile(wb, `variantes_${(customerName || "cliente").trim().split(" ").join("_")}.xlsx`);
+    } catch (e: any) {
+      alert("No se pudo exportar el XLSX: " + (e?.message || e));
+    }
+  };
+
+  const buildHTML = () => {
+    const th = (s: string) => `<th style="border:1px solid #ccc;padding:4px;background:#f4f4f5">${escapeHtml(s)}</th>`;
+    const td = (s: string, extra = "") => `<td style="border:1px solid #ccc;padding:4px;text-align:right${extra}">${escapeHtml(s)}</td>`;
+    const head = `<tr>${th("Indicador")}${variants.map((v, i) => th(v.label + (isBase(i) ? " (base)" : ""))).join("")}</tr>`;
+    const rows = summary
+      .map((r) => `<tr>${td(r.label, ";text-align:left")}${r.values
+        .map((v, i) => td(fmt(v, r.format) + (isBase(i) ? "" : ` ${fmtDelta(v - r.values[baseIdx], r.format)}`)))
+        .join("")}</tr>`)
+      .join("");
+    const verdict = `<tr>${td("Resultado", ";text-align:left")}${variants.map((v) => td(v.viable ? "Viable" : "No viable", `;color:${v.viable ? "#047857" : "#be123c"};font-weight:bold`)).join("")}</tr>`;
+    const lineHead = `<tr>${th("Código")}${th("Descripción")}${variants.map((v) => th(`${v.label}: cant. · $/kg · venta`)).join("")}</tr>`;
+    const lineRows = sales
+      .map((r) => `<tr>${td(r.key, ";text-align:left")}${td(r.name, ";text-align:left")}${r.cells
+        .map((c, i) => td(c ? `${c.qty} · ${moneyCL(c.priceSaleKg)} · ${moneyCL(c.venta)}${isBase(i) ? "" : ` (${fmtDelta(c.venta - (r.cells[baseIdx]?.venta ?? 0), "money") || "="})`}` : "—"))
+        .join("")}</tr>`)
+      .join("");
+    return `<!doctype html><html><head><meta charset="utf-8"><style>body{font-family:Arial,sans-serif;font-size:11px;color:#111}table{border-collapse:collapse;width:100%;margin-bottom:14px}h1{font-size:16px}h2{font-size:13px}</style></head><body>
+      <h1>Comparación de variantes — ${escapeHtml(customerName || "Cliente")}</h1>
+      <table>${head}${rows}${verdict}</table>
+      <h2>Productos</h2>
+      <table>${lineHead}${lineRows}</table>
+    </body></html>`;
+  };
+
+  const exportPdf = () =>
+    onExportPDF(buildHTML(), `Variantes_${(customerName || "Cliente").trim().split(" ").join("_")}.pdf`).catch((e: any) =>
+      alert("No se pudo exportar el PDF: " + (e?.message || e))
+    );
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#2B6CFF]">⚖️ Comparar variantes {customerName ? `— ${customerName}` : ""}</h2>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <label className="flex items-center gap-1">
+            <span className="text-zinc-500">Base</span>
+            <select className="rounded border px-2 py-1" value={variants[baseIdx]?.id} onChange={(e) => setBaseId(e.target.value)}>
+              {variants.map((v) => <option key={v.id} value={v.id}>{v.label}</option>)}
+            </select>
+          </label>
+          <button onClick={exportXlsx} className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1 text-white">⬇️ XLSX</button>
+          <button onClick={exportPdf} className="rounded border px-3 py-1">⬇️ PDF</button>
+          <button onClick={onClose} className="rounded border px-2 py-1">Cerrar</button>
+        </div>
+      </div>
+
+      {variants.length < 2 && (
+        <div className="mb-3 rounded bg-amber-50 p-2 text-xs text-amber-800">Crea una variante (botón &quot;⑂ Variante&quot; junto a las pestañas) para comparar.</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Indicador</th>
+              {variants.map((v, i) => (
+                <th key={v.id} className="border px-2 py-1 text-right">
+                  <button onClick={() => onSelect(v.id)} className={v.id === activeId ? "font-bold text-[#2B6CFF]" : "hover:underline"} title="Ir a la pestaña">
+                    {v.label}
+                  </button>
+                  {isBase(i) && <span className="ml-1 text-zinc-500">(base)</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summary.map((r) => (
+              <tr key={r.label}>
+                <td className="border px-2 py-1">{r.label}</td>
+                {r.values.map((v, i) => {
+                  const d = isBase(i) ? null : v - r.values[baseIdx];
+                  return (
+                    <td key={i} className="border px-2 py-1 text-right">
+                      {fmt(v, r.format)} <span className={`ml-1 text-[11px] ${deltaColor(d)}`}>{fmtDelta(d, r.format)}</span>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="border px-2 py-1 font-semibold">Resultado</td>
+              {variants.map((v) => (
+                <td key={v.id} className={`border px-2 py-1 text-right font-semibold ${v.viable ? "text-emerald-700" : "text-rose-700"}`}>
+                  {v.viable ? "Viable" : "No viable"}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="mb-1 mt-4 text-sm font-semibold">Productos</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Código</th>
+              <th className="border px-2 py-1 text-left">Descripción</th>
+              {variants.map((v) => <th key={v.id} className="border px-2 py-1 text-right">{v.label}: cant. · $/kg · venta</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {sales.length === 0 && (
+              <tr><td colSpan={2 + variants.length} className="border px-2 py-2 text-center text-zinc-500">Sin productos.</td></tr>
+            )}
+            {sales.map((r) => {
+              const b = r.cells[baseIdx];
+              return (
+                <tr key={r.key}>
+                  <td className="border px-2 py-1">{r.key}</td>
+                  <td className="border px-2 py-1">{r.name}</td>
+                  {r.cells.map((c, i) => {
+                    if (!c) return <td key={i} className="border px-2 py-1 text-right text-zinc-400">{b && !isBase(i) ? "quitado" : "—"}</td>;
+                    const dq = isBase(i) ? null : delta(c.qty, b?.qty ?? 0);
+                    const dp = isBase(i) || !b ? null : delta(c.priceSaleKg, b.priceSaleKg);
+                    const dv = isBase(i) ? null : delta(c.venta, b?.venta ?? 0);
+                    return (
+                      <td key={i} className="border px-2 py-1 text-right">
+                        {c.qty.toLocaleString("es-CL")} <span className={`text-[11px] ${deltaColor(dq)}`}>{fmtDelta(dq, "number")}</span>
+                        {" · "}{moneyCL(c.priceSaleKg)} <span className={`text-[11px] ${deltaColor(dp)}`}>{fmtDelta(dp, "money")}</span>
+                        {" · "}{moneyCL(c.venta)} <span className={`text-[11px] ${deltaColor(dv)}`}>{fmtDelta(dv, "money")}</span>
+                        {!b && !isBase(i) && <span className="ml-1 text-[11px] text-emerald-700">(nuevo)</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="mb-1 mt-4 text-sm font-semibold">Equipos en comodato</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Código</th>
+              <th className="border px-2 py-1 text-left">Descripción</th>
+              {variants.map((v) => <th key={v.id} className="border px-2 py-1 text-right">{v.label}: cant. · $ equipos</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {equipos.length === 0 && (
+              <tr><td colSpan={2 + variants.length} className="border px-2 py-2 text-center text-zinc-500">Sin equipos.</td></tr>
+            )}
+            {equipos.map((r) => {
+              const b = r.cells[baseIdx];
+              return (
+                <tr key={r.key}>
+                  <td className="border px-2 py-1">{r.key}</td>
+                  <td className="border px-2 py-1">{r.name}</td>
+                  {r.cells.map((c, i) => {
+                    const dq = isBase(i) ? null : delta(c?.qty ?? 0, b?.qty ?? 0);
+                    return (
+                      <td key={i} className="border px-2 py-1 text-right">
+                        {c ? `${c.qty.toLocaleString("es-CL")} · ${moneyCL(c.valor)}` : "—"} <span className={`text-[11px] ${deltaColor(dq)}`}>{fmtDelta(dq, "number")}</span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
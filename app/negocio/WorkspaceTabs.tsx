@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import type { WorkspaceTab } from "@/lib/evaluations/workspace";
+
+// ==============================
+// Pestañas del espacio de trabajo: una por evaluación abierta
+// ==============================
+
+type Props = {
+  tabs: WorkspaceTab[];
+  activeId: string;
+  busy: boolean; // guardando: no se cambia de pestaña hasta que responda el servidor
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onClose: (id: string) => void;
+  onFork: () => void; // copia la pestaña activa como variante
+  onCompare: () => void;
+};
+
+export default function WorkspaceTabs({ tabs, activeId, busy, onSelect, onNew, onClose, onFork, onCompare }: Props) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 border-b pb-2 text-xs">
+      {tabs.map((t) => {
+        const active = t.id === activeId;
+        const label = (t.title || "Sin cliente") + (t.variant ? ` · ${t.variant}` : "");
+        return (
+          <div key={t.id} className={`flex items-center rounded-t-lg border ${active ? "border-[#2B6CFF] bg-[#2B6CFF] text-white" : "bg-white dark:bg-zinc-900"}`}>
+            <button
+              onClick={() => onSelect(t.id)}
+              disabled={busy && !active}
+              className="max-w-[14rem] truncate px-3 py-1.5 disabled:opacity-50"
+              title={label}
+            >
+              {label}
+            </button>
+            {tabs.length > 1 && (
+              <button
+                onClick={() => onClose(t.id)}
+                disabled={busy}
+                className={`px-2 py-1.5 disabled:opacity-50 ${active ? "hover:bg-white/20" : "text-zinc-500 hover:text-red-600"}`}
+                aria-label={`Cerrar ${t.title || "evaluación"}`}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button onClick={onNew} disabled={busy} className="rounded border px-2 py-1.5 disabled:opacity-50" title="Abre una evaluación en blanco sin cerrar las demás">
+        + Nueva evaluación
+      </button>
+      <button onClick={onFork} disabled={busy} className="rounded border px-2 py-1.5 disabled:opacity-50" title="Copia esta evaluación en otra pestaña para armar una propuesta alternativa">
+        ⑂ Variante
+      </button>
+      <button onClick={onCompare} className="rounded border px-2 py-1.5" title="Ver las variantes de esta propuesta lado a lado">
+        ⇆ Comparar
+      </button>
+      <span className="ml-auto text-[11px] text-zinc-500">Cada pestaña se guarda automáticamente en este navegador.</span>
+    </div>
+  );
+}
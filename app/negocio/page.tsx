@@ -2,44 +2,60 @@
 
 import Link from "next/link";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
-
-// ===================== Tipos =====================
-type CatalogItem = {
-  code: string;
-  name: string;
-  price_list: number; // $/kg o costo mensual equipo
-  cost?: number; // $/kg
-  kilos?: number; // kg por presentación
-};
-
-type SaleLine = {
-  code: string;
-  name: string;
-  priceList: number; // $/kg (lista, solo lectura)
-  kilos: number; // kg/presentación
-  qty: number; // presentaciones por mes
-  sellPrice: number; // $/kg (precio de venta)
-  // ==== NUEVO ====
-  discountPct?: number; // 0..1
-  costOverride?: number; // $/kg, opcional
-};
-
-type ComodatoLine = {
-  code: string;
-  name: string;
-  priceList: number; // costo mensual del equipo
-  qty: number; // cantidad de equipos
-};
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { loadSheetFromUrl, loadUploadedFile } from "@/lib/ingestion";
+import { NUMBER_LOCALES, moneyCL, pct, type NumberLocale } from "@/lib/numbers";
+import { formatRut, parseRut, rutKey } from "@/lib/rut";
+import { NEGOCIO_HANDOFF_PARAM, takeNegocioHandoff } from "@/lib/comodatos/handoff";
+import { lookupExistingComodato, type ExistingComodato } from "@/lib/comodatos/lookup";
+import {
+  APPROVAL_STATUS_COLORS,
+  APPROVAL_STATUS_LABELS,
+  DEFAULT_APPROVAL_POLICY,
+  approvalReasons,
+  lastEvent,
+  type Approval,
+  type ApprovalAction,
+  type ApprovalPolicy,
+} from "@/lib/evaluations/approval";
+import { parseJSONText } from "@/lib/schema";
+import { useSession } from "@/lib/auth/client";
+import { can } from "@/lib/auth/roles";
+import { DEFAULT_CATALOG_URL, catalogItem, mapCatalogRows, type Catalog } from "@/lib/evaluations/catalog";
+import { changeApproval, fetchApprovalPolicy, saveEvaluation } from "@/lib/evaluations/client";
+import { DEFAULT_RESTRICTED_PARAMS } from "@/lib/evaluations/permissions";
+import { SCENARIO_VERSION, parseScenario } from "@/lib/evaluations/schema";
+import { toComparedVariant, type ComparedVariant } from "@/lib/evaluations/compare";
+import { solvePrices } from "@/lib/evaluations/solver";
+import { computeTotals, metricsOf } from "@/lib/evaluations/totals";
+import type { ComodatoLine, EvaluationData, EvaluationRecord, SaleLine } from "@/lib/evaluations/types";
+import {
+  DEFAULT_FORM_PARAMS,
+  DEFAULT_TAB_ID,
+  WORKSPACE_STORAGE,
+  clearTabStorage,
+  evaluationKey,
+  findTabWithEvaluation,
+  forkTabStorage,
+  newTabId,
+  readTabForm,
+  tabTitle,
+  type EvaluationKey,
+  type WorkspaceTab,
+} from "@/lib/evaluations/workspace";
+import UserMenu from "@/app/UserMenu";
+import DiagnosticsPanel from "@/app/comodatos/DiagnosticsPanel";
+import ApprovalPanel from "./ApprovalPanel";
+import AuditTimeline from "./AuditTimeline";
+import EvaluationHistory from "./EvaluationHistory";
+import PriceSolver from "./PriceSolver";
+import VariantComparison from "./VariantComparison";
+import WorkspaceTabs from "./WorkspaceTabs";
 
 // Fallback seguro para logos remotos (evita CORS/tainted canvas)
 const LOGO_FALLBACK_DATA =
   'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="160" height="64"><rect width="100%25" height="100%25" fill="%231f4ed8"/><text x="50%25" y="55%25" text-anchor="middle" dominant-baseline="middle" font-family="Arial" font-size="20" fill="%23FFFFFF">LOGO</text></svg>';
 
-// URL de catálogo por defecto (para invitados/incógnito)
-const DEFAULT_CATALOG_URL =
-  "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/export?format=csv";
-
 // ===================== Utils =====================
 const money = (v: number) =>
   v.toLocaleString(undefined, {
@@ -47,20 +63,25 @@ const money = (v: number) =>
     currency: "CLP",
     maximumFractionDigits: 0,
   });
-const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
-const moneyCL = (v: number) => "$" + Number(v || 0).toLocaleString("es-CL");
 const cn = (...classes: (string | false | undefined)[]) =>
   classes.filter(Boolean).join(" ");
 
+// Si la clave cambia (otra pestaña del espacio de trabajo) se vuelve a leer lo guardado con la nueva
 function useLocalStorage<T>(key: string, initial: T) {
-  const [state, setState] = useState<T>(() => {
+  const read = (): T => {
     try {
       const raw = localStorage.getItem(key);
       return raw ? (JSON.parse(raw) as T) : initial;
     } catch {
       return initial;
     }
-  });
+  };
+  const [state, setState] = useState<T>(read);
+  const [loadedKey, setLoadedKey] = useState(key);
+  if (loadedKey !== key) {
+    setLoadedKey(key);
+    setState(read());
+  }
   useEffect(() => {
     try {
       localStorage.setItem(key, JSON.stringify(state));
@@ -69,160 +90,33 @@ function useLocalStorage<T>(key: string, initial: T) {
   return [state, setState] as const;
 }
 
-// ===================== CSV & Google Sheets helpers =====================
-const isGoogleSheet = (url: string) => url.includes("docs.google.com/spreadsheets");
-
-function normalizeGoogleSheetUrl(url: string): { csvUrl: string; id?: string; gid?: string } {
-  try {
-    if (!isGoogleSheet(url)) return { csvUrl: url };
-    const idMatch = url.match(/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-    const gidMatch = url.match(/[?&]gid=(\d+)/);
-    const id = idMatch?.[1];
-    const gid = gidMatch?.[1];
-    const csvUrl = `https://docs.google.com/spreadsheets/d/${id}/export?format=csv` + (gid ? `&gid=${gid}` : "");
-    return { csvUrl, id, gid };
-  } catch {
-    return { csvUrl: url };
-  }
-}
-
-function detectDelimiterInText(sample: string): string {
-  let inQ = false,
-    cComma = 0,
-    cSemi = 0;
-  for (let i = 0; i < sample.length; i++) {
-    const ch = sample[i];
-    if (ch === '"') {
-      inQ = !inQ;
-      continue;
-    }
-    if (!inQ) {
-      if (ch === ',') cComma++;
-      else if (ch === ';') cSemi++;
-      else if (ch === '\n' || ch === '\r') break;
-    }
-  }
-  return cSemi > cComma ? ';' : ',';
-}
-
-function parseCSVRobusto(text: string) {
-  // Soporta comillas, delimitador auto (, o ;), y saltos de línea dentro de campos
-  const delim = detectDelimiterInText(text.slice(0, 1000));
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let cur = "";
-  let inQ = false;
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i];
-    if (ch === '"') {
-      if (inQ && text[i + 1] === '"') {
-        cur += '"';
-        i++;
-      } else {
-        inQ = !inQ;
-      }
-      continue;
-    }
-    if (!inQ && ch === delim) {
-      row.push(cur);
-      cur = "";
-      continue;
-    }
-    if (!inQ && ch === '\n') {
-      row.push(cur);
-      rows.push(row);
-      row = [];
-      cur = "";
-      continue;
-    }
-    if (!inQ && ch === '\r') {
-      continue;
-    }
-    cur += ch;
-  }
-  // último campo / fila
-  row.push(cur);
-  rows.push(row);
-
-  // Quitar filas vacías al final
-  while (rows.length && rows[rows.length - 1].every((c) => c.trim() === "")) rows.pop();
-
-  return rows;
-}
-
-function rowsToObjects(rows: string[][]): any[] {
-  if (!rows.length) return [];
-  // tomar primera fila no vacía como cabecera
-  const headIdx = rows.findIndex((r) => r.some((c) => c.trim() !== ""));
-  if (headIdx < 0) return [];
-  const header = rows[headIdx].map((h) => h.replace(/\r/g, "").trim());
-  const out: any[] = [];
-  for (let i = headIdx + 1; i < rows.length; i++) {
-    const r = rows[i];
-    if (!r || r.every((c) => (c ?? '').trim() === "")) continue;
-    const o: any = {};
-    for (let j = 0; j < header.length; j++) o[header[j]] = r[j];
-    out.push(o);
-  }
-  return out;
-}
-
-async function loadFromGviz(sheetId: string, gid?: string): Promise<any[]> {
-  // JSONP sin CORS: interceptamos google.visualization.Query.setResponse
-  return await new Promise<any[]>((resolve, reject) => {
-    const prevGoogle = (window as any).google;
-    const ns: any = ((window as any).google = (window as any).google || {});
-    ns.visualization = ns.visualization || {};
-    ns.visualization.Query = ns.visualization.Query || {};
-    const timeout = setTimeout(() => {
-      (window as any).google = prevGoogle; // restaurar
-      reject(new Error("Timeout GViz"));
-    }, 15000);
-    ns.visualization.Query.setResponse = (resp: any) => {
-      clearTimeout(timeout);
-      (window as any).google = prevGoogle; // restaurar
-      try {
-        const table = resp?.table;
-        const cols = (table?.cols || []).map((c: any, i: number) => c?.label || c?.id || `col${i + 1}`);
-        const out: any[] = [];
-        for (const row of table?.rows || []) {
-          const o: any = {};
-          (row?.c || []).forEach((cell: any, idx: number) => {
-            o[cols[idx]] = cell?.v ?? "";
-          });
-          out.push(o);
-        }
-        resolve(out);
-      } catch (e) {
-        reject(e);
-      }
-    };
-    const s = document.createElement("script");
-    const url = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?${gid ? `gid=${gid}&` : ""}tqx=out:json`;
-    s.src = url;
-    s.onerror = () => {
-      (window as any).google = prevGoogle; // restaurar
-      reject(new Error("Script GViz error"));
-    };
-    document.body.appendChild(s);
-  });
-}
-
 // ===================== App =====================
 export default function Page() {
   // Tema
   const [dark, setDark] = useLocalStorage("ui.theme.dark", false);
-  const [managerMode] = useLocalStorage<boolean>("ui.managerMode", true);
+  // Permisos del rol de la sesión (el servidor vuelve a revisarlos al guardar)
+  const user = useSession();
+  const canPricing = can(user?.role, "negocio.pricing");
+  const canParams = can(user?.role, "negocio.params");
+  const canCatalog = can(user?.role, "negocio.catalog");
+  const canImportExport = can(user?.role, "negocio.importExport");
   useEffect(() => {
     if (dark) document.documentElement.classList.add("dark");
     else document.documentElement.classList.remove("dark");
   }, [dark]);
 
+  // Espacio de trabajo: evaluaciones abiertas en pestañas, cada una con sus claves en localStorage
+  const [tabs, setTabs] = useLocalStorage<WorkspaceTab[]>(WORKSPACE_STORAGE.tabs, [{ id: DEFAULT_TAB_ID, title: "" }]);
+  const [storedActiveTab, setActiveTab] = useLocalStorage<string>(WORKSPACE_STORAGE.active, DEFAULT_TAB_ID);
+  const activeTab = tabs.some((t) => t.id === storedActiveTab) ? storedActiveTab : tabs[0]?.id || DEFAULT_TAB_ID;
+  const ek = (k: EvaluationKey) => evaluationKey(activeTab, k);
+
   // Catálogo y estados
-  const [catalog, setCatalog] = useLocalStorage<Record<string, CatalogItem>>("catalog", {});
-  const [saleLines, setSaleLines] = useLocalStorage<SaleLine[]>("sales", []);
-  const [comodatoLines, setComodatoLines] = useLocalStorage<ComodatoLine[]>("comodato", []);
-  const [customerName, setCustomerName] = useLocalStorage<string>("customerName", "");
+  const [catalog, setCatalog] = useLocalStorage<Catalog>("catalog", {});
+  const [sourceWarnings, setSourceWarnings] = useState<{ Catálogo?: string[]; Comodatos?: string[]; "Política de aprobación"?: string[] }>({}); // avisos para el diagnóstico
+  const [saleLines, setSaleLines] = useLocalStorage<SaleLine[]>(ek("sales"), []);
+  const [comodatoLines, setComodatoLines] = useLocalStorage<ComodatoLine[]>(ek("comodato"), []);
+  const [customerName, setCustomerName] = useLocalStorage<string>(ek("customerName"), "");
 
   // Fecha: calcular en cliente para evitar hydration mismatch
   const [todayStr, setTodayStr] = useState("");
@@ -237,98 +131,169 @@ export default function Page() {
   }, []);
 
   // Parámetros
-  const [commissionPct, setCommissionPct] = useLocalStorage<number>("commission", 0.0);
-  const [months, setMonths] = useLocalStorage<number>("months", 12);
+  const [commissionPct, setCommissionPct] = useLocalStorage<number>(ek("commission"), DEFAULT_FORM_PARAMS.commissionPct);
+  const [months, setMonths] = useLocalStorage<number>(ek("months"), DEFAULT_FORM_PARAMS.months);
   const [usePriceListAsCost, setUsePriceListAsCost] = useLocalStorage<boolean>(
-    "useListAsCost",
-    true
+    ek("useListAsCost"),
+    DEFAULT_FORM_PARAMS.usePriceListAsCost
   );
-  const [viabilityThreshold] = useLocalStorage<number>("viabilityThreshold", 0.5); // se usa, pero no se muestra
+  // Política de aprobación del servidor (margen mínimo = umbral de viabilidad, descuento máximo)
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
+  useEffect(() => {
+    fetchApprovalPolicy()
+      .then(setApprovalPolicy)
+      .catch((e) =>
+        setSourceWarnings((w) => ({ ...w, "Política de aprobación": [`No se pudo leer (${e?.message || e}); se usan los valores por defecto.`] }))
+      );
+  }, []);
   const [commissionOnNet, setCommissionOnNet] = useLocalStorage<boolean>(
-    "commissionOnNet",
-    true
+    ek("commissionOnNet"),
+    DEFAULT_FORM_PARAMS.commissionOnNet
   );
 
   // Datos adicionales
-  const [clientRut, setClientRut] = useLocalStorage<string>("client.rut", "");
-  const [clientCity, setClientCity] = useLocalStorage<string>("client.city", "");
-  const [executive, setExecutive] = useLocalStorage<string>("client.exec", "");
-  const [notes, setNotes] = useLocalStorage<string>("notes", "");
+  const [clientRut, setClientRut] = useLocalStorage<string>(ek("client.rut"), "");
+  const rutInvalid = !!clientRut.trim() && !parseRut(clientRut)?.valid;
+  const [clientCity, setClientCity] = useLocalStorage<string>(ek("client.city"), "");
+  const [executive, setExecutive] = useLocalStorage<string>(ek("client.exec"), "");
+  const [notes, setNotes] = useLocalStorage<string>(ek("notes"), "");
   const [logoUrl] = useLocalStorage<string>(
     "pdf.logoUrl",
     "https://www.spartanchemical.com/Static/img/logos/spartan-logo-blue.png"
   );
-  const [docNumber, setDocNumber] = useLocalStorage<number>("doc.number", 1);
+  // Evaluación abierta del repositorio: el correlativo lo asigna el servidor al guardar por primera vez
+  const [evalId, setEvalId] = useLocalStorage<string | null>(ek("eval.id"), null);
+  const [docNumber, setDocNumber] = useLocalStorage<number | null>(ek("eval.docNumber"), null);
+  const [clonedFrom, setClonedFrom] = useLocalStorage<string | null>(ek("eval.clonedFrom"), null);
+  const [approval, setApproval] = useLocalStorage<Approval | null>(ek("eval.approval"), null);
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showSolver, setShowSolver] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0); // refresca el historial tras guardar
+
+  // Una evaluación nueva de quien no puede tocar parámetros ni precios parte de los valores por defecto
+  // (podrían quedar otros en localStorage de una sesión anterior; el servidor los rechazaría).
+  // Se aplica una vez por usuario + pestaña + evaluación, no a cada cambio del formulario.
+  const defaultsApplied = useRef("");
+  useEffect(() => {
+    if (!user) return;
+    const applied = [user.username, user.role, activeTab, evalId, clonedFrom].join("|");
+    if (defaultsApplied.current === applied) return;
+    defaultsApplied.current = applied;
+    if (!executive.trim() && user.role === "ejecutivo") setExecutive(user.name);
+    if (evalId || clonedFrom) return;
+    if (!canParams) {
+      setUsePriceListAsCost(DEFAULT_RESTRICTED_PARAMS.usePriceListAsCost);
+      setCommissionOnNet(DEFAULT_RESTRICTED_PARAMS.commissionOnNet);
+    }
+    if (!canPricing)
+      setSaleLines((ls) =>
+        ls.some((l) => l.discountPct || l.costOverride !== undefined)
+          ? ls.map((l) => ({ ...l, discountPct: 0, costOverride: undefined }))
+          : ls
+      );
+  }, [user, activeTab, evalId, clonedFrom, executive, canParams, canPricing, setExecutive, setUsePriceListAsCost, setCommissionOnNet, setSaleLines]);
+
+  // Comodato vigente del cliente (hoja de /comodatos), opcional en el cálculo
+  const [includeExisting, setIncludeExisting] = useLocalStorage<boolean>(ek("existing.include"), DEFAULT_FORM_PARAMS.includeExisting);
+  const [existing, setExisting] = useLocalStorage<ExistingComodato | null>(ek("existing.comodato"), null);
+  const [existingLoading, setExistingLoading] = useState(false);
+  // Solo vale si corresponde al RUT escrito (si cambia el RUT hay que volver a buscar)
+  const existingMatches = !!existing && existing.rut === rutKey(clientRut).key;
+  const comodatoVigenteMensual = includeExisting && existingMatches ? existing!.comodatoMensualVigente : 0;
 
   const [logoOk, setLogoOk] = useState(true);
 
+  // ===================== Espacio de trabajo =====================
+  // Lo que se abre en otra pestaña se aplica cuando sus claves ya se leyeron (ver useLocalStorage)
+  const pendingTab = useRef<{ tab: string; apply: () => void } | null>(null);
+  useEffect(() => {
+    const p = pendingTab.current;
+    if (!p || p.tab !== activeTab) return;
+    pendingTab.current = null;
+    p.apply();
+  }, [activeTab]);
+
+  useEffect(() => {
+    const title = tabTitle(customerName, docNumber);
+    setTabs((ts) => (ts.some((t) => t.id === activeTab && t.title !== title) ? ts.map((t) => (t.id === activeTab ? { ...t, title } : t)) : ts));
+  }, [activeTab, customerName, docNumber, setTabs]);
+
+  const switchTab = useCallback(
+    (id: string) => {
+      if (id === activeTab) return;
+      setShowAudit(false);
+      setActiveTab(id);
+    },
+    [activeTab, setActiveTab]
+  );
+  const newTab = useCallback(
+    (title = "") => {
+      const id = newTabId();
+      setTabs((ts) => [...ts, { id, title }]);
+      switchTab(id);
+      return id;
+    },
+    [setTabs, switchTab]
+  );
+  const closeTab = (id: string) => {
+    const i = tabs.findIndex((t) => t.id === id);
+    if (i < 0 || tabs.length < 2) return;
+    if (!confirm(`¿Cerrar "${tabs[i].title || "Sin cliente"}"? Lo que no esté guardado en el repositorio se pierde.`)) return;
+    const rest = tabs.filter((t) => t.id !== id);
+    if (id === activeTab) switchTab(rest[Math.max(0, i - 1)].id);
+    setTabs(rest);
+    clearTabStorage(id);
+  };
+  // Aplica en la pestaña actual si está en blanco; si no, en una nueva (no se pisa lo que se estaba armando)
+  const openInTab = useCallback(
+    (title: string, apply: () => void) => {
+      const blank = !evalId && !saleLines.length && !comodatoLines.length && !customerName.trim();
+      if (blank) return apply();
+      pendingTab.current = { tab: newTab(title), apply };
+    },
+    [evalId, saleLines, comodatoLines, customerName, newTab]
+  );
+  // Variante: copia de la pestaña actual en otra del mismo grupo, para compararlas lado a lado
+  const forkVariant = () => {
+    const current = tabs.find((t) => t.id === activeTab);
+    if (!current) return;
+    const name = prompt("Nombre de la nueva variante (p. ej. \"Precio agresivo + equipos\"):", "");
+    if (name === null) return;
+    const group = current.group || current.id;
+    const id = newTabId();
+    forkTabStorage(activeTab, id, evalId || clonedFrom);
+    setTabs((ts) => [
+      ...ts.map((t) => (t.id === activeTab ? { ...t, group, variant: t.variant || "Original" } : t)),
+      { id, title: current.title, group, variant: name.trim() || `Variante ${ts.filter((t) => t.group === group).length + 1}` },
+    ]);
+    switchTab(id);
+    setShowCompare(true);
+  };
+
   // Catálogo: helper (¡una sola definición!)
-  const getItem = (code: string) => catalog[code?.trim()?.toUpperCase()];
+  const getItem = useCallback((code: string) => catalogItem(catalog, code), [catalog]);
 
-  // Permitir cargar catálogo por URL (?catalog_url=...)
+  // Permitir cargar catálogo por URL (?catalog_url=...), una vez conocida la sesión: cambiar el catálogo
+  // es del rol con negocio.catalog (los demás cargan el de siempre, el mismo con que costea el servidor)
+  const catalogLoaded = useRef(false);
   useEffect(() => {
+    if (!user || catalogLoaded.current) return;
+    catalogLoaded.current = true;
     const u = new URL(location.href);
-    let url = u.searchParams.get("catalog_url") || "";
+    let url = (canCatalog && u.searchParams.get("catalog_url")) || "";
     if (!url && DEFAULT_CATALOG_URL) url = DEFAULT_CATALOG_URL; // fallback para incógnito
     if (!url) return;
-
-    const { csvUrl, id: gId, gid } = normalizeGoogleSheetUrl(url);
+    // Separadores de la hoja (?catalog_locale=es-CL|en); por defecto se deducen
+    const localeParam = canCatalog ? (u.searchParams.get("catalog_locale") as NumberLocale | null) : null;
+    const locale: NumberLocale = localeParam && NUMBER_LOCALES.includes(localeParam) ? localeParam : "auto";
 
     const load = async () => {
       try {
-        let rows: any[] = [];
-        // 1) Intento directo CSV (si CORS lo permite)
-        try {
-          const resp = await fetch(csvUrl, { mode: "cors" as RequestMode });
-          if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-          const buf = await resp.arrayBuffer();
-          const textRaw = new TextDecoder("utf-8").decode(new Uint8Array(buf));
-          const text = textRaw.replace(/^\uFEFF/, ""); // BOM
-          const parsed = parseCSVRobusto(text);
-          rows = rowsToObjects(parsed);
-          if (!rows.length) throw new Error("CSV vacío o mal formado");
-        } catch (csvErr) {
-          // 2) Fallback JSONP (GViz) sin CORS
-          if (gId) {
-            const gvizRows = await loadFromGviz(gId, gid);
-            rows = gvizRows;
-          } else {
-            throw csvErr;
-          }
-        }
-
-        // Mapear a CatalogItem
-        const map: Record<string, CatalogItem> = {};
-        rows.forEach((r) => {
-          const code = String(
-            r.code ?? r.CODIGO ?? r.Codigo ?? r.Código ?? r.codigo ?? ""
-          )
-            .trim()
-            .toUpperCase();
-          if (!code) return;
-          map[code] = {
-            code,
-            name: String(
-              r.name ??
-                r.NOMBRE ??
-                r.Nombre ??
-                r.Descripción ??
-                r.descripcion ??
-                r.descripcion_producto ??
-                ""
-            ).trim(),
-            price_list:
-              Number(
-                r.price_list ?? r.price ?? r.PRECIO ?? r.precio ?? r.lista ?? 0
-              ) || 0,
-            cost:
-              r.cost !== undefined && r.cost !== "" ? Number(r.cost) : undefined,
-            kilos:
-              r.kilos !== undefined && r.kilos !== ""
-                ? Number(r.kilos)
-                : undefined,
-          };
-        });
+        const res = await loadSheetFromUrl(url);
+        const map = mapCatalogRows(res.rows, locale);
 
         if (!Object.keys(map).length)
           throw new Error(
@@ -336,8 +301,9 @@ export default function Page() {
           );
 
         setCatalog(map);
+        setSourceWarnings((w) => ({ ...w, Catálogo: res.warnings }));
       } catch (e: any) {
-        console.error("Error cargando catálogo desde URL", e);
+        setSourceWarnings((w) => ({ ...w, Catálogo: [`No se pudo cargar el catálogo desde ${url}: ${e?.message || e}`] }));
         alert(
           "No se pudo cargar el catálogo.\n" +
             "Verifica: 1) el enlace de Google es público (cualquier persona con el enlace), " +
@@ -347,7 +313,66 @@ export default function Page() {
     };
 
     load();
-  }, [setCatalog]);
+  }, [user, canCatalog, setCatalog, setSourceWarnings]);
+
+  // Evaluación precargada desde la simulación de comodatos (/negocio?desde=comodatos); se toma una sola vez
+  const handoffTaken = useRef(false);
+  useEffect(() => {
+    if (handoffTaken.current) return;
+    handoffTaken.current = true;
+    const u = new URL(location.href);
+    if (!u.searchParams.has(NEGOCIO_HANDOFF_PARAM)) return;
+    u.searchParams.delete(NEGOCIO_HANDOFF_PARAM);
+    history.replaceState(null, "", u.toString());
+    const h = takeNegocioHandoff();
+    if (!h) return;
+    // Si la pestaña actual ya tiene una evaluación, la simulación se abre en otra
+    openInTab(tabTitle(h.customerName, null), () => {
+      setEvalId(null);
+      setDocNumber(null);
+      setClonedFrom(null);
+      setCustomerName(h.customerName);
+      setClientRut(h.clientRut);
+      if (h.executive) setExecutive(h.executive);
+      if (h.months > 0) setMonths(h.months);
+      setComodatoLines(h.comodatoLines.map((l) => ({ code: l.code.toUpperCase(), name: l.name || getItem(l.code)?.name || "", priceList: l.priceList, qty: l.qty })));
+      // kg/mes → presentaciones/mes con los kg por presentación del catálogo (1 kg si no se conoce)
+      setSaleLines(h.saleLines.map((l) => {
+        const it = getItem(l.code);
+        const kilos = it?.kilos || 1;
+        return {
+          code: l.code.toUpperCase(),
+          name: l.name || it?.name || "",
+          priceList: it?.price_list || 0,
+          kilos,
+          qty: Math.round((l.kilosMes / kilos) * 100) / 100,
+          sellPrice: l.priceVentaKg,
+          discountPct: 0,
+          costOverride: undefined,
+        };
+      }));
+    });
+  }, [openInTab, getItem, setEvalId, setDocNumber, setClonedFrom, setCustomerName, setClientRut, setExecutive, setMonths, setComodatoLines, setSaleLines]);
+
+  const buscarComodatoVigente = async () => {
+    setExistingLoading(true);
+    try {
+      const { found, warnings } = await lookupExistingComodato(clientRut);
+      setSourceWarnings((w) => ({ ...w, Comodatos: warnings }));
+      if (found) {
+        setExisting(found);
+        setIncludeExisting(true);
+        if (!customerName.trim() && found.cliente) setCustomerName(found.cliente);
+      } else {
+        setExisting({ rut: rutKey(clientRut).key, comodatoMensualVigente: 0, comodatoRestanteTotal: 0, equiposVigentes: 0, detalle: [], asOf: new Date().toISOString().slice(0, 10), source: "" });
+        alert("El cliente no tiene comodatos en la hoja de comodatos.");
+      }
+    } catch (e: any) {
+      alert("No se pudo consultar el comodato vigente.\n" + (e?.message || e));
+    } finally {
+      setExistingLoading(false);
+    }
+  };
 
   // ===================== Carga dinámica de librerías externas =====================
   useEffect(() => {
@@ -375,100 +400,161 @@ export default function Page() {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
+    if (!file || !canCatalog) return;
 
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-      const data = evt.target?.result;
-      if (!data) return;
-      const XLSX = (window as any).XLSX;
-      if (!XLSX) {
-        alert("Aún cargando la librería XLSX. Vuelve a intentar en 1-2 segundos.");
-        return;
-      }
-      const wb = XLSX.read(data, { type: "binary" });
-      const sheet = wb.Sheets[wb.SheetNames[0]];
-      const rows: any[] = XLSX.utils.sheet_to_json(sheet);
-      const map: Record<string, CatalogItem> = {};
-      rows.forEach((r) => {
-        const code = String(
-          r.code ?? r.CODIGO ?? r.Codigo ?? r.Código ?? r.codigo ?? ""
-        )
-          .trim()
-          .toUpperCase();
-        if (!code) return;
-        map[code] = {
-          code,
-          name: String(
-            r.name ??
-              r.NOMBRE ??
-              r.Nombre ??
-              r.Descripción ??
-              r.descripcion ??
-              r.descripcion_producto ??
-              ""
-          ).trim(),
-          price_list:
-            Number(r.price_list ?? r.price ?? r.PRECIO ?? r.precio ?? r.lista ?? 0) ||
-            0,
-          cost: r.cost !== undefined && r.cost !== "" ? Number(r.cost) : undefined,
-          kilos:
-            r.kilos !== undefined && r.kilos !== "" ? Number(r.kilos) : undefined,
-        };
+    loadUploadedFile(file)
+      .then((res) => {
+        const map = mapCatalogRows(res.rows);
+        setCatalog(map);
+        setSourceWarnings((w) => ({ ...w, Catálogo: res.warnings }));
+        alert(`Se cargaron ${Object.keys(map).length} ítems del catálogo.`);
+      })
+      .catch((err) => {
+        alert("No se pudo leer el archivo de catálogo.\n" + (err?.message || err));
       });
-      setCatalog(map);
-      alert(`Se cargaron ${Object.keys(map).length} ítems del catálogo.`);
+  };
+
+  // ===================== Evaluación ⇄ formulario =====================
+  // Recibe datos ya validados y en el formato vigente (parseScenario o repositorio)
+  const applyEvaluationData = (j: EvaluationData) => {
+    setSaleLines(j.saleLines);
+    setComodatoLines(j.comodatoLines);
+    setCommissionPct(j.params.commissionPct);
+    setMonths(j.params.months);
+    setUsePriceListAsCost(j.params.usePriceListAsCost);
+    setCommissionOnNet(j.params.commissionOnNet);
+    setIncludeExisting(j.params.includeExisting);
+    if (j.existingComodato) setExisting(j.existingComodato);
+    if (typeof j.customerName === "string") setCustomerName(j.customerName);
+    if (typeof j.clientRut === "string") setClientRut(j.clientRut);
+    if (typeof j.clientCity === "string") setClientCity(j.clientCity);
+    if (typeof j.executive === "string") setExecutive(j.executive);
+    if (typeof j.notes === "string") setNotes(j.notes);
+  };
+
+  const buildEvaluationData = (): EvaluationData => ({
+    version: SCENARIO_VERSION,
+    customerName,
+    clientRut,
+    clientCity,
+    executive,
+    notes,
+    date: todayStr,
+    viable,
+    metrics: metricsOf(totals),
+    params: { commissionPct, months, usePriceListAsCost, commissionOnNet, includeExisting },
+    // El servidor toma lista y costo de su catálogo; lo que va aquí solo cuenta para códigos que no están en él
+    saleLines: saleLines.map((l) => ({ ...l, catalogCost: getItem(l.code)?.cost })),
+    comodatoLines,
+    existingComodato: existingMatches ? existing : null,
+  });
+
+  // ===================== Repositorio de evaluaciones =====================
+  const saveToRepository = async (): Promise<EvaluationRecord | null> => {
+    setSaving(true);
+    try {
+      const rec = await saveEvaluation(buildEvaluationData(), { id: evalId, clonedFrom });
+      setEvalId(rec.id);
+      setDocNumber(rec.docNumber);
+      setClonedFrom(null);
+      setApproval(rec.approval || null);
+      setHistoryVersion((v) => v + 1);
+      return rec;
+    } catch (e: any) {
+      alert("No se pudo guardar la evaluación en el repositorio.\n" + (e?.message || e));
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Reabrir: se sigue editando la misma evaluación (mismo N°); si ya está en una pestaña se recarga ahí
+  const openEvaluation = (rec: EvaluationRecord) => {
+    const apply = () => {
+      applyEvaluationData(rec.data);
+      setEvalId(rec.id);
+      setDocNumber(rec.docNumber);
+      setClonedFrom(null);
+      setApproval(rec.approval || null);
     };
-    reader.readAsBinaryString(file);
+    const open = findTabWithEvaluation(tabs, rec.id);
+    if (!open) return openInTab(tabTitle(rec.data.customerName || "", rec.docNumber), apply);
+    if (open === activeTab) return apply();
+    pendingTab.current = { tab: open, apply };
+    switchTab(open);
+  };
+  // Clonar: copia como borrador nuevo; recibe su propio N° al guardar
+  const cloneEvaluation = (rec: EvaluationRecord) =>
+    openInTab(tabTitle(rec.data.customerName || "", null), () => {
+      applyEvaluationData(rec.data);
+      setEvalId(null);
+      setDocNumber(null);
+      setClonedFrom(rec.id);
+      setApproval(null);
+    });
+
+  // ===================== Aprobación =====================
+  // Envía la evaluación guardada; el servidor decide si queda aprobada o esperando a un aprobador
+  const submitForApproval = async (rec: EvaluationRecord): Promise<EvaluationRecord> => {
+    const reasons = approvalReasons(rec.data, approvalPolicy);
+    const justification = reasons.length
+      ? prompt(`Requiere aprobación:\n- ${reasons.join("\n- ")}\n\nComentario para el aprobador (opcional):`, "") ?? undefined
+      : undefined;
+    return changeApproval(rec.id, "submit", { justification });
+  };
+
+  const runApproval = async (action: ApprovalAction) => {
+    setSaving(true);
+    try {
+      let rec: EvaluationRecord | null;
+      if (action === "submit") {
+        // Se guarda primero: se aprueba exactamente lo que está en pantalla
+        const saved = await saveToRepository();
+        rec = saved && (await submitForApproval(saved));
+      } else {
+        if (!evalId) return;
+        const needsReason = action === "reject" || (action === "approve" && !!approval?.reasons.length);
+        const justification = action === "reopen" ? undefined : prompt(needsReason ? "Justificación (obligatoria):" : "Comentario (opcional):", "");
+        if (justification === null) return;
+        if (needsReason && !justification?.trim()) {
+          alert("La justificación es obligatoria para rechazar o aprobar con excepción.");
+          return;
+        }
+        rec = await changeApproval(evalId, action, { justification: justification ?? undefined });
+      }
+      if (!rec) return;
+      setApproval(rec.approval || null);
+      setHistoryVersion((v) => v + 1);
+      if (action === "submit") alert(`Evaluación N° ${rec.docNumber}: ${APPROVAL_STATUS_LABELS[rec.approval?.status || "draft"]}.`);
+    } catch (e: any) {
+      alert("No se pudo actualizar la aprobación.\n" + (e?.message || e));
+    } finally {
+      setSaving(false);
+    }
   };
 
   // ===================== Importar/Exportar JSON =====================
+  // Se valida todo el archivo (migrado a la versión vigente) antes de tocar el formulario
   const importJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const j = JSON.parse(String(reader.result || "{}"));
-        if (j.saleLines) setSaleLines(j.saleLines);
-        if (j.comodatoLines) setComodatoLines(j.comodatoLines);
-        if (j.params) {
-          if (typeof j.params.commissionPct === "number")
-            setCommissionPct(j.params.commissionPct);
-          if (typeof j.params.months === "number") setMonths(j.params.months);
-          if (typeof j.params.usePriceListAsCost === "boolean")
-            setUsePriceListAsCost(j.params.usePriceListAsCost);
-          if (typeof j.params.commissionOnNet === "boolean")
-            setCommissionOnNet(j.params.commissionOnNet);
-        }
-        if (typeof j.customerName === "string") setCustomerName(j.customerName);
-        alert("Evaluación importada.");
-      } catch (err) {
-        alert("JSON inválido.");
+        const { data, migratedFrom } = parseScenario(parseJSONText(String(reader.result || "")));
+        applyEvaluationData(data);
+        alert(migratedFrom ? `Evaluación importada (convertida desde ${migratedFrom}).` : "Evaluación importada.");
+      } catch (err: any) {
+        alert("No se pudo importar la evaluación:\n" + (err?.message || err));
       }
     };
     reader.readAsText(file);
+    e.target.value = "";
   };
 
   // Exportar SOLO evaluación (JSON)
   const exportScenarioJSON = () => {
-    const payload = {
-      customerName,
-      date: todayStr,
-      viable,
-      metrics: {
-        ventasTot: totals.ventasTot,
-        comodatoTotal: totals.comodatoTotalEquipos,
-        comodatoMensual: totals.comodatoMensual,
-        relComVta: totals.relComVta,
-        finalMarginPct: totals.finalMarginPct,
-        commissionFinalPct: effectiveCommissionPct,
-      },
-      params: { commissionPct, months, usePriceListAsCost, commissionOnNet },
-      saleLines,
-      comodatoLines,
-      version: "scenario-v2",
-    };
+    const payload = buildEvaluationData();
     const blob = new Blob([JSON.stringify(payload, null, 2)], {
       type: "application/json",
     });
@@ -494,10 +580,18 @@ export default function Page() {
       { Campo: "Fecha", Valor: todayStr || "" },
       { Campo: "Ventas mensual", Valor: totals.ventasTot },
       { Campo: "Comodato total", Valor: totals.comodatoTotalEquipos },
-      { Campo: "Comodato mensual", Valor: totals.comodatoMensual },
+      { Campo: "Comodato mensual (equipos nuevos)", Valor: totals.comodatoMensual },
+      { Campo: "Comodato vigente del cliente", Valor: totals.comodatoVigenteMensual },
+      { Campo: "Comodato mensual total", Valor: totals.comodatoMensualTotal },
       { Campo: "% Rel. Comodato/Venta", Valor: totals.relComVta },
       { Campo: "Margen final", Valor: totals.finalMarginPct },
       { Campo: "Viable", Valor: viable ? "Sí" : "No" },
+      { Campo: "N°", Valor: docNumber ? String(docNumber) : "Borrador" },
+      { Campo: "Estado de aprobación", Valor: APPROVAL_STATUS_LABELS[approvalStatus] },
+      { Campo: "Aprobación por", Valor: approvalDecision?.by || "" },
+      { Campo: "Aprobación fecha", Valor: approvalDecision ? new Date(approvalDecision.at).toLocaleString("es-CL") : "" },
+      { Campo: "Aprobación justificación", Valor: approvalDecision?.justification || "" },
+      { Campo: "Motivos de aprobación", Valor: (approval?.status !== "draft" && approval?.reasons.length ? approval.reasons : pendingReasons).join("; ") },
       { Campo: "% Comisión base", Valor: commissionPct },
       { Campo: "% Comisión final", Valor: effectiveCommissionPct },
       { Campo: "Meses contrato", Valor: months },
@@ -546,6 +640,16 @@ export default function Page() {
     XLSX.utils.book_append_sheet(wb, wsResumen, "Resumen");
     XLSX.utils.book_append_sheet(wb, wsProds, "Productos");
     XLSX.utils.book_append_sheet(wb, wsCom, "Comodatos");
+    if (totals.comodatoVigenteMensual && existing) {
+      const vigentes = existing.detalle.map((e, i) => ({
+        N: i + 1,
+        sn: e.sn || "",
+        fecha_instalacion: e.fechaInst,
+        meses_restantes: e.mesesRestantes,
+        costo_mensual: e.costoMensual,
+      }));
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(vigentes), "Comodato vigente");
+    }
 
     const fileName = `Evaluacion_${
       customerName || "Cliente"
@@ -603,80 +707,48 @@ export default function Page() {
   };
 
   // ===================== Cálculos (comodato por ventas, comisión sobre ventas) =====================
-  const totals = useMemo(() => {
-    const lineData = saleLines.map((l) => {
-      const it = getItem(l.code);
-      const kilosUnit = l.kilos || it?.kilos || 1;
-      const kilosMes = (l.qty || 0) * kilosUnit;
-      const priceSaleKgBase = l.sellPrice || 0;
-      const discount = l.discountPct ? Math.max(0, Math.min(1, l.discountPct)) : 0;
-      const priceSaleKg = priceSaleKgBase * (1 - discount);
-      const venta = priceSaleKg * kilosMes; // $ por línea
-      const costoKg =
-        l.costOverride !== undefined && l.costOverride !== null
-          ? Number(l.costOverride)
-          : it?.cost !== undefined
-          ? it.cost
-          : usePriceListAsCost
-          ? it?.price_list ?? 0
-          : 0;
-      const margenBruto = (priceSaleKg - costoKg) * kilosMes; // $
-      return { ...l, kilosMes, priceSaleKg, venta, costoKg, margenBruto };
-    });
+  const totals = useMemo(
+    () =>
+      computeTotals(
+        { saleLines, comodatoLines, params: { commissionPct, months, usePriceListAsCost, commissionOnNet }, comodatoVigenteMensual },
+        getItem
+      ),
+    [saleLines, commissionPct, comodatoLines, usePriceListAsCost, months, getItem, commissionOnNet, comodatoVigenteMensual]
+  );
 
-    const ventasTot = lineData.reduce((a, r) => a + r.venta, 0);
+  const viable = totals.finalMarginPct >= approvalPolicy.minMarginPct;
+  const priceSolution = useMemo(
+    () => solvePrices(totals, { commissionPct, commissionOnNet }, approvalPolicy.minMarginPct),
+    [totals, commissionPct, commissionOnNet, approvalPolicy.minMarginPct]
+  );
 
-    // TOTAL de comodato (sumo todos los equipos * cantidad)
-    const comodatoTotalEquipos = comodatoLines.reduce(
-      (a, l) => a + (l.priceList || 0) * (l.qty || 1),
-      0
-    );
-    // MENSUAL = total / meses
-    const comodatoMensual = months > 0 ? comodatoTotalEquipos / months : comodatoTotalEquipos;
-
-    const relComVta = ventasTot > 0 ? comodatoMensual / ventasTot : 0;
-
-    const lines = lineData.map((r) => {
-      const asigComodato = ventasTot > 0 ? (r.venta / ventasTot) * comodatoMensual : 0;
-      const commissionBase = commissionOnNet ? Math.max(0, r.venta - asigComodato) : r.venta;
-      const comision = commissionPct * commissionBase; // % sobre base (bruta o neta de comodato)
-      const margenFinal = r.margenBruto - asigComodato - comision;
-      const margenFinalPct = r.venta > 0 ? margenFinal / r.venta : 0;
-      return { ...r, asigComodato, comision, margenFinal, margenFinalPct };
+  // Variantes del grupo de la pestaña activa: la activa con lo que está en pantalla, las demás desde localStorage
+  const compared = useMemo<ComparedVariant[]>(() => {
+    if (!showCompare) return [];
+    const current = tabs.find((t) => t.id === activeTab);
+    const members = current?.group ? tabs.filter((t) => t.group === current.group) : tabs.filter((t) => t.id === activeTab);
+    const seen = new Map<string, number>();
+    return members.map((t, i) => {
+      const live = t.id === activeTab;
+      const form = live ? null : readTabForm(t.id);
+      const tt = live ? totals : computeTotals(form!, getItem);
+      let label = t.variant || `Variante ${i + 1}`;
+      const n = (seen.get(label) || 0) + 1;
+      seen.set(label, n);
+      if (n > 1) label += ` (${n})`;
+      return toComparedVariant({ id: t.id, label, totals: tt, comodatoLines: live ? comodatoLines : form!.comodatoLines }, approvalPolicy);
     });
-
-    const T_total = lines.reduce((a, r) => a + r.margenFinal, 0);
-    const U_total = ventasTot > 0 ? T_total / ventasTot : 0;
-
-    return {
-      ventasTot,
-      comodatoTotalEquipos,
-      comodatoMensual,
-      relComVta,
-      lines,
-      finalMarginPct: U_total,
-    };
-  }, [
-    saleLines,
-    commissionPct,
-    comodatoLines,
-    usePriceListAsCost,
-    months,
-    catalog,
-    commissionOnNet,
-  ]);
-
-  const viable = totals.finalMarginPct >= viabilityThreshold;
+  }, [showCompare, tabs, activeTab, totals, comodatoLines, getItem, approvalPolicy]);
+  const pendingReasons = useMemo(
+    () => approvalReasons({ metrics: { finalMarginPct: totals.finalMarginPct }, saleLines }, approvalPolicy),
+    [totals.finalMarginPct, saleLines, approvalPolicy]
+  );
+  const approvalStatus = approval?.status || "draft";
+  const approvalDecision = approvalStatus === "draft" ? undefined : lastEvent(approval || undefined, approvalStatus);
 
   // Totales derivados
-  const commissionTotal = useMemo(
-    () => totals.lines.reduce((a: number, r: any) => a + (r.comision || 0), 0),
-    [totals.lines]
-  );
-  const effectiveCommissionPct = useMemo(
-    () => (totals.ventasTot > 0 ? commissionTotal / totals.ventasTot : 0),
-    [commissionTotal, totals.ventasTot]
-  );
+  const commissionTotal = totals.commissionTotal;
+  const effectiveCommissionPct = totals.commissionFinalPct;
 
   // ===================== Exportar a Word (.doc) =====================
   const escapeHtml = (s: any) =>
@@ -692,6 +764,24 @@ export default function Page() {
   const WORD_FALLBACK_PNG =
     "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMB/axu/EYAAAAASUVORK5CYII="; // 1x1 transparente
 
+  // Estado de aprobación impreso en los informes (quién, cuándo y por qué)
+  const approvalHTML = (detailed: boolean) => {
+    const color = APPROVAL_STATUS_COLORS[approvalStatus];
+    const d = approvalDecision;
+    const reasons = approvalStatus === "draft" ? pendingReasons : approval?.reasons || [];
+    return `<div style="margin:6px 0 12px; border:1px solid ${color}; border-radius:8px; padding:8px">
+        <div><b>Aprobación:</b> <span class="pill" style="background:${color}">${escapeHtml(APPROVAL_STATUS_LABELS[approvalStatus])}</span>${
+          d ? ` <span class="muted">por ${escapeHtml(d.by)} el ${escapeHtml(new Date(d.at).toLocaleString("es-CL"))}</span>` : ""
+        }</div>${
+          d?.justification ? `<div style="margin-top:4px"><b>Justificación:</b> ${escapeHtml(d.justification)}</div>` : ""
+        }${
+          detailed && reasons.length
+            ? `<div style="margin-top:4px" class="muted">Motivos: ${reasons.map(escapeHtml).join("; ")}</div>`
+            : ""
+        }
+      </div>`;
+  };
+
   const buildExecHTML = (logoSrc: string) => {
     const rows = (totals.lines.length
       ? totals.lines
@@ -725,15 +815,18 @@ export default function Page() {
           <div><img src="${escapeHtml(logoSrc)}" alt="Logo" style="width:${WORD_LOGO_W_CM}cm;height:${WORD_LOGO_H_CM}cm;object-fit:contain" /></div>
           <div style="text-align:right">
             <div class="title">Análisis de Negocio Spartan — Ejecutivo</div>
-            <div class="muted">N°: ${escapeHtml(String(docNumber || ""))}</div>
+            <div class="muted">N°: ${escapeHtml(docNumber ? String(docNumber) : "Borrador")}</div>
             <div class="muted">Fecha: ${escapeHtml(todayStr)}</div>
           </div>
         </div>
         <div class="kpi">
           <div class="card"><div class="muted" style="font-size:11px">Ventas mensual</div><div style="font-weight:700">${escapeHtml(moneyCL(totals.ventasTot))}</div></div>
-          <div class="card"><div class="muted" style="font-size:11px">Comodato mensual</div><div style="font-weight:700">${escapeHtml(moneyCL(totals.comodatoMensual))}</div></div>
+          <div class="card"><div class="muted" style="font-size:11px">Comodato mensual</div><div style="font-weight:700">${escapeHtml(moneyCL(totals.comodatoMensualTotal))}</div>${
+            totals.comodatoVigenteMensual ? `<div class="muted" style="font-size:10px">Nuevos ${escapeHtml(moneyCL(totals.comodatoMensual))} + vigente ${escapeHtml(moneyCL(totals.comodatoVigenteMensual))}</div>` : ""
+          }</div>
           <div class="card"><div class="muted" style="font-size:11px">Estado</div><div><span class="pill" style="background:${viable ? "#059669" : "#dc2626"}">${viable ? "Viable" : "No viable"}</span></div></div>
         </div>
+        ${approvalHTML(false)}
         <table>
           <thead><tr><th>Código</th><th>Descripción</th><th style="text-align:center">Cant.</th><th style="text-align:right">Sub Total</th></tr></thead>
           <tbody>${rows}</tbody>
@@ -801,16 +894,17 @@ export default function Page() {
           <div><img src="${escapeHtml(logoSrc)}" alt="Logo" style="width:${WORD_LOGO_W_CM}cm;height:${WORD_LOGO_H_CM}cm;object-fit:contain" /></div>
           <div style="text-align:right">
             <div class="title">Análisis de Negocio Spartan — Detallado</div>
-            <div class="muted">N°: ${escapeHtml(String(docNumber || ""))}</div>
+            <div class="muted">N°: ${escapeHtml(docNumber ? String(docNumber) : "Borrador")}</div>
             <div class="muted">Fecha: ${escapeHtml(todayStr)}</div>
           </div>
         </div>
         <div style="margin:6px 0 16px">
           <div><b>Cliente:</b> ${escapeHtml(customerName || '—')}</div>
-          <div><b>RUT:</b> ${escapeHtml(clientRut || '—')}</div>
+          <div><b>RUT:</b> ${escapeHtml(clientRut || '—')}${rutInvalid ? ' (inválido)' : ''}</div>
           <div><b>Ciudad:</b> ${escapeHtml(clientCity || '—')}</div>
           <div><b>Ejecutivo:</b> ${escapeHtml(executive || '—')}</div>
         </div>
+        ${approvalHTML(true)}
         <table style="margin-bottom:12px">
           <thead><tr>
             <th>Código</th><th>Descripción</th><th style="text-align:center">Presentación</th>
@@ -824,7 +918,12 @@ export default function Page() {
             <th>Código</th><th>Descripción</th><th style="text-align:right">Costo mensual</th><th style="text-align:center">Cant.</th><th style="text-align:right">Total</th>
           </tr></thead>
           <tbody>${comRows}</tbody>
-          <tfoot><tr><td colspan="4" style="text-align:right;font-weight:700">Comodato mensual:</td><td style="text-align:right;font-weight:700">${escapeHtml(moneyCL(totals.comodatoMensual))}</td></tr></tfoot>
+          <tfoot><tr><td colspan="4" style="text-align:right;font-weight:700">Comodato mensual${totals.comodatoVigenteMensual ? " (equipos nuevos)" : ""}:</td><td style="text-align:right;font-weight:700">${escapeHtml(moneyCL(totals.comodatoMensual))}</td></tr>${
+            totals.comodatoVigenteMensual
+              ? `<tr><td colspan="4" style="text-align:right">Comodato vigente del cliente (${escapeHtml(String(existing?.equiposVigentes ?? 0))} equipos):</td><td style="text-align:right">${escapeHtml(moneyCL(totals.comodatoVigenteMensual))}</td></tr>
+                 <tr><td colspan="4" style="text-align:right;font-weight:700">Comodato mensual total:</td><td style="text-align:right;font-weight:700">${escapeHtml(moneyCL(totals.comodatoMensualTotal))}</td></tr>`
+              : ""
+          }</tfoot>
         </table>
         <div style="margin-top:8px; display:flex; justify-content:space-between; gap:12px">
           <div>
@@ -888,7 +987,18 @@ export default function Page() {
     const logoData = await toDataURL(logoUrl);
     // 2) HTML con el mismo formato que Word
     const html = variant === 'exec' ? buildExecHTML(logoData) : buildDetHTML(logoData);
-    // 3) Render en un iframe aislado para respetar el <head>/<style> del template
+    const safeDate = (todayStr || '').replaceAll('/', '-').split(' ').join('_');
+    await renderPDF(html, `Evaluacion_${customerName || 'Cliente'}_${safeDate}_${variant === 'exec' ? 'ejecutiva' : 'detallada'}.pdf`);
+  };
+
+  // HTML completo → PDF (también lo usa la comparación de variantes)
+  const renderPDF = async (html: string, fileName: string) => {
+    const w: any = window as any;
+    if (!w.html2pdf) {
+      alert("Cargando librería de PDF... vuelve a intentar en 2-3 segundos.");
+      return;
+    }
+    // Render en un iframe aislado para respetar el <head>/<style> del template
     const iframe = document.createElement('iframe');
     Object.assign(iframe.style, { position: 'fixed', left: '-10000px', top: '0', width: '816px', height: '1120px', opacity: '0' });
     document.body.appendChild(iframe);
@@ -910,9 +1020,6 @@ export default function Page() {
     );
     await new Promise((r) => requestAnimationFrame(() => requestAnimationFrame(r)));
 
-    const safeDate = (todayStr || '').replaceAll('/', '-').split(' ').join('_');
-    const fileName = `Evaluacion_${customerName || 'Cliente'}_${safeDate}_${variant === 'exec' ? 'ejecutiva' : 'detallada'}.pdf`;
-
     await w
       .html2pdf()
       .from(doc.body)
@@ -936,13 +1043,36 @@ export default function Page() {
     setClientRut("");
     setClientCity("");
     setNotes("");
-    setDocNumber((n) => Number(n || 0) + 1);
+    setExisting(null);
+    setEvalId(null);
+    setDocNumber(null);
+    setClonedFrom(null);
+    setApproval(null);
   };
-  const onAccept = () => {
-    const ok = confirm("¿Aceptar evaluación y limpiar el formulario?");
+  // Aceptar = guardar + enviar: lo que incumple la política queda esperando aprobación
+  const onAccept = async () => {
+    const ok = confirm("¿Aceptar evaluación, guardarla, enviarla a aprobación y limpiar el formulario?");
     if (!ok) return;
+    const saved = await saveToRepository();
+    if (!saved) return;
+    let rec = saved;
+    const st = saved.approval?.status || "draft";
+    if (st === "draft" || st === "rejected") {
+      try {
+        rec = await submitForApproval(saved);
+      } catch (e: any) {
+        alert(`Evaluación N° ${saved.docNumber} guardada, pero no se pudo enviar a aprobación.\n` + (e?.message || e));
+        return;
+      }
+    }
+    setHistoryVersion((v) => v + 1);
     resetEvaluation();
-    alert("Evaluación aceptada. Formulario listo para la próxima.");
+    const status = rec.approval?.status || "draft";
+    alert(
+      `Evaluación N° ${rec.docNumber} guardada: ${APPROVAL_STATUS_LABELS[status]}.` +
+        (status === "submitted" ? "\nQuedó pendiente de aprobación." : "") +
+        "\nFormulario listo para la próxima."
+    );
   };
 
   // ===================== Checks/dev tests =====================
@@ -994,6 +1124,7 @@ export default function Page() {
               <span className="rounded-full bg-white/20 text-white px-3 py-1 text-xs sm:text-sm">
                 Catálogo: <b>{Object.keys(catalog).length}</b>
               </span>
+              <UserMenu />
             </div><div className="relative mx-auto max-w-7xl px-6 py-5 flex items-center justify-between">
   <div className="flex items-center gap-3">
     {/* logo + título */}
@@ -1017,6 +1148,19 @@ export default function Page() {
           <div className={cn("h-1 w-full", viable ? "bg-emerald-500/90" : "bg-rose-500/90")} />
         </div>
 
+        <div className="mx-auto max-w-7xl px-6 pt-3">
+          <WorkspaceTabs
+            tabs={tabs}
+            activeId={activeTab}
+            busy={saving}
+            onSelect={switchTab}
+            onNew={() => newTab()}
+            onClose={closeTab}
+            onFork={forkVariant}
+            onCompare={() => setShowCompare((v) => !v)}
+          />
+        </div>
+
         {/* Fila cliente (Cliente, RUT, Ciudad, Ejecutivo) */}
         <div className="mx-auto max-w-7xl px-6 pt-3">
           <div className="flex flex-wrap items-center gap-3 text-xs">
@@ -1029,11 +1173,29 @@ export default function Page() {
             />
             <label className="text-zinc-500">RUT:</label>
             <input
-              className="w-40 rounded border px-2 py-1"
+              className={cn("w-40 rounded border px-2 py-1", rutInvalid && "border-rose-500 text-rose-700")}
               placeholder="99.999.999-9"
               value={clientRut}
               onChange={(e) => setClientRut(e.target.value)}
+              onBlur={() => { if (parseRut(clientRut)?.valid) setClientRut(formatRut(clientRut)); }}
+              title={rutInvalid ? "RUT inválido (dígito verificador no coincide)" : undefined}
             />
+            {rutInvalid && <span className="text-rose-600">RUT inválido</span>}
+            <button
+              type="button"
+              onClick={buscarComodatoVigente}
+              disabled={existingLoading || !clientRut.trim() || rutInvalid}
+              className="rounded border px-2 py-1 disabled:opacity-50"
+              title="Busca la cuota mensual de los equipos que el cliente ya tiene (hoja de /comodatos)"
+            >
+              {existingLoading ? "Buscando…" : "Buscar comodato vigente"}
+            </button>
+            {existingMatches && (
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={includeExisting} onChange={(e) => setIncludeExisting(e.target.checked)} />
+                Incluir vigente: {moneyCL(Math.round(existing!.comodatoMensualVigente))}/mes ({existing!.equiposVigentes} equipos)
+              </label>
+            )}
             <label className="text-zinc-500">Ciudad:</label>
             <input
               className="w-40 rounded border px-2 py-1"
@@ -1048,7 +1210,11 @@ export default function Page() {
               value={executive}
               onChange={(e) => setExecutive(e.target.value)}
             />
+            <span className="ml-auto rounded-full bg-zinc-100 px-2 py-0.5 text-zinc-600" title={clonedFrom ? "Copia de una evaluación guardada" : undefined}>
+              {docNumber ? `N° ${docNumber}` : clonedFrom ? "Borrador (copia)" : "Borrador"}
+            </span>
           </div>
+          <DiagnosticsPanel reports={{}} warnings={sourceWarnings} />
         </div>
 
         <main className="mx-auto max-w-7xl px-6 py-8">
@@ -1064,7 +1230,12 @@ export default function Page() {
             </div>
             <div className="rounded-xl border p-4 border-t-4 border-t-[#2B6CFF]/60">
               <div className="text-xs text-zinc-500">📆 Comodato mensual</div>
-              <div className="text-xl font-semibold">{money(totals.comodatoMensual || 0)}</div>
+              <div className="text-xl font-semibold">{money(totals.comodatoMensualTotal || 0)}</div>
+              {totals.comodatoVigenteMensual > 0 && (
+                <div className="text-[11px] text-zinc-500">
+                  Nuevos {money(totals.comodatoMensual || 0)} + vigente {money(totals.comodatoVigenteMensual)}
+                </div>
+              )}
             </div>
             <div className="rounded-xl border p-4 border-t-4 border-t-[#2B6CFF]/60">
               <div className="text-xs text-zinc-500">% Rel. Comodato/Venta</div>
@@ -1089,10 +1260,33 @@ export default function Page() {
                       : "Revisa precio de venta, comisión o meses."}
                   </div>
                 </div>
+                <button
+                  onClick={() => setShowSolver((v) => !v)}
+                  className="text-[11px] text-[#2B6CFF] hover:underline"
+                  title="Alza pareja, precio mínimo por línea o descuento máximo para cumplir el margen"
+                >
+                  🎯 {viable ? "Holgura" : "¿Cuánto subir?"}
+                </button>
+              </div>
+              <div className="mt-1 text-[11px] font-semibold" style={{ color: APPROVAL_STATUS_COLORS[approvalStatus] }}>
+                {APPROVAL_STATUS_LABELS[approvalStatus]}
+                {approvalStatus === "draft" && pendingReasons.length > 0 && " · requiere aprobación"}
               </div>
             </div>
           </div>
 
+          {/* Precios para llegar a viable (se abre desde el recuadro Estado) */}
+          {showSolver && (
+            <PriceSolver
+              solution={priceSolution}
+              saleLines={saleLines}
+              canDiscount={canPricing}
+              maxPolicyDiscountPct={approvalPolicy.maxDiscountPct}
+              onApply={setSaleLines}
+              onClose={() => setShowSolver(false)}
+            />
+          )}
+
           {/* Parámetros */}
           <div className="grid gap-6 md:grid-cols-1">
             <div className="rounded-2xl border bg-white p-6 shadow-sm dark:bg-zinc-900">
@@ -1128,19 +1322,17 @@ export default function Page() {
                     className="w-24 rounded border px-2 py-1 text-right bg-zinc-100 text-zinc-600"
                   />
                 </label>
-                <label className="hidden inline-flex items-center gap-2 text-sm">
+                <label className={cn("inline-flex items-center gap-2 text-sm", !canParams && "hidden")}>
                   <input
                     type="checkbox"
-                    disabled={managerMode}
                     checked={usePriceListAsCost}
                     onChange={(e) => setUsePriceListAsCost(e.target.checked)}
                   />
                   Usar lista como costo si falta costo
                 </label>
-                <label className="hidden inline-flex items-center gap-2 text-sm">
+                <label className={cn("inline-flex items-center gap-2 text-sm", !canParams && "hidden")}>
                   <input
                     type="checkbox"
-                    disabled={managerMode}
                     checked={commissionOnNet}
                     onChange={(e) => setCommissionOnNet(e.target.checked)}
                   />
@@ -1222,7 +1414,7 @@ export default function Page() {
                         n[i].name = e.target.value;
                         setSaleLines(n);
                       }}
-                      readOnly={!managerMode && !!item}
+                      readOnly={!canCatalog && !!item}
                     />
                     <input
                       type="number"
@@ -1234,7 +1426,7 @@ export default function Page() {
                         n[i].kilos = Number(e.target.value);
                         setSaleLines(n);
                       }}
-                      readOnly={!managerMode && !!item}
+                      readOnly={!canCatalog && !!item}
                     />
                     <input
                       type="number"
@@ -1246,7 +1438,7 @@ export default function Page() {
                         n[i].priceList = Number(e.target.value);
                         setSaleLines(n);
                       }}
-                      readOnly={!managerMode && !!item}
+                      readOnly={!canCatalog && !!item}
                     />
                     <input
                       type="number"
@@ -1270,9 +1462,9 @@ export default function Page() {
                         setSaleLines(n);
                       }}
                     />
-                    {/* NUEVO: % descuento y costo override (ocultos en gerencia) */}
+                    {/* NUEVO: % descuento y costo override (solo gerente/admin) */}
                     <input
-                      hidden={managerMode}
+                      hidden={!canPricing}
                       type="number"
                       step={0.001}
                       className="col-span-1 rounded border px-1.5 py-0.5 text-right"
@@ -1288,7 +1480,7 @@ export default function Page() {
                       type="number"
                       className="col-span-1 rounded border px-1.5 py-0.5 text-right"
                       placeholder="Costo $/kg"
-                      hidden={managerMode}
+                      hidden={!canPricing}
                       value={l.costOverride ?? ""}
                       onChange={(e) => {
                         const n = [...saleLines];
@@ -1360,6 +1552,7 @@ export default function Page() {
                     n[i].priceList = Number(e.target.value);
                     setComodatoLines(n);
                   }}
+                  readOnly={!canCatalog && !!getItem(l.code)}
                 />
                 <input
                   type="number"
@@ -1377,6 +1570,36 @@ export default function Page() {
                 </button>
               </div>
             ))}
+
+            {/* Equipos que el cliente ya tiene (solo lectura, no se suman a "Comodato total") */}
+            {existingMatches && existing!.equiposVigentes > 0 && (
+              <div className="mt-4 border-t pt-3 text-xs">
+                <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-semibold text-zinc-700">Comodato vigente del cliente {includeExisting ? "" : "(no incluido)"}</span>
+                  <span className="text-zinc-500">Hoja {existing!.source || "de comodatos"} · al {existing!.asOf}</span>
+                </div>
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="text-zinc-600">
+                      <th className="border px-1.5 py-0.5 text-left">SN</th>
+                      <th className="border px-1.5 py-0.5 text-left">Instalación</th>
+                      <th className="border px-1.5 py-0.5 text-right">Meses restantes</th>
+                      <th className="border px-1.5 py-0.5 text-right">$ mensual</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {existing!.detalle.map((e, i) => (
+                      <tr key={`${e.sn || ""}-${i}`} className={includeExisting ? undefined : "text-zinc-400"}>
+                        <td className="border px-1.5 py-0.5">{e.sn || "—"}</td>
+                        <td className="border px-1.5 py-0.5">{e.fechaInst}</td>
+                        <td className="border px-1.5 py-0.5 text-right">{e.mesesRestantes}</td>
+                        <td className="border px-1.5 py-0.5 text-right">{moneyCL(Math.round(e.costoMensual))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
 
           {/* Footer de acciones */}
@@ -1388,7 +1611,7 @@ export default function Page() {
               {dark ? "☀️ Claro" : "🌙 Oscuro"}
             </button>
             <button
-              hidden={managerMode}
+              hidden={!canImportExport}
               onClick={exportScenarioJSON}
               className="rounded border px-3 py-1.5 text-xs border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white"
               title="Exportar evaluación (JSON)"
@@ -1402,6 +1625,29 @@ export default function Page() {
             >
               ⬇️ XLSX
             </button>
+            <button
+              onClick={() => setShowHistory((v) => !v)}
+              className="rounded border px-3 py-1.5 text-xs border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white"
+              title="Buscar, reabrir o clonar evaluaciones guardadas"
+            >
+              📂 Historial
+            </button>
+            <button
+              onClick={() => setShowAudit((v) => !v)}
+              disabled={!evalId}
+              className="rounded border px-3 py-1.5 text-xs border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white disabled:opacity-50"
+              title={evalId ? "Quién cambió qué y cuándo; comparar versiones" : "Guarda la evaluación para registrar sus cambios"}
+            >
+              🕘 Cambios
+            </button>
+            <button
+              onClick={saveToRepository}
+              disabled={saving}
+              className="rounded border px-3 py-1.5 text-xs border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white disabled:opacity-50"
+              title={evalId ? `Guardar cambios en la evaluación N° ${docNumber}` : "Guardar en el repositorio (asigna N°)"}
+            >
+              {saving ? "Guardando…" : evalId ? `💾 Guardar N° ${docNumber}` : "💾 Guardar"}
+            </button>
             <button
               onClick={onAccept}
               className="rounded bg-emerald-700 hover:bg-emerald-800 px-3 py-1.5 text-xs text-white"
@@ -1434,7 +1680,7 @@ export default function Page() {
 
             {/* Import/Select (una sola vez; se eliminaron duplicados) */}
             <label
-              hidden={managerMode}
+              hidden={!canImportExport}
               className="rounded border px-3 py-1.5 text-xs cursor-pointer border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white"
               title="Importar evaluación (JSON)"
             >
@@ -1442,7 +1688,7 @@ export default function Page() {
               <input type="file" accept="application/json" onChange={importJSON} className="hidden" />
             </label>
             <label
-              hidden={managerMode}
+              hidden={!canCatalog}
               className="rounded border px-3 py-1.5 text-xs cursor-pointer border-[#2B6CFF] text-[#2B6CFF] hover:bg-[#2B6CFF] hover:text-white"
               title="Cargar catálogo (.xlsx)"
             >
@@ -1451,6 +1697,40 @@ export default function Page() {
             </label>
           </div>
 
+          <ApprovalPanel
+            approval={approval}
+            pendingReasons={pendingReasons}
+            policy={approvalPolicy}
+            canDecide={can(user?.role, "evaluations.approve")}
+            busy={saving}
+            onAction={runApproval}
+          />
+
+          {showAudit && evalId && (
+            <AuditTimeline evalId={evalId} docNumber={docNumber} version={historyVersion} onClose={() => setShowAudit(false)} />
+          )}
+
+          {showCompare && (
+            <VariantComparison
+              variants={compared}
+              activeId={activeTab}
+              customerName={customerName}
+              onSelect={switchTab}
+              onExportPDF={renderPDF}
+              onClose={() => setShowCompare(false)}
+            />
+          )}
+
+          {showHistory && (
+            <EvaluationHistory
+              currentId={evalId}
+              version={historyVersion}
+              onOpen={(rec) => { openEvaluation(rec); setShowHistory(false); }}
+              onClone={(rec) => { cloneEvaluation(rec); setShowHistory(false); }}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+
           {/* Estilos mínimos para cortes de página (si se quisiera imprimir) */}
           <style>{`
             .pdf-pagebreak { break-before: page; page-break-before: always; }
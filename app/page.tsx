@@ -1,6 +1,11 @@
 import Link from "next/link";
+import { cookies } from "next/headers";
+import { can } from "@/lib/auth/roles";
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/session";
+import UserMenu from "./UserMenu";
 
-export default function HomeMenu() {
+export default async function HomeMenu() {
+  const user = await verifySession(cookies().get(SESSION_COOKIE)?.value);
   return (
     <div className="min-h-screen bg-zinc-50 text-zinc-900 dark:bg-zinc-950 dark:text-zinc-100">
       {/* Topbar */}
@@ -8,6 +13,7 @@ export default function HomeMenu() {
         <div className="absolute inset-0 bg-[#1f4ed8]" />
         <div className="absolute inset-y-0 right-[-20%] w-[60%] rotate-[-8deg] bg-sky-400/60" />
         <div className="relative mx-auto max-w-7xl px-6 py-10">
+          <div className="absolute right-6 top-4"><UserMenu /></div>
           <h1 className="text-white uppercase font-semibold tracking-widest text-2xl md:text-3xl">
             Spartan — Panel Principal
           </h1>
@@ -60,9 +66,16 @@ export default function HomeMenu() {
         <div className="mt-10 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
           <div className="flex flex-wrap items-center gap-3 text-sm">
             <span className="text-zinc-600">Accesos rápidos:</span>
-            <Link href="/comodatos?admin=1" className="rounded border px-3 py-1 hover:bg-zinc-50 dark:hover:bg-zinc-800">
-              ⚙️ Configurar fuentes (comodatos)
-            </Link>
+            {can(user?.role, "comodatos.config") && (
+              <Link href="/comodatos" className="rounded border px-3 py-1 hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                ⚙️ Configurar fuentes (comodatos)
+              </Link>
+            )}
+            {can(user?.role, "users.manage") && (
+              <Link href="/usuarios" className="rounded border px-3 py-1 hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                👥 Usuarios y roles
+              </Link>
+            )}
           </div>
           <p className="mt-2 text-xs text-zinc-500">
             Consejo: En el módulo de Comodatos usa el botón <b>Cargar hojas</b> o <b>Cargar demo</b>.
@@ -0,0 +1,123 @@
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+import UserMenu from "@/app/UserMenu";
+import { fetchUsers, saveUser } from "@/lib/auth/client";
+import { ROLES, ROLE_LABELS, type Role } from "@/lib/auth/roles";
+import type { UserInfo } from "@/lib/auth/users";
+
+// ==============================
+// Administración de usuarios y roles (solo admin; lo exige el middleware y la API)
+// ==============================
+
+type Draft = { username: string; name: string; role: Role; password: string };
+
+const EMPTY: Draft = { username: "", name: "", role: "ejecutivo", password: "" };
+const fmtDate = (iso: string) => new Date(iso).toLocaleDateString("es-CL", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY);
+  const [editing, setEditing] = useState(false); // true = se edita un usuario existente
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try { setUsers(await fetchUsers()); setError(null); }
+    catch (e: any) { setError(e?.message || String(e)); }
+  }, []);
+  useEffect(() => { load(); }, [load]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await saveUser({ username: draft.username, name: draft.name, role: draft.role, password: draft.password || undefined });
+      setDraft(EMPTY); setEditing(false);
+      await load();
+    } catch (err: any) {
+      alert("No se pudo guardar el usuario.\n" + (err?.message || err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleDisabled = async (u: UserInfo) => {
+    try { await saveUser({ username: u.username, disabled: !u.disabled }); await load(); }
+    catch (err: any) { alert("No se pudo actualizar el usuario.\n" + (err?.message || err)); }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-900 dark:bg-zinc-950 dark:text-zinc-100">
+      <header className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-[#1f4ed8]" />
+        <div className="absolute inset-y-0 right-[-20%] w-[60%] rotate-[-8deg] bg-sky-400/60" />
+        <div className="relative mx-auto max-w-7xl px-6 py-5 flex items-center justify-between">
+          <h1 className="text-white uppercase font-semibold tracking-widest text-2xl md:text-3xl">Usuarios y roles</h1>
+          <div className="flex items-center gap-2">
+            <UserMenu />
+            <Link href="/" className="rounded bg-white/20 text-white px-3 py-1 text-xs sm:text-sm hover:bg-white/30">⟵ Volver</Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        <form onSubmit={save} className="mb-6 flex flex-wrap items-end gap-2 rounded-2xl border bg-white p-4 text-xs shadow-sm dark:bg-zinc-900">
+          <label className="flex flex-col gap-0.5">
+            <span className="text-zinc-500">Usuario</span>
+            <input className="w-40 rounded border px-2 py-1" value={draft.username} readOnly={editing} onChange={(e) => setDraft({ ...draft, username: e.target.value })} />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span className="text-zinc-500">Nombre</span>
+            <input className="w-56 rounded border px-2 py-1" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span className="text-zinc-500">Rol</span>
+            <select className="rounded border px-2 py-1" value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as Role })}>
+              {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span className="text-zinc-500">{editing ? "Nueva contraseña (opcional)" : "Contraseña"}</span>
+            <input type="password" autoComplete="new-password" className="w-44 rounded border px-2 py-1" value={draft.password} onChange={(e) => setDraft({ ...draft, password: e.target.value })} />
+          </label>
+          <button type="submit" disabled={busy || !draft.username} className="rounded bg-[#2B6CFF] hover:bg-[#1F5AE6] px-3 py-1 text-white disabled:opacity-50">
+            {editing ? "Guardar cambios" : "Crear usuario"}
+          </button>
+          {editing && <button type="button" onClick={() => { setDraft(EMPTY); setEditing(false); }} className="rounded border px-2 py-1">Cancelar</button>}
+        </form>
+
+        {error && <div className="mb-2 rounded bg-rose-50 p-2 text-xs text-rose-700">{error}</div>}
+
+        <table className="w-full border-collapse bg-white text-xs dark:bg-zinc-900">
+          <thead>
+            <tr className="bg-zinc-100 text-zinc-700">
+              <th className="border px-2 py-1 text-left">Usuario</th>
+              <th className="border px-2 py-1 text-left">Nombre</th>
+              <th className="border px-2 py-1 text-left">Rol</th>
+              <th className="border px-2 py-1 text-left">Actualizado</th>
+              <th className="border px-2 py-1 text-center">Estado</th>
+              <th className="border px-2 py-1 text-center">—</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((u) => (
+              <tr key={u.username} className={u.disabled ? "text-zinc-400" : undefined}>
+                <td className="border px-2 py-1 font-mono">{u.username}</td>
+                <td className="border px-2 py-1">{u.name}</td>
+                <td className="border px-2 py-1">{ROLE_LABELS[u.role]}</td>
+                <td className="border px-2 py-1">{fmtDate(u.updatedAt)}</td>
+                <td className="border px-2 py-1 text-center">{u.disabled ? "Desactivado" : "Activo"}</td>
+                <td className="border px-2 py-1 text-center whitespace-nowrap">
+                  <button onClick={() => { setDraft({ username: u.username, name: u.name, role: u.role, password: "" }); setEditing(true); }} className="rounded border px-2 py-0.5">Editar</button>
+                  <button onClick={() => toggleDisabled(u)} className="ml-1 rounded border px-2 py-0.5">{u.disabled ? "Activar" : "Desactivar"}</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import type { SessionUser } from "./roles";
+import type { UserInfo, UserInput } from "./users";
+
+// ==============================
+// Cliente de sesión y usuarios (/api/auth)
+// ==============================
+
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(url, { cache: "no-store", ...init, headers: { "Content-Type": "application/json", ...(init?.headers || {}) } });
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error || `HTTP ${resp.status}`);
+  return body as T;
+}
+
+export async function fetchSession(): Promise<SessionUser | null> {
+  try {
+    return (await call<{ user: SessionUser }>("/api/auth/me")).user;
+  } catch {
+    return null;
+  }
+}
+
+export async function login(username: string, password: string): Promise<SessionUser> {
+  return (await call<{ user: SessionUser }>("/api/auth/login", { method: "POST", body: JSON.stringify({ username, password }) })).user;
+}
+
+export async function logout(): Promise<void> {
+  await call("/api/auth/logout", { method: "POST" });
+  location.href = "/login";
+}
+
+export async function fetchUsers(): Promise<UserInfo[]> {
+  return (await call<{ users: UserInfo[] }>("/api/auth/users")).users;
+}
+
+export async function saveUser(input: UserInput): Promise<UserInfo> {
+  return (await call<{ user: UserInfo }>("/api/auth/users", { method: "POST", body: JSON.stringify(input) })).user;
+}
+
+// Usuario de la sesión; null mientras carga o si no hay sesión (sin permisos hasta saberlo)
+export function useSession(): SessionUser | null {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  useEffect(() => {
+    let alive = true;
+    fetchSession().then((u) => { if (alive) setUser(u); });
+    return () => { alive = false; };
+  }, []);
+  return user;
+}
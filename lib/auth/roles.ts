@@ -0,0 +1,41 @@
+// ==============================
+// Roles y permisos (compartido por middleware, rutas API y páginas)
+// ==============================
+
+export type Role = "ejecutivo" | "gerente" | "admin";
+
+export const ROLES: Role[] = ["ejecutivo", "gerente", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  ejecutivo: "Ejecutivo",
+  gerente: "Gerente",
+  admin: "Administrador",
+};
+
+export type Permission =
+  | "negocio.pricing" // % descuento y costo override por línea
+  | "negocio.params" // usar lista como costo, comisión sobre venta neta
+  | "negocio.catalog" // cargar catálogo y editar descripción/kilos/precio lista de ítems del catálogo
+  | "negocio.importExport" // importar/exportar evaluación JSON
+  | "evaluations.approve" // aprobar o rechazar evaluaciones enviadas
+  | "comodatos.config" // fuentes, perfiles de mapeo, umbrales y ventanas
+  | "users.manage";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ejecutivo: [],
+  gerente: ["negocio.pricing", "negocio.params", "negocio.importExport", "evaluations.approve"],
+  admin: ["negocio.pricing", "negocio.params", "negocio.catalog", "negocio.importExport", "evaluations.approve", "comodatos.config", "users.manage"],
+};
+
+export const isRole = (x: unknown): x is Role => typeof x === "string" && (ROLES as string[]).includes(x);
+
+export const can = (role: Role | null | undefined, perm: Permission) => !!role && ROLE_PERMISSIONS[role].includes(perm);
+
+export type SessionUser = {
+  username: string;
+  name: string;
+  role: Role;
+};
+
+// Páginas que exigen un permiso además de sesión (las revisa el middleware)
+export const PAGE_PERMISSIONS: { prefix: string; perm: Permission }[] = [{ prefix: "/usuarios", perm: "users.manage" }];
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { can, type Permission, type SessionUser } from "./roles";
+import { SESSION_COOKIE, readCookie, verifySession } from "./session";
+import { findActiveUser } from "./users";
+
+// ==============================
+// Autorización en las rutas API (solo servidor). El middleware ya exige sesión;
+// aquí se revisa el rol vigente y se obtiene quién hace la acción.
+// ==============================
+
+export async function currentUser(req: Request): Promise<SessionUser | null> {
+  const s = await verifySession(readCookie(req.headers.get("cookie"), SESSION_COOKIE));
+  return s ? findActiveUser(s.username) : null;
+}
+
+// Devuelve el usuario o la respuesta 401/403 que corresponde
+export async function requireUser(req: Request, perm?: Permission): Promise<SessionUser | NextResponse> {
+  const user = await currentUser(req);
+  if (!user) return NextResponse.json({ error: "Sesión no válida; vuelve a ingresar" }, { status: 401 });
+  if (perm && !can(user.role, perm)) return NextResponse.json({ error: "Tu rol no tiene permiso para esta acción" }, { status: 403 });
+  return user;
+}
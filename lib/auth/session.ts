@@ -0,0 +1,74 @@
+import { isRole, type SessionUser } from "./roles";
+
+// ==============================
+// Sesión firmada en cookie (HMAC-SHA256 con Web Crypto: sirve en el middleware y en Node)
+// Variables de entorno:
+//   AUTH_SECRET         clave de firma (obligatoria en producción)
+//   AUTH_SESSION_HOURS  duración de la sesión (def. 12)
+// ==============================
+
+export const SESSION_COOKIE = "session";
+
+const DEV_SECRET = "dev-secret-no-usar-en-produccion";
+
+export function sessionTtlSeconds(): number {
+  const h = Number(process.env.AUTH_SESSION_HOURS);
+  return Math.round((Number.isFinite(h) && h > 0 ? h : 12) * 3600);
+}
+
+function secret(): string {
+  const s = process.env.AUTH_SECRET;
+  if (s) return s;
+  if (process.env.NODE_ENV === "production") throw new Error("Falta AUTH_SECRET para firmar las sesiones");
+  return DEV_SECRET;
+}
+
+const enc = new TextEncoder();
+
+function b64url(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromB64url(s: string): Uint8Array {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+const hmacKey = () => crypto.subtle.importKey("raw", enc.encode(secret()), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+type Payload = { u: string; n: string; r: string; exp: number };
+
+export async function signSession(user: SessionUser, now = Date.now()): Promise<string> {
+  const payload: Payload = { u: user.username, n: user.name, r: user.role, exp: Math.floor(now / 1000) + sessionTtlSeconds() };
+  const body = b64url(enc.encode(JSON.stringify(payload)));
+  const sig = new Uint8Array(await crypto.subtle.sign("HMAC", await hmacKey(), enc.encode(body)));
+  return `${body}.${b64url(sig)}`;
+}
+
+// null si falta, está alterada o venció
+export async function verifySession(token: string | undefined | null, now = Date.now()): Promise<SessionUser | null> {
+  if (!token) return null;
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+  try {
+    const ok = await crypto.subtle.verify("HMAC", await hmacKey(), fromB64url(sig), enc.encode(body));
+    if (!ok) return null;
+    const p = JSON.parse(new TextDecoder().decode(fromB64url(body))) as Payload;
+    if (!p.u || !isRole(p.r) || !(p.exp * 1000 > now)) return null;
+    return { username: p.u, name: p.n || p.u, role: p.r };
+  } catch {
+    return null;
+  }
+}
+
+export function readCookie(header: string | null, name: string): string | undefined {
+  for (const part of (header || "").split(";")) {
+    const i = part.indexOf("=");
+    if (i > 0 && part.slice(0, i).trim() === name) return decodeURIComponent(part.slice(i + 1).trim());
+  }
+  return undefined;
+}
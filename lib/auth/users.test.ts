@@ -0,0 +1,29 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { listUsers, upsertUser } from "./users";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "usuarios-"));
+  process.env.AUTH_USERS_FILE = path.join(dir, "users.json");
+  process.env.AUTH_ADMIN_PASSWORD = "secreto-admin";
+});
+
+afterAll(async () => {
+  delete process.env.AUTH_USERS_FILE;
+  delete process.env.AUTH_ADMIN_PASSWORD;
+  await rm(dir, { recursive: true, force: true });
+});
+
+const admin = { username: "admin", name: "Administrador", role: "admin" as const };
+
+describe("upsertUser", () => {
+  it("no pierde altas simultáneas", async () => {
+    const names = ["ana", "beto", "carla", "dani", "eli"];
+    await Promise.all(names.map((username) => upsertUser({ username, password: "clave-segura" }, admin)));
+    expect((await listUsers()).map((u) => u.username)).toEqual(["admin", ...names]);
+  });
+});
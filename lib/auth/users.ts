@@ -0,0 +1,151 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { readJSON, withFileLock, writeJSONAtomic } from "@/lib/jsonfiles";
+import { isRole, type Role, type SessionUser } from "./roles";
+
+// ==============================
+// Credenciales locales (solo servidor): un JSON con usuarios y hash scrypt, sin servicios externos.
+// Variables de entorno:
+//   AUTH_USERS_FILE      archivo de usuarios (def. ./data/users.json)
+//   AUTH_ADMIN_USER      usuario administrador inicial (def. admin)
+//   AUTH_ADMIN_PASSWORD  si el archivo no existe, se crea con ese administrador
+// ==============================
+
+export type StoredUser = SessionUser & {
+  passwordHash: string;
+  disabled?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UserInfo = Omit<StoredUser, "passwordHash">;
+
+export type UserInput = {
+  username: string;
+  name?: string;
+  role?: Role;
+  password?: string;
+  disabled?: boolean;
+};
+
+const MIN_PASSWORD = 8;
+
+export class UserValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserValidationError";
+  }
+}
+
+export function usersFile(): string {
+  return process.env.AUTH_USERS_FILE || path.join(process.cwd(), "data", "users.json");
+}
+
+// Serializa leer → modificar → guardar: dos altas simultáneas no deben pisarse
+const withUsersLock = <T>(fn: () => Promise<T>): Promise<T> =>
+  withFileLock(`${usersFile()}.lock`, fn, "Archivo de usuarios ocupado; intenta de nuevo");
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString("base64")}$${scryptSync(password, salt, 32).toString("base64")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [algo, salt, hash] = (stored || "").split("$");
+  if (algo !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const got = scryptSync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(got, expected);
+}
+
+const normUsername = (u: string) => (u || "").trim().toLowerCase();
+const toInfo = (u: StoredUser): UserInfo => {
+  const { passwordHash: _hash, ...info } = u;
+  return info;
+};
+
+async function saveUsers(list: StoredUser[]) {
+  await fs.mkdir(path.dirname(usersFile()), { recursive: true });
+  await writeJSONAtomic(usersFile(), list);
+}
+
+async function loadUsers(): Promise<StoredUser[]> {
+  const list = await readJSON<StoredUser[]>(usersFile());
+  if (list) return list;
+  // Primer arranque: el administrador sale del entorno; sin él no hay usuarios
+  const password = process.env.AUTH_ADMIN_PASSWORD;
+  if (!password) return [];
+  const now = new Date().toISOString();
+  const admin: StoredUser = {
+    username: normUsername(process.env.AUTH_ADMIN_USER || "admin"),
+    name: "Administrador",
+    role: "admin",
+    passwordHash: hashPassword(password),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveUsers([admin]);
+  return [admin];
+}
+
+export async function hasUsers(): Promise<boolean> {
+  return (await loadUsers()).length > 0;
+}
+
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+  const u = (await loadUsers()).find((x) => x.username === normUsername(username));
+  if (!u || u.disabled || !verifyPassword(password || "", u.passwordHash)) return null;
+  return { username: u.username, name: u.name, role: u.role };
+}
+
+// Datos vigentes del usuario de una sesión (el rol puede haber cambiado desde que se firmó)
+export async function findActiveUser(username: string): Promise<SessionUser | null> {
+  const u = (await loadUsers()).find((x) => x.username === normUsername(username));
+  return u && !u.disabled ? { username: u.username, name: u.name, role: u.role } : null;
+}
+
+export async function listUsers(): Promise<UserInfo[]> {
+  return (await loadUsers()).map(toInfo).sort((a, b) => a.username.localeCompare(b.username));
+}
+
+// Crea o actualiza; la contraseña solo es obligatoria al crear
+export async function upsertUser(input: UserInput, actor: SessionUser): Promise<UserInfo> {
+  const username = normUsername(input.username);
+  if (!/^[a-z0-9._-]{2,40}$/.test(username)) throw new UserValidationError("Usuario inválido (2-40 caracteres: letras, números, punto, guion)");
+  if (input.role !== undefined && !isRole(input.role)) throw new UserValidationError("Rol inválido");
+  if (input.password !== undefined && input.password.length < MIN_PASSWORD) throw new UserValidationError(`La contraseña debe tener al menos ${MIN_PASSWORD} caracteres`);
+  if (username === actor.username && (input.disabled || (input.role && input.role !== "admin")))
+    throw new UserValidationError("No puedes desactivarte ni quitarte el rol de administrador");
+
+  return withUsersLock(async () => {
+    const list = await loadUsers();
+    const now = new Date().toISOString();
+    const i = list.findIndex((x) => x.username === username);
+    if (i < 0) {
+      if (!input.password) throw new UserValidationError("La contraseña es obligatoria para un usuario nuevo");
+      const u: StoredUser = {
+        username,
+        name: (input.name || "").trim() || username,
+        role: input.role || "ejecutivo",
+        passwordHash: hashPassword(input.password),
+        ...(input.disabled ? { disabled: true } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await saveUsers([...list, u]);
+      return toInfo(u);
+    }
+    const prev = list[i];
+    const u: StoredUser = {
+      ...prev,
+      name: input.name !== undefined ? input.name.trim() || prev.name : prev.name,
+      role: input.role || prev.role,
+      passwordHash: input.password ? hashPassword(input.password) : prev.passwordHash,
+      disabled: input.disabled !== undefined ? input.disabled : prev.disabled,
+      updatedAt: now,
+    };
+    await saveUsers(list.map((x, j) => (j === i ? u : x)));
+    return toInfo(u);
+  });
+}
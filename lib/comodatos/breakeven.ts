@@ -0,0 +1,47 @@
+import type { Metric, TopProd } from "./metrics";
+import { solicitudMensual, type Scenario, type ScenarioResult } from "./scenarios";
+
+// ==============================
+// Punto de equilibrio de un escenario: qué pedirle al cliente para quedar bajo relMax
+// ==============================
+
+export type KilosNecesarios = {
+  sn: string;
+  name?: string;
+  priceVentaKg: number;
+  kilosActualesMes: number; // promedio mensual actual del producto
+  kilosAdicionalesMes: number; // si toda la brecha se cubre con este producto
+};
+
+export type BreakEven = {
+  ventasMinimas: number; // cuotaNueva / relMax
+  brechaVentas: number; // ventasMinimas − ventas del escenario (0 si ya cumple)
+  kilos: KilosNecesarios[]; // por producto top con precio/kg conocido
+  cuotaMaxNueva: number; // cuota mensual de equipos nuevos que cabe con las ventas del escenario
+  mesesReferencia: number; // plazo usado para convertir cuota en valor de equipo
+  valorMaxEquipos: number; // cuotaMaxNueva × mesesReferencia
+};
+
+// Plazo ponderado por cuota de las líneas del escenario (o el plazo por defecto si no hay líneas)
+function mesesReferencia(sc: Scenario, contractMonthsDefault: number) {
+  let peso = 0, acc = 0;
+  sc.rows.forEach((r) => {
+    const { mensual } = solicitudMensual(r, contractMonthsDefault);
+    const meses = Math.max(1, Number(r.meses || contractMonthsDefault));
+    peso += mensual; acc += mensual * meses;
+  });
+  return peso > 0 ? acc / peso : Math.max(1, contractMonthsDefault);
+}
+
+export function computeBreakEven(metric: Metric, sc: Scenario, res: ScenarioResult, topProds: TopProd[], relMax: number, contractMonthsDefault: number): BreakEven {
+  const ventasMinimas = relMax > 0 ? res.cuotaNueva / relMax : Infinity;
+  const brechaVentas = Math.max(0, ventasMinimas - res.ventasProm);
+  const kilos = topProds
+    .filter((p) => p.priceVentaKg > 0)
+    .map((p) => ({ sn: p.sn, name: p.name, priceVentaKg: p.priceVentaKg, kilosActualesMes: p.totalKilos, kilosAdicionalesMes: brechaVentas / p.priceVentaKg }));
+  // Cuota que ya queda comprometida sin los equipos nuevos
+  const cuotaBase = Math.max(0, (metric.comodatoMensualVigente || 0) - res.cuotaRetirada);
+  const cuotaMaxNueva = Math.max(0, relMax * res.ventasProm - cuotaBase);
+  const meses = mesesReferencia(sc, contractMonthsDefault);
+  return { ventasMinimas, brechaVentas, kilos, cuotaMaxNueva, mesesReferencia: meses, valorMaxEquipos: cuotaMaxNueva * meses };
+}
@@ -0,0 +1,81 @@
+import { toISODate, tryParseDate } from "@/lib/dates";
+import { monthDiff } from "./metrics";
+import type { ComodatoRow } from "./types";
+
+// ==============================
+// Registro de equipos por número de serie (solo hojas de contratos)
+// ==============================
+// En modo "Comodatos Salida" el SN es un código de producto, por eso esas filas no entran al registro.
+
+export type EquipmentPlacement = {
+  rut: string;
+  rutInvalido?: boolean;
+  cliente?: string;
+  fechaInst: string;
+  fechaFin: string;
+  mesesContrato: number;
+  costoMensual: number;
+  mesesTranscurridos: number; // a la fecha de corte, tope en mesesContrato
+  costoEntregado: number; // costoMensual × mesesTranscurridos
+  vigente: boolean;
+};
+
+export type EquipmentRecord = {
+  sn: string;
+  placements: EquipmentPlacement[]; // por fecha de instalación ascendente
+  actual?: EquipmentPlacement; // última instalación a la fecha de corte
+  movimientos: number; // cambios de RUT entre instalaciones consecutivas
+  costoAcumulado: number;
+  clientesVigentes: string[]; // RUTs con contrato vigente a la fecha de corte
+  conflicto: boolean; // vigente en dos o más clientes a la vez
+};
+
+export type EquipmentOptions = { asOf: Date; contractMonthsDefault: number };
+
+export function computeEquipmentRegistry(comodatosRows: ComodatoRow[], opts: EquipmentOptions): EquipmentRecord[] {
+  const { asOf, contractMonthsDefault } = opts;
+  const bySn = new Map<string, EquipmentPlacement[]>();
+  comodatosRows.forEach((c) => {
+    if (c.isSalida) return;
+    const sn = (c.sn || "").trim(); if (!sn) return;
+    const fi = tryParseDate(c.fecha_instalacion); if (!fi || fi > asOf) return;
+    const mesesContrato = c.meses_contrato && c.meses_contrato > 0 ? c.meses_contrato : contractMonthsDefault || 1;
+    const costoMensual = c.costo_mensual !== undefined ? (c.costo_mensual || 0) : ((c.costo_total || 0) / mesesContrato);
+    const fin = new Date(fi.getFullYear(), fi.getMonth() + mesesContrato, fi.getDate());
+    const mesesTranscurridos = Math.min(mesesContrato, monthDiff(fi, asOf));
+    const list = bySn.get(sn) || [];
+    list.push({
+      rut: c.rut.trim(),
+      rutInvalido: c.rutInvalido || undefined,
+      cliente: c.cliente,
+      fechaInst: toISODate(fi),
+      fechaFin: toISODate(fin),
+      mesesContrato,
+      costoMensual,
+      mesesTranscurridos,
+      costoEntregado: costoMensual * mesesTranscurridos,
+      vigente: fin > asOf,
+    });
+    bySn.set(sn, list);
+  });
+
+  const out: EquipmentRecord[] = [];
+  bySn.forEach((placements, sn) => {
+    // ISO yyyy-mm-dd ordena igual que la fecha
+    placements.sort((a, b) => a.fechaInst.localeCompare(b.fechaInst));
+    let movimientos = 0;
+    for (let i = 1; i < placements.length; i++) if (placements[i].rut !== placements[i - 1].rut) movimientos++;
+    const clientesVigentes = Array.from(new Set(placements.filter((p) => p.vigente).map((p) => p.rut)));
+    out.push({
+      sn,
+      placements,
+      actual: placements[placements.length - 1],
+      movimientos,
+      costoAcumulado: placements.reduce((a, p) => a + p.costoEntregado, 0),
+      clientesVigentes,
+      conflicto: clientesVigentes.length > 1,
+    });
+  });
+  // Conflictos primero, luego mayor costo acumulado
+  return out.sort((a, b) => (Number(b.conflicto) - Number(a.conflicto)) || (b.costoAcumulado - a.costoAcumulado));
+}
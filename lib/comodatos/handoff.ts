@@ -0,0 +1,62 @@
+import type { TopProd } from "./metrics";
+import { solicitudMensual, type Scenario } from "./scenarios";
+
+// ==============================
+// Traspaso de una simulación de comodatos a /negocio (vía localStorage, mismo origen)
+// ==============================
+
+export const NEGOCIO_HANDOFF_KEY = "negocio.handoff";
+export const NEGOCIO_HANDOFF_PARAM = "desde"; // /negocio?desde=comodatos
+
+export type NegocioHandoff = {
+  version: 1;
+  createdAt: string; // ISO
+  customerName: string;
+  clientRut: string;
+  executive?: string;
+  months: number; // plazo del contrato en negocio
+  comodatoLines: { code: string; name: string; priceList: number; qty: number }[]; // priceList = valor total por equipo
+  saleLines: { code: string; name: string; kilosMes: number; priceVentaKg: number }[];
+};
+
+// Negocio usa un solo plazo para todos los equipos: el valor por equipo se reescala para conservar la cuota mensual simulada
+export function buildNegocioHandoff(
+  sc: Scenario,
+  topProds: TopProd[],
+  client: { customerName: string; clientRut: string; executive?: string },
+  contractMonthsDefault: number
+): NegocioHandoff {
+  const meses = sc.rows.map((r) => Math.max(1, Number(r.meses || contractMonthsDefault)));
+  const months = meses.length && meses.every((m) => m === meses[0]) ? meses[0] : Math.max(1, contractMonthsDefault);
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    ...client,
+    months,
+    comodatoLines: sc.rows.map((r) => {
+      const qty = Math.max(1, Number(r.qty || 1));
+      const { mensual } = solicitudMensual(r, contractMonthsDefault);
+      return { code: r.code, name: r.name, priceList: Math.round((mensual / qty) * months), qty };
+    }),
+    saleLines: topProds
+      .filter((p) => p.totalKilos > 0)
+      .map((p) => ({ code: p.sn, name: p.name || "", kilosMes: p.totalKilos, priceVentaKg: Math.round(p.priceVentaKg) })),
+  };
+}
+
+export function writeNegocioHandoff(h: NegocioHandoff) {
+  localStorage.setItem(NEGOCIO_HANDOFF_KEY, JSON.stringify(h));
+}
+
+// Lee y borra el traspaso pendiente (se consume una sola vez)
+export function takeNegocioHandoff(): NegocioHandoff | null {
+  try {
+    const raw = localStorage.getItem(NEGOCIO_HANDOFF_KEY);
+    if (!raw) return null;
+    localStorage.removeItem(NEGOCIO_HANDOFF_KEY);
+    const h = JSON.parse(raw);
+    return h && h.version === 1 && Array.isArray(h.comodatoLines) && Array.isArray(h.saleLines) ? (h as NegocioHandoff) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,71 @@
+import { loadSheetFromUrl } from "@/lib/ingestion";
+import { toISODate } from "@/lib/dates";
+import { rutKey } from "@/lib/rut";
+import { pickProfile } from "./mapping";
+import { mapComodatos } from "./mappers";
+import { computeMetrics, type EquipoDetalle } from "./metrics";
+import { readComodatosSettings } from "./settings";
+import type { ComodatoRow } from "./types";
+
+// ==============================
+// Consulta del comodato vigente de un cliente (RUT) para /negocio
+// ==============================
+// Usa la misma hoja de comodatos, perfiles de mapeo y ventanas configurados en /comodatos.
+// Las ventas no intervienen: negocio evalúa con sus propias ventas proyectadas.
+
+export type ExistingComodato = {
+  rut: string; // canónico
+  cliente?: string;
+  comodatoMensualVigente: number;
+  comodatoRestanteTotal: number;
+  equiposVigentes: number;
+  detalle: EquipoDetalle[]; // solo equipos vigentes
+  asOf: string; // ISO
+  source: string; // etiqueta de la hoja consultada
+};
+
+// found = null: RUT sin comodatos en la hoja (no es un error); warnings: avisos de la fuente para el diagnóstico
+export type ExistingComodatoLookup = { found: ExistingComodato | null; warnings: string[] };
+
+// Última hoja cargada (evita descargarla de nuevo en cada búsqueda)
+const CACHE_MS = 10 * 60 * 1000;
+let cache: { url: string; at: number; raw: Awaited<ReturnType<typeof loadSheetFromUrl>> } | null = null;
+
+async function loadComodatosSheet(url: string) {
+  if (cache && cache.url === url && Date.now() - cache.at < CACHE_MS) return cache.raw;
+  const raw = await loadSheetFromUrl(url);
+  cache = { url, at: Date.now(), raw };
+  return raw;
+}
+
+export async function lookupExistingComodato(rut: string, asOf: Date = new Date()): Promise<ExistingComodatoLookup> {
+  const { key, valid } = rutKey(rut);
+  if (!key) throw new Error("Ingresa el RUT del cliente");
+  if (!valid) throw new Error(`RUT inválido: ${rut}`);
+  const s = readComodatosSettings();
+  const res = await loadComodatosSheet(s.comodatosUrl);
+  const mapped = mapComodatos(
+    res.rows,
+    pickProfile(s.mappingProfiles, s.activeProfiles, "comodatos"),
+    pickProfile(s.mappingProfiles, s.activeProfiles, "salida"),
+    asOf,
+    res.lineNumbers,
+    s.windows
+  );
+  const rows: ComodatoRow[] = mapped.rows.filter((r) => r.rut === key);
+  if (!rows.length) return { found: null, warnings: res.warnings };
+  const [m] = computeMetrics([], rows, { keyType: "RUT", asOf, windows: s.windows, avgMode: s.avgMode, contractMonthsDefault: s.contractMonthsDefault });
+  if (!m) return { found: null, warnings: res.warnings };
+  const vigentes = m.detalle.filter((e) => e.mesesRestantes > 0);
+  const found: ExistingComodato = {
+    rut: key,
+    cliente: m.cliente,
+    comodatoMensualVigente: m.comodatoMensualVigente,
+    comodatoRestanteTotal: m.comodatoRestanteTotal,
+    equiposVigentes: vigentes.length,
+    detalle: vigentes,
+    asOf: toISODate(asOf),
+    source: res.source.label,
+  };
+  return { found, warnings: res.warnings };
+}
@@ -0,0 +1,190 @@
+import type { RawRow } from "@/lib/ingestion";
+import { buildDateFromPeriodo, parseDate, toISODate, type DateFormat } from "@/lib/dates";
+import { numInfo } from "@/lib/numbers";
+import { rutKey } from "@/lib/rut";
+import { extractRecord, headersOf, resolveHeaders, type HeaderResolution, type MappingProfile } from "./mapping";
+import type { ComodatoRow, VentasRow } from "./types";
+import { DEFAULT_WINDOWS, monthStart, type AnalysisWindows } from "./windows";
+
+// ==============================
+// Mapeo de hojas crudas → filas tipadas, con reporte de descartes
+// ==============================
+
+// index: posición en las filas crudas · line: fila de la hoja de origen
+export type DiscardedRow = { index: number; line: number; reason: string };
+export type RowNote = { index: number; line: number; field: string; value: string; note: string };
+
+export type MapReport = {
+  profileId: string;
+  profileName: string;
+  resolution: HeaderResolution;
+  discarded: DiscardedRow[];
+  notes: RowNote[]; // filas usadas pero con valores coercionados o fechas adivinadas
+  kept: number;
+  mode?: "contratos" | "salida";
+};
+
+export type MapResult<T> = { rows: T[]; report: MapReport };
+
+function report(profile: MappingProfile, resolution: HeaderResolution): MapReport {
+  return { profileId: profile.id, profileName: profile.name, resolution, discarded: [], notes: [], kept: 0 };
+}
+
+const isBlank = (v: any) => v === undefined || v === null || String(v).trim() === "";
+
+// Helpers para registrar descartes y notas con su línea de origen
+function tracker(rep: MapReport, lines?: number[]) {
+  const lineOf = (i: number) => lines?.[i] ?? i + 2;
+  return {
+    discard: (i: number, reason: string) => rep.discarded.push({ index: i, line: lineOf(i), reason }),
+    note: (i: number, field: string, value: any, note: string) =>
+      rep.notes.push({ index: i, line: lineOf(i), field, value: String(value ?? ""), note }),
+  };
+}
+
+// Total "raw" con la pista de locale del perfil: NaN si no se puede leer (la fila se descarta), aviso si fue ambiguo
+function totalOf(v: any, profile: MappingProfile, onNote: (value: any, note: string) => void): number {
+  const { value, coerced, note } = numInfo(v, 0, profile.numberLocale ?? "auto");
+  if (coerced) return NaN;
+  if (note) onNote(v, note);
+  return value;
+}
+
+const RUT_INVALID_NOTE = "RUT con dígito verificador inválido; se mantiene separado";
+
+// Fecha del registro (o Año/Periodo) según el formato declarado del perfil; anota si hubo que adivinar
+function recordDate(r: Record<string, any>, format: DateFormat, onGuess: (value: any, note: string) => void): Date | null {
+  const { date, guessed } = parseDate(r.fecha, format);
+  if (date) { if (guessed) onGuess(r.fecha, guessed); return date; }
+  if (!isBlank(r.fecha)) onGuess(r.fecha, `fecha ilegible con formato ${format}; se usó Año/Periodo`);
+  return buildDateFromPeriodo(r.anio, r.periodoMes, r.periodo, format);
+}
+
+export function mapVentas(rows: RawRow[], profile: MappingProfile, lines?: number[]): MapResult<VentasRow> {
+  const resolution = resolveHeaders(profile, headersOf(rows));
+  const rep = report(profile, resolution);
+  const t = tracker(rep, lines);
+  const out: VentasRow[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const pending: RowNote[] = [];
+    const r = extractRecord(rows[i], profile, resolution, (field, value, note) => pending.push({ index: i, line: 0, field, value, note }));
+    if (!r.rut) { t.discard(i, "Sin RUT"); continue; }
+    const { key: rut, valid: rutOk } = rutKey(r.rut);
+    if (!rutOk) pending.push({ index: i, line: 0, field: "rut", value: r.rut, note: RUT_INVALID_NOTE });
+    const d = recordDate(r, profile.dateFormat ?? "auto", (value, note) => pending.push({ index: i, line: 0, field: "fecha", value, note }));
+    if (!d) { t.discard(i, "Sin fecha (ni Año/Periodo)"); continue; }
+    const qty = r.qty ?? 0;
+    const kilos = r.kilos ?? 0;
+
+    // Total de la línea (ingreso): usa Global Venta/Total; si no, precio * qty * (1 - desc)
+    const lineRevenue = !isBlank(r.total) ? totalOf(r.total, profile, (value, note) => pending.push({ index: i, line: 0, field: "total", value, note })) : (r.precio ?? 0) * qty * (1 - (r.descuento ?? 0));
+    if (!lineRevenue && lineRevenue !== 0) { t.discard(i, "Monto inválido"); continue; }
+    pending.forEach((n) => t.note(i, n.field, n.value, n.note));
+
+    out.push({ rut, rutInvalido: !rutOk || undefined, sn: r.sn, fecha: toISODate(d), monto: lineRevenue, qty, kilos, priceLine: lineRevenue, cliente: r.cliente, prodName: r.prodName, ejecutivo: r.ejecutivo, region: r.region });
+  }
+  rep.kept = out.length;
+  return { rows: out, report: rep };
+}
+
+// `today` es la fecha de corte ("al" de la página): ancla la ventana histórica del modo salida,
+// cuyo costo mensual es el promedio de los últimos `windows.salidaAvgMonths` meses con datos.
+// Modo contratos si el perfil encuentra fecha de instalación y meses con datos; si no, modo "Comodatos Salida"
+export function mapComodatos(rows: RawRow[], contratos: MappingProfile, salida: MappingProfile, today: Date, lines?: number[], windows: Pick<AnalysisWindows, "historyMonths" | "salidaAvgMonths"> = DEFAULT_WINDOWS): MapResult<ComodatoRow> {
+  const headers = headersOf(rows);
+  const resC = resolveHeaders(contratos, headers);
+  const hasContractCols =
+    resC.matched.fecha_instalacion !== undefined && resC.matched.meses_contrato !== undefined &&
+    rows.some((r) => !isBlank(r[resC.matched.fecha_instalacion]) && !isBlank(r[resC.matched.meses_contrato]));
+
+  if (hasContractCols) {
+    const rep: MapReport = { ...report(contratos, resC), mode: "contratos" };
+    const t = tracker(rep, lines);
+    const out: ComodatoRow[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const pending: RowNote[] = [];
+      const r = extractRecord(rows[i], contratos, resC, (field, value, note) => pending.push({ index: i, line: 0, field, value, note }));
+      const meses_contrato = r.meses_contrato ?? 0;
+      const reason =
+        !r.rut ? "Sin RUT" :
+        !r.fecha_instalacion ? "Sin fecha de instalación" :
+        !(r.costo_total || r.costo_mensual) ? "Sin costo (total ni mensual)" :
+        !(meses_contrato > 0) ? "Meses de contrato ≤ 0" : null;
+      if (reason) { t.discard(i, reason); continue; }
+      const { date: fi, guessed } = parseDate(r.fecha_instalacion, contratos.dateFormat ?? "auto");
+      if (!fi) { t.discard(i, "Fecha de instalación ilegible"); continue; }
+      if (guessed) pending.push({ index: i, line: 0, field: "fecha_instalacion", value: r.fecha_instalacion, note: guessed });
+      const { key: rut, valid: rutOk } = rutKey(r.rut);
+      if (!rutOk) pending.push({ index: i, line: 0, field: "rut", value: r.rut, note: RUT_INVALID_NOTE });
+      pending.forEach((n) => t.note(i, n.field, n.value, n.note));
+      out.push({ rut, rutInvalido: !rutOk || undefined, sn: r.sn, fecha_instalacion: toISODate(fi), meses_contrato, costo_total: r.costo_total, costo_mensual: r.costo_mensual, cliente: r.cliente, ejecutivo: r.ejecutivo, region: r.region, isSalida: false, entregadoHistPair: 0 });
+    }
+    rep.kept = out.length;
+    return { rows: out, report: rep };
+  }
+
+  // === MODO "COMODATOS SALIDA" === (promedio mensual de los últimos meses por RUT/SN + total histórico por par)
+  const resS = resolveHeaders(salida, headers);
+  const rep: MapReport = { ...report(salida, resS), mode: "salida" };
+  const t = tracker(rep, lines);
+  type Row = { rut: string; rutInvalido?: boolean; sn?: string; fecha: Date; total: number; cliente?: string };
+  const histStart = monthStart(today, windows.historyMonths);
+  const parsed: Row[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const pending: RowNote[] = [];
+    const r = extractRecord(rows[i], salida, resS, (field, value, note) => pending.push({ index: i, line: 0, field, value, note }));
+    const total = !isBlank(r.total) ? totalOf(r.total, salida, (value, note) => pending.push({ index: i, line: 0, field: "total", value, note })) : (r.precioUnit ?? 0) * (r.cantidad ?? 0);
+    const f = recordDate(r, salida.dateFormat ?? "auto", (value, note) => pending.push({ index: i, line: 0, field: "fecha", value, note }));
+    if (!r.rut) { t.discard(i, "Sin RUT"); continue; }
+    if (isNaN(total)) { t.discard(i, "Total ilegible"); continue; }
+    if (!total) { t.discard(i, "Total vacío o 0"); continue; }
+    if (!f) pending.push({ index: i, line: 0, field: "fecha", value: r.fecha, note: "sin fecha; se asumió la fecha de corte" });
+    const fecha = f || today;
+    if (fecha < histStart) { t.discard(i, `Fuera de la ventana de ${windows.historyMonths} meses`); continue; }
+    if (fecha > today) { t.discard(i, "Posterior a la fecha de corte"); continue; }
+    const { key: rut, valid: rutOk } = rutKey(r.rut);
+    if (!rutOk) pending.push({ index: i, line: 0, field: "rut", value: r.rut, note: RUT_INVALID_NOTE });
+    pending.forEach((n) => t.note(i, n.field, n.value, n.note));
+    parsed.push({ rut, rutInvalido: !rutOk || undefined, sn: r.sn, fecha, total, cliente: r.cliente });
+  }
+  if (!parsed.length) return { rows: [], report: rep };
+
+  // Agrupar por (rut,sn)
+  const byPair = new Map<string, { rut: string; rutInvalido?: boolean; sn?: string; cliente?: string; months: Map<string, number>; firstDate: Date }>();
+  for (let i = 0; i < parsed.length; i++) {
+    const p = parsed[i];
+    const key = `${p.rut}||${p.sn || ""}`;
+    const rec = byPair.get(key) || { rut: p.rut, rutInvalido: p.rutInvalido, sn: p.sn, cliente: p.cliente, months: new Map<string, number>(), firstDate: p.fecha };
+    const k = `${p.fecha.getFullYear()}-${String(p.fecha.getMonth() + 1).padStart(2, "0")}`;
+    rec.months.set(k, (rec.months.get(k) || 0) + (p.total || 0));
+    if (p.fecha < rec.firstDate) rec.firstDate = p.fecha;
+    if (!rec.cliente && p.cliente) rec.cliente = p.cliente;
+    byPair.set(key, rec);
+  }
+
+  const out: ComodatoRow[] = [];
+  byPair.forEach((rec) => {
+    const months: string[] = [];
+    rec.months.forEach((_v, k) => months.push(k));
+    months.sort();
+    const last = months.slice(-windows.salidaAvgMonths);
+    let sumLast = 0; for (let i = 0; i < last.length; i++) sumLast += rec.months.get(last[i]) || 0;
+    let totalHist = 0; rec.months.forEach((v) => { totalHist += v || 0; });
+    const n = Math.max(1, last.length);
+    const costoMensual = sumLast / n;
+    out.push({
+      rut: rec.rut,
+      rutInvalido: rec.rutInvalido,
+      sn: rec.sn,
+      fecha_instalacion: toISODate(rec.firstDate || today),
+      meses_contrato: windows.historyMonths,
+      costo_total: undefined,
+      costo_mensual: costoMensual,
+      cliente: rec.cliente,
+      isSalida: true,
+      entregadoHistPair: totalHist,
+    });
+  });
+  rep.kept = parsed.length;
+  return { rows: out, report: rep };
+}
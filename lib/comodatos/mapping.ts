@@ -0,0 +1,269 @@
+import type { RawRow } from "@/lib/ingestion";
+import { DATE_FORMATS, type DateFormat } from "@/lib/dates";
+import { NUMBER_LOCALES, numInfo, type NumberLocale } from "@/lib/numbers";
+
+// ==============================
+// Perfiles de mapeo de columnas (cabecera de la hoja → campo canónico)
+// ==============================
+
+export type ProfileTarget = "ventas" | "comodatos" | "salida";
+
+// raw: valor tal cual (fechas) · text: string recortado · upper: texto en mayúsculas
+// number: parseNumber() con la pista de locale del perfil · percent: 0..1 (15 → 0.15; fuera de rango → 0) · factorXqty: número o, si viene vacío/0, factor × qty
+export type FieldTransform = "raw" | "text" | "upper" | "number" | "percent" | "factorXqty";
+
+export type FieldMapping = { headers: string[]; transform: FieldTransform };
+
+export type MappingProfile = {
+  id: string;
+  name: string;
+  target: ProfileTarget;
+  fields: Record<string, FieldMapping>;
+  dateFormat?: DateFormat; // formato de las fechas de la hoja (auto si no se declara)
+  numberLocale?: NumberLocale; // separadores de miles/decimales de la hoja (auto si no se declara)
+};
+
+export type ActiveProfiles = Record<ProfileTarget, string>;
+
+export const TRANSFORMS: FieldTransform[] = ["raw", "text", "upper", "number", "percent", "factorXqty"];
+
+export const TARGET_LABELS: Record<ProfileTarget, string> = {
+  ventas: "Ventas",
+  comodatos: "Comodatos (contratos)",
+  salida: "Comodatos salida",
+};
+
+// Campos canónicos por hoja, con su descripción para el panel
+export const CANONICAL_FIELDS: Record<ProfileTarget, Record<string, string>> = {
+  ventas: {
+    rut: "RUT cliente",
+    sn: "Código producto / SN",
+    cliente: "Nombre cliente",
+    fecha: "Fecha documento",
+    anio: "Año (si no hay fecha)",
+    periodoMes: "Mes del periodo (si no hay fecha)",
+    periodo: "Periodo en texto (si no hay fecha)",
+    qty: "Cantidad",
+    factor: "Factor kg por unidad",
+    kilos: "Kilos de la línea",
+    total: "Total línea",
+    precio: "Precio unitario (si no hay total)",
+    descuento: "% descuento",
+    prodName: "Descripción producto",
+    ejecutivo: "Ejecutivo / vendedor (opcional)",
+    region: "Región / zona (opcional)",
+  },
+  comodatos: {
+    rut: "RUT cliente",
+    sn: "Serie / SN",
+    cliente: "Nombre cliente",
+    fecha_instalacion: "Fecha instalación",
+    meses_contrato: "Meses de contrato",
+    costo_total: "Costo total equipo",
+    costo_mensual: "Costo mensual equipo",
+    ejecutivo: "Ejecutivo / vendedor (opcional)",
+    region: "Región / zona (opcional)",
+  },
+  salida: {
+    rut: "RUT cliente",
+    sn: "Código producto",
+    cliente: "Nombre cliente",
+    total: "Total",
+    precioUnit: "Precio unitario (si no hay total)",
+    cantidad: "Cantidad (si no hay total)",
+    fecha: "Fecha contable",
+    anio: "Año (si no hay fecha)",
+    periodoMes: "Mes del periodo (si no hay fecha)",
+    periodo: "Periodo en texto (si no hay fecha)",
+  },
+};
+
+const f = (transform: FieldTransform, ...headers: string[]): FieldMapping => ({ headers, transform });
+
+// Equivalentes a las cadenas `??` históricas de mapVentas/mapComodatos
+export const DEFAULT_PROFILES: MappingProfile[] = [
+  {
+    id: "default-ventas",
+    name: "Ventas (predeterminado)",
+    target: "ventas",
+    fields: {
+      rut: f("text", "Rut Cliente", "rut", "Codigo Cliente", "odigo liente"),
+      sn: f("upper", "ItemCode", "SN", "serie"),
+      cliente: f("text", "Nombre Cliente", "cliente"),
+      fecha: f("raw", "DocDate", "Fecha", "Doc Date"),
+      anio: f("raw", "Año", "Ano"),
+      periodoMes: f("raw", "Periodo MES"),
+      periodo: f("raw", "Periodo"),
+      qty: f("number", "Quantity", "Unidades", "Cantidad"),
+      factor: f("number", "U_FACTORFLETE", "factor"),
+      kilos: f("factorXqty", "Cantidad Kilos", "Cantidad_Kilos", "Kilos", "KG"),
+      total: f("raw", "Global Venta", "Global_Venta", "Total"),
+      precio: f("number", "Precio Por Linea", "PV antes del descuento", "Precio"),
+      descuento: f("percent", "% Descuento", "Descuento %", "Descuento"),
+      prodName: f("text", "Dscription", "U_DESCRIPCION_DET", "Producto", "DESCRIPCION", "Descripcion"),
+      ejecutivo: f("text", "Ejecutivo", "Vendedor", "SlpName"),
+      region: f("text", "Region", "Zona"),
+    },
+  },
+  {
+    id: "default-comodatos",
+    name: "Comodatos contratos (predeterminado)",
+    target: "comodatos",
+    fields: {
+      rut: f("text", "rut", "Rut Cliente", "cliente_rut"),
+      sn: f("text", "sn", "serie", "Codigo Producto", "cod_sn", "Codigo_SN"),
+      cliente: f("text", "cliente", "Nombre Cliente", "razon"),
+      fecha_instalacion: f("raw", "fecha_instalacion", "Instalacion", "Fecha"),
+      meses_contrato: f("number", "meses_contrato", "meses"),
+      costo_total: f("number", "costo_total"),
+      costo_mensual: f("number", "costo_mensual"),
+      ejecutivo: f("text", "ejecutivo", "Vendedor", "SlpName"),
+      region: f("text", "region", "Zona"),
+    },
+  },
+  {
+    id: "default-salida",
+    name: "Comodatos salida (predeterminado)",
+    target: "salida",
+    fields: {
+      rut: f("text", "Rut Cliente", "rut"),
+      sn: f("text", "Codigo Producto", "sn", "serie"),
+      cliente: f("text", "Nombre Cliente", "cliente"),
+      total: f("raw", "Total"),
+      precioUnit: f("number", "Precio unitario"),
+      cantidad: f("number", "Cantidad"),
+      fecha: f("raw", "Fecha Contab"),
+      anio: f("raw", "Año"),
+      periodoMes: f("raw", "Periodo MES"),
+      periodo: f("raw", "Periodo"),
+    },
+  },
+];
+
+export const DEFAULT_ACTIVE_PROFILES: ActiveProfiles = {
+  ventas: "default-ventas",
+  comodatos: "default-comodatos",
+  salida: "default-salida",
+};
+
+// Perfil activo para una hoja; si el id guardado ya no existe, cae al predeterminado
+export function pickProfile(profiles: MappingProfile[], active: ActiveProfiles, target: ProfileTarget): MappingProfile {
+  return (
+    profiles.find((p) => p.id === active[target] && p.target === target) ||
+    profiles.find((p) => p.target === target) ||
+    DEFAULT_PROFILES.find((p) => p.target === target)!
+  );
+}
+
+// Comparación de cabeceras sin mayúsculas, tildes ni espacios repetidos
+export const normalizeHeader = (h: string) =>
+  String(h ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+export type HeaderResolution = {
+  matched: Record<string, string>; // campo → cabecera real
+  missing: string[]; // campos sin cabecera
+  unused: string[]; // cabeceras de la hoja que no usa el perfil
+};
+
+export function headersOf(rows: RawRow[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (let i = 0; i < Math.min(rows.length, 50); i++) {
+    for (const k of Object.keys(rows[i] || {})) if (!seen.has(k)) { seen.add(k); out.push(k); }
+  }
+  return out;
+}
+
+// Para cada campo toma la primera cabecera del perfil que exista en la hoja
+export function resolveHeaders(profile: MappingProfile, headers: string[]): HeaderResolution {
+  const byNorm = new Map<string, string>();
+  headers.forEach((h) => { const n = normalizeHeader(h); if (n && !byNorm.has(n)) byNorm.set(n, h); });
+  const matched: Record<string, string> = {};
+  const missing: string[] = [];
+  const used = new Set<string>();
+  Object.keys(profile.fields).forEach((field) => {
+    const hit = profile.fields[field].headers.map((h) => byNorm.get(normalizeHeader(h))).find((h) => h !== undefined);
+    if (hit !== undefined) { matched[field] = hit; used.add(hit); } else missing.push(field);
+  });
+  return { matched, missing, unused: headers.filter((h) => !used.has(h)) };
+}
+
+const isBlank = (v: any) => v === undefined || v === null || String(v).trim() === "";
+
+// Aviso de coerción: el valor original no se pudo leer tal cual y se reemplazó
+export type CoercionNote = (field: string, value: any, note: string) => void;
+
+function applyTransform(t: FieldTransform, v: any, locale: NumberLocale, onNote: (note: string) => void): any {
+  const toNum = () => {
+    const { value, coerced, note } = numInfo(v, 0, locale);
+    if (coerced) onNote(`valor no numérico convertido a ${value}`);
+    else if (note) onNote(note);
+    return value;
+  };
+  switch (t) {
+    case "raw": return v;
+    case "text": return isBlank(v) ? undefined : String(v).trim();
+    case "upper": return isBlank(v) ? undefined : String(v).trim().toUpperCase();
+    case "number": return isBlank(v) ? undefined : toNum();
+    case "percent": {
+      if (isBlank(v)) return undefined;
+      let p = toNum();
+      if (p > 1) p = p / 100;
+      if (p < 0 || p > 1) { onNote("porcentaje fuera de rango; se usó 0"); return 0; }
+      return p;
+    }
+    case "factorXqty": return isBlank(v) ? undefined : toNum();
+  }
+}
+
+// Extrae un registro canónico de una fila cruda. Los campos factorXqty usan `factor` y `qty` del mismo registro.
+export function extractRecord(row: RawRow, profile: MappingProfile, res: HeaderResolution, onCoerce?: CoercionNote): Record<string, any> {
+  const out: Record<string, any> = {};
+  const derived: string[] = [];
+  Object.keys(profile.fields).forEach((field) => {
+    const header = res.matched[field];
+    const t = profile.fields[field].transform;
+    const v = header !== undefined ? row[header] : undefined;
+    out[field] = applyTransform(t, v, profile.numberLocale ?? "auto", (note) => onCoerce?.(field, v, note));
+    if (t === "factorXqty") derived.push(field);
+  });
+  derived.forEach((field) => {
+    if (!out[field] && out.factor && out.qty) out[field] = out.factor * out.qty;
+  });
+  return out;
+}
+
+// ==============================
+// Import / export de perfiles (JSON)
+// ==============================
+
+export function parseProfilesJSON(text: string): MappingProfile[] {
+  const j = JSON.parse(text);
+  const list = Array.isArray(j) ? j : Array.isArray(j?.profiles) ? j.profiles : [j];
+  const out: MappingProfile[] = [];
+  list.forEach((p: any, i: number) => {
+    if (!p || typeof p !== "object") throw new Error(`Perfil #${i + 1}: no es un objeto`);
+    if (!["ventas", "comodatos", "salida"].includes(p.target)) throw new Error(`Perfil #${i + 1}: target inválido (${p.target})`);
+    if (!p.fields || typeof p.fields !== "object") throw new Error(`Perfil #${i + 1}: faltan "fields"`);
+    const fields: Record<string, FieldMapping> = {};
+    Object.keys(p.fields).forEach((k) => {
+      const fm = p.fields[k];
+      const headers = Array.isArray(fm?.headers) ? fm.headers.map((h: any) => String(h)) : [];
+      const transform: FieldTransform = TRANSFORMS.includes(fm?.transform) ? fm.transform : "text";
+      fields[k] = { headers, transform };
+    });
+    const dateFormat: DateFormat | undefined = DATE_FORMATS.includes(p.dateFormat) ? p.dateFormat : undefined;
+    const numberLocale: NumberLocale | undefined = NUMBER_LOCALES.includes(p.numberLocale) ? p.numberLocale : undefined;
+    out.push({ id: String(p.id || `perfil-${Date.now()}-${i}`), name: String(p.name || `Perfil ${i + 1}`), target: p.target, fields, dateFormat, numberLocale });
+  });
+  return out;
+}
+
+export function profilesToJSON(profiles: MappingProfile[]): string {
+  return JSON.stringify({ version: "mapping-profiles-v1", profiles }, null, 2);
+}
@@ -0,0 +1,221 @@
+import { toISODate, tryParseDate } from "@/lib/dates";
+import type { ComodatoRow, VentasRow } from "./types";
+import { monthBucket, monthStart, monthlyAverage, rollingStart, type AnalysisWindows, type AvgMode } from "./windows";
+
+// ==============================
+// Métricas por cliente (RUT) o por código SN
+// ==============================
+
+export type KeyType = "RUT" | "SN";
+
+export type EquipoDetalle = {
+  sn?: string;
+  fechaInst: string;
+  fechaFin: string; // instalación + meses de contrato
+  isSalida?: boolean; // contrato sintético del modo "Comodatos Salida" (sin término real)
+  mesesContrato: number;
+  mesesTranscurridos: number;
+  mesesRestantes: number;
+  costoMensual: number;
+};
+
+export type Metric = {
+  key: string;
+  cliente?: string;
+  // Ventas (ventana móvil de windows.salesMonths e histórica de windows.historyMonths)
+  ventasVentanaTotal: number;
+  ventasVentanaProm: number;
+  ventasHistTotal: number;
+  // Comodatos
+  comodatoMensualVigente: number; // referencia
+  comodatoRestanteTotal: number; // cuota mensual × meses restantes de los equipos vigentes
+  // Relación: cuota mensual vigente / promedio mensual de ventas
+  relacion: number;
+  vigente: boolean;
+  equiposVigentes: number;
+  detalle: EquipoDetalle[];
+  entregadoHist?: number; // solo modo salida, dentro de la ventana histórica
+  rutInvalido?: boolean; // clave RUT con dígito verificador inválido (no se fusiona con otras)
+  ejecutivo?: string; // si alguna hoja trae la columna (primero comodatos, luego ventas)
+  region?: string;
+};
+
+// Etiquetas de columnas/exportes según las ventanas activas
+export function metricLabels(w: AnalysisWindows): Record<"ventasVentanaTotal" | "ventasVentanaProm" | "ventasHistTotal" | "comodatoMensualVigente" | "comodatoRestanteTotal" | "relacion" | "entregadoHist", string> {
+  return {
+    ventasVentanaTotal: `Venta ${w.salesMonths}m total`,
+    ventasVentanaProm: `Venta prom/m (${w.salesMonths}m)`,
+    ventasHistTotal: `Venta ${w.historyMonths}m total`,
+    comodatoMensualVigente: "Cuota mensual $",
+    comodatoRestanteTotal: "Comodato restante $",
+    relacion: "Relación mensual",
+    entregadoHist: `Entregado ${w.historyMonths}m`,
+  };
+}
+
+export function monthDiff(from: Date, to: Date) {
+  const years = to.getFullYear() - from.getFullYear();
+  const months = to.getMonth() - from.getMonth();
+  const total = years * 12 + months + (to.getDate() >= from.getDate() ? 0 : -1);
+  return Math.max(0, total);
+}
+
+// Cuenta meses de solapamiento por mes calendario (ambos extremos inclusivos)
+export function countMonthOverlapInclusive(contractStart: Date, contractMonths: number, windowStart: Date, windowEnd: Date) {
+  // Normalizar a inicio de mes
+  const cStart = new Date(contractStart.getFullYear(), contractStart.getMonth(), 1);
+  const cEnd = new Date(cStart.getFullYear(), cStart.getMonth() + Math.max(0, contractMonths) - 1, 1);
+  const wStart = new Date(windowStart.getFullYear(), windowStart.getMonth(), 1);
+  const wEnd = new Date(windowEnd.getFullYear(), windowEnd.getMonth(), 1);
+  const s = cStart > wStart ? cStart : wStart;
+  const e = cEnd < wEnd ? cEnd : wEnd;
+  if (e < s) return 0;
+  return (e.getFullYear() - s.getFullYear()) * 12 + (e.getMonth() - s.getMonth()) + 1;
+}
+
+export type MetricsOptions = {
+  keyType: KeyType;
+  asOf: Date; // fecha de corte
+  windows: AnalysisWindows;
+  avgMode: AvgMode;
+  contractMonthsDefault: number;
+};
+
+export function computeMetrics(ventasRows: VentasRow[], comodatosRows: ComodatoRow[], opts: MetricsOptions): Metric[] {
+  const { keyType, asOf: today, windows, avgMode, contractMonthsDefault } = opts;
+  if (!ventasRows.length && !comodatosRows.length) return [];
+  const salesStart = rollingStart(today, windows.salesMonths);
+  const histStart = monthStart(today, windows.historyMonths);
+  const keyOf = (r: { rut: string; sn?: string }) => (keyType === "RUT" ? r.rut : (r.sn || "")).trim();
+
+  // RUTs inválidos vistos en cualquiera de las hojas (solo aplica con clave RUT)
+  const invalidKeys = new Set<string>();
+  if (keyType === "RUT") {
+    ventasRows.forEach((v) => { if (v.rutInvalido) invalidKeys.add(v.rut.trim()); });
+    comodatosRows.forEach((c) => { if (c.rutInvalido) invalidKeys.add(c.rut.trim()); });
+  }
+
+  // Ejecutivo / región por clave, si las hojas los traen (comodatos tiene prioridad sobre ventas)
+  const attrsByKey = new Map<string, { ejecutivo?: string; region?: string }>();
+  const noteAttrs = (key: string, r: { ejecutivo?: string; region?: string }) => {
+    if (!r.ejecutivo && !r.region) return;
+    const a = attrsByKey.get(key) || {};
+    if (!a.ejecutivo && r.ejecutivo) a.ejecutivo = r.ejecutivo;
+    if (!a.region && r.region) a.region = r.region;
+    attrsByKey.set(key, a);
+  };
+  comodatosRows.forEach((c) => { const k = keyOf(c); if (k) noteAttrs(k, c); });
+  ventasRows.forEach((v) => { const k = keyOf(v); if (k) noteAttrs(k, v); });
+
+  // Ventas por clave (ventana móvil por mes y ventana histórica)
+  const salesByKey = new Map<string, { total: number; buckets: number[]; anyName?: string }>();
+  const histByKey = new Map<string, { total: number; anyName?: string }>();
+
+  for (let i = 0; i < ventasRows.length; i++) {
+    const v = ventasRows[i];
+    const d = tryParseDate(v.fecha); if (!d || d > today) continue; // ventas posteriores al corte no cuentan
+    const key = keyOf(v); if (!key) continue;
+    if (d >= salesStart) {
+      const rec = salesByKey.get(key) || { total: 0, buckets: new Array(windows.salesMonths).fill(0), anyName: v.cliente };
+      rec.total += v.monto || 0; rec.anyName = rec.anyName || v.cliente;
+      rec.buckets[monthBucket(d, today, windows.salesMonths)] += v.monto || 0;
+      salesByKey.set(key, rec);
+    }
+    if (d >= histStart) {
+      const rec = histByKey.get(key) || { total: 0, anyName: v.cliente };
+      rec.total += v.monto || 0; rec.anyName = rec.anyName || v.cliente;
+      histByKey.set(key, rec);
+    }
+  }
+
+  // Comodatos por clave (equipos con meses transcurridos/restantes a la fecha de corte)
+  const comodByKey = new Map<string, { equipos: EquipoDetalle[]; cliente?: string }>();
+  for (let i = 0; i < comodatosRows.length; i++) {
+    const c = comodatosRows[i];
+    const key = keyOf(c); if (!key) continue;
+    const fi = tryParseDate(c.fecha_instalacion); if (!fi || fi > today) continue; // instalado después del corte
+    const mesesTranscurridos = monthDiff(fi, today);
+    const mesesRestantes = Math.max(0, (c.meses_contrato || 0) - mesesTranscurridos);
+    const mesesBase = (c.meses_contrato && c.meses_contrato > 0 ? c.meses_contrato : contractMonthsDefault || 1);
+    const costoMensual = c.costo_mensual !== undefined ? (c.costo_mensual || 0) : ((c.costo_total || 0) / mesesBase);
+    const fin = new Date(fi.getFullYear(), fi.getMonth() + mesesBase, fi.getDate());
+    const det: EquipoDetalle = { sn: c.sn, fechaInst: toISODate(fi), fechaFin: toISODate(fin), isSalida: c.isSalida || undefined, mesesContrato: mesesBase, mesesTranscurridos, mesesRestantes, costoMensual };
+    const rec = comodByKey.get(key) || { equipos: [], cliente: c.cliente };
+    rec.equipos.push(det); if (!rec.cliente && c.cliente) rec.cliente = c.cliente;
+    comodByKey.set(key, rec);
+  }
+
+  // Entregado en la ventana histórica (solo modo salida)
+  const entregadoByKey = new Map<string, number>();
+  for (let i = 0; i < comodatosRows.length; i++) {
+    const c = comodatosRows[i];
+    if (!c || !c.isSalida) continue;
+    const key = keyOf(c); if (!key) continue;
+    entregadoByKey.set(key, (entregadoByKey.get(key) || 0) + (c.entregadoHistPair || 0));
+  }
+
+  const keys = new Set<string>();
+  salesByKey.forEach((_v, k) => keys.add(k));
+  histByKey.forEach((_v, k) => keys.add(k));
+  comodByKey.forEach((_v, k) => keys.add(k));
+
+  const out: Metric[] = [];
+  keys.forEach((k) => {
+    const s = salesByKey.get(k);
+    const h = histByKey.get(k);
+    const cRec = comodByKey.get(k);
+    const ventasVentanaTotal = s?.total || 0;
+    const ventasVentanaProm = s ? monthlyAverage(s.buckets, avgMode) : 0;
+    const equiposVig = (cRec?.equipos || []).filter((e) => e.mesesRestantes > 0);
+    const comodatoMensualVigente = equiposVig.reduce((a, e) => a + e.costoMensual, 0);
+    const comodatoRestanteTotal = equiposVig.reduce((a, e) => a + (e.costoMensual || 0) * (e.mesesRestantes || 0), 0);
+    const relacion = ventasVentanaProm > 0 ? (comodatoMensualVigente / ventasVentanaProm) : 0;
+    out.push({
+      key: k,
+      cliente: cRec?.cliente || s?.anyName || h?.anyName,
+      ventasVentanaTotal, ventasVentanaProm, ventasHistTotal: h?.total || 0,
+      comodatoMensualVigente, comodatoRestanteTotal,
+      relacion,
+      vigente: equiposVig.length > 0,
+      equiposVigentes: equiposVig.length,
+      detalle: cRec?.equipos || [],
+      entregadoHist: entregadoByKey.get(k) || 0,
+      rutInvalido: invalidKeys.has(k) || undefined,
+      ...attrsByKey.get(k),
+    });
+  });
+
+  out.sort((a, b) => (Number(b.vigente) - Number(a.vigente)) || (b.relacion - a.relacion));
+  return out;
+}
+
+export type TopProd = { sn: string; name?: string; totalKilos: number; priceVentaKg: number; total: number };
+
+// Top productos PT* de un RUT: promedio mensual en la ventana windows.topProdMonths (incluye meses sin venta)
+export function computeTopProds(ventasRows: VentasRow[], rut: string, asOf: Date, months: number, limit = 10): TopProd[] {
+  const start = rollingStart(asOf, months);
+  const acc: Record<string, { name?: string; kilos: number; revenue: number }> = {};
+  for (let i = 0; i < ventasRows.length; i++) {
+    const v = ventasRows[i];
+    const d = tryParseDate(v.fecha);
+    if (!d || d < start || d > asOf) continue;
+    if (v.rut !== rut) continue;
+    const code = (v.sn || "").toUpperCase();
+    if (!code || !code.startsWith("PT")) continue; // solo PT*
+    const rec = acc[code] || { name: v.prodName, kilos: 0, revenue: 0 };
+    rec.kilos += Number(v.kilos || 0);
+    rec.revenue += Number(v.monto || 0);
+    if (!rec.name && v.prodName) rec.name = v.prodName;
+    acc[code] = rec;
+  }
+  return Object.keys(acc).map((sn) => {
+    const a = acc[sn];
+    return {
+      sn,
+      name: a.name,
+      totalKilos: a.kilos / months, // promedio mensual
+      priceVentaKg: a.kilos > 0 ? a.revenue / a.kilos : 0, // CLP/kg global del período
+      total: a.revenue / months, // promedio mensual
+    };
+  }).sort((x, y) => y.total - x.total).slice(0, limit);
+}
@@ -0,0 +1,97 @@
+import type { Metric } from "./metrics";
+
+// ==============================
+// Resumen de cartera (agregados sobre las métricas filtradas)
+// ==============================
+
+export type RelBucket = { id: string; label: string; count: number; mensual: number };
+
+export type ExposureGroup = { name: string; clientes: number; mensual: number; restante: number; ventasProm: number; relacion: number; sobreUmbral: number };
+
+export type PortfolioSummary = {
+  clientes: number;
+  equipos: number;
+  totalMensual: number; // suma de comodatoMensualVigente
+  totalRestante: number; // suma de comodatoRestanteTotal
+  totalVentasProm: number;
+  relacionCartera: number; // totalMensual / totalVentasProm
+  sobreUmbral: number;
+  mensualSobreUmbral: number;
+  buckets: RelBucket[];
+  peores: Metric[];
+  porEjecutivo: ExposureGroup[]; // vacío si las hojas no traen ejecutivo
+  porRegion: ExposureGroup[];
+};
+
+// Sin ventas en la ventana la relación queda en 0: se cuenta aparte para que no parezca sana
+export const sinVentas = (m: Metric) => m.ventasVentanaProm <= 0 && m.comodatoMensualVigente > 0;
+
+// Tramos relativos al umbral (relMax)
+function bucketOf(m: Metric, relMax: number): string {
+  if (sinVentas(m)) return "sin-ventas";
+  const r = relMax > 0 ? m.relacion / relMax : 0;
+  return r <= 0.5 ? "b50" : r <= 1 ? "b100" : r <= 1.5 ? "b150" : "bmas";
+}
+
+const BUCKET_LABELS: [string, (relMax: number) => string][] = [
+  ["b50", (u) => `≤ ${Math.round(u * 50)}% (mitad del umbral)`],
+  ["b100", (u) => `${Math.round(u * 50)}–${Math.round(u * 100)}% (bajo umbral)`],
+  ["b150", (u) => `${Math.round(u * 100)}–${Math.round(u * 150)}% (sobre umbral)`],
+  ["bmas", (u) => `> ${Math.round(u * 150)}% (crítico)`],
+  ["sin-ventas", () => "Con comodato y sin ventas"],
+];
+
+export const isOverThreshold = (m: Metric, relMax: number) => sinVentas(m) || m.relacion > relMax;
+
+function groupBy(metrics: Metric[], relMax: number, pick: (m: Metric) => string | undefined): ExposureGroup[] {
+  if (!metrics.some((m) => pick(m))) return [];
+  const map = new Map<string, ExposureGroup>();
+  metrics.forEach((m) => {
+    const name = pick(m) || "(sin asignar)";
+    const g = map.get(name) || { name, clientes: 0, mensual: 0, restante: 0, ventasProm: 0, relacion: 0, sobreUmbral: 0 };
+    g.clientes += 1;
+    g.mensual += m.comodatoMensualVigente;
+    g.restante += m.comodatoRestanteTotal;
+    g.ventasProm += m.ventasVentanaProm;
+    if (isOverThreshold(m, relMax)) g.sobreUmbral += 1;
+    map.set(name, g);
+  });
+  const out = Array.from(map.values());
+  out.forEach((g) => { g.relacion = g.ventasProm > 0 ? g.mensual / g.ventasProm : 0; });
+  return out.sort((a, b) => b.mensual - a.mensual);
+}
+
+export function computePortfolio(metrics: Metric[], relMax: number, topN = 10): PortfolioSummary {
+  const counts = new Map<string, RelBucket>();
+  BUCKET_LABELS.forEach(([id, label]) => counts.set(id, { id, label: label(relMax), count: 0, mensual: 0 }));
+  let totalMensual = 0, totalRestante = 0, totalVentasProm = 0, equipos = 0, sobreUmbral = 0, mensualSobreUmbral = 0;
+  metrics.forEach((m) => {
+    totalMensual += m.comodatoMensualVigente;
+    totalRestante += m.comodatoRestanteTotal;
+    totalVentasProm += m.ventasVentanaProm;
+    equipos += m.equiposVigentes;
+    if (isOverThreshold(m, relMax)) { sobreUmbral += 1; mensualSobreUmbral += m.comodatoMensualVigente; }
+    const b = counts.get(bucketOf(m, relMax))!;
+    b.count += 1;
+    b.mensual += m.comodatoMensualVigente;
+  });
+  // Peores: primero los sin ventas (relación indefinida), luego por relación descendente
+  const peores = metrics
+    .filter((m) => isOverThreshold(m, relMax) || m.relacion > 0)
+    .sort((a, b) => (Number(sinVentas(b)) - Number(sinVentas(a))) || (b.relacion - a.relacion) || (b.comodatoMensualVigente - a.comodatoMensualVigente))
+    .slice(0, topN);
+  return {
+    clientes: metrics.length,
+    equipos,
+    totalMensual,
+    totalRestante,
+    totalVentasProm,
+    relacionCartera: totalVentasProm > 0 ? totalMensual / totalVentasProm : 0,
+    sobreUmbral,
+    mensualSobreUmbral,
+    buckets: Array.from(counts.values()),
+    peores,
+    porEjecutivo: groupBy(metrics, relMax, (m) => m.ejecutivo),
+    porRegion: groupBy(metrics, relMax, (m) => m.region),
+  };
+}
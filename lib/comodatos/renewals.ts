@@ -0,0 +1,60 @@
+import { tryParseDate } from "@/lib/dates";
+import type { EquipoDetalle, Metric } from "./metrics";
+
+// ==============================
+// Pipeline de renovaciones: contratos por vencer y vencidos aún presentes en la hoja
+// ==============================
+
+export type RenewalStage = "30" | "60" | "90" | "vencido";
+
+export const RENEWAL_STAGES: RenewalStage[] = ["vencido", "30", "60", "90"];
+
+export const RENEWAL_STAGE_LABELS: Record<RenewalStage, string> = {
+  vencido: "Vencido (aún en hoja)",
+  "30": "Vence en ≤ 30 días",
+  "60": "Vence en 31–60 días",
+  "90": "Vence en 61–90 días",
+};
+
+export type RenewalItem = { equipo: EquipoDetalle; dias: number; stage: RenewalStage }; // dias < 0 = vencido hace |dias|
+
+export type RenewalGroup = {
+  metric: Metric; // relación y ventas actuales del cliente
+  items: RenewalItem[];
+  mensualEnRiesgo: number; // cuota mensual de los equipos del pipeline
+};
+
+const DAY_MS = 86400000;
+
+function stageOf(dias: number): RenewalStage | null {
+  if (dias < 0) return "vencido";
+  if (dias <= 30) return "30";
+  if (dias <= 60) return "60";
+  if (dias <= 90) return "90";
+  return null;
+}
+
+// Los contratos sintéticos del modo salida no tienen término real y se omiten
+export function computeRenewals(metrics: Metric[], asOf: Date): RenewalGroup[] {
+  const base = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  const out: RenewalGroup[] = [];
+  metrics.forEach((m) => {
+    const items: RenewalItem[] = [];
+    m.detalle.forEach((e) => {
+      if (e.isSalida) return;
+      const fin = tryParseDate(e.fechaFin); if (!fin) return;
+      const dias = Math.round((fin.getTime() - base.getTime()) / DAY_MS);
+      const stage = stageOf(dias);
+      if (stage) items.push({ equipo: e, dias, stage });
+    });
+    if (!items.length) return;
+    items.sort((a, b) => a.dias - b.dias);
+    out.push({
+      metric: m,
+      items,
+      mensualEnRiesgo: items.reduce((a, it) => a + (it.equipo.costoMensual || 0), 0),
+    });
+  });
+  // Primero los clientes con el vencimiento más próximo
+  return out.sort((a, b) => a.items[0].dias - b.items[0].dias);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { SchemaError } from "@/lib/schema";
+import { SIMULATIONS_VERSION, parseSimulationsJSON, simulationsToJSON, upgradeScenarioStore } from "./scenarioSchema";
+
+// Simulación comodatos-sim-v1 (sin versión): el valor unitario venía en "costoTotal"
+const V1_SCENARIO = {
+  id: "esc-1",
+  name: "Cambio de horno",
+  rows: [
+    { code: "EQ", name: "Horno", qty: 2, meses: 24, costoTotal: 144000 },
+    { code: "VT", name: "Vitrina", qty: 1, meses: 0, costoTotal: 90000, valorUnit: 95000, costoMensual: 4000 },
+  ],
+  retirados: ["SN-9|2023-01-10"],
+  ventasProyectadas: 500000,
+};
+
+describe("parseSimulationsJSON", () => {
+  it("migra una lista v1: costoTotal pasa a valorUnit y manda valorUnit si vienen ambos", () => {
+    const [sc] = parseSimulationsJSON([V1_SCENARIO]);
+    expect(sc.rows).toEqual([
+      { code: "EQ", name: "Horno", qty: 2, meses: 24, valorUnit: 144000 },
+      { code: "VT", name: "Vitrina", qty: 1, meses: 0, valorUnit: 95000, costoMensual: 4000 },
+    ]);
+    expect(sc.retirados).toEqual(["SN-9|2023-01-10"]);
+    expect(sc.ventasProyectadas).toBe(500000);
+  });
+
+  it("acepta un escenario v1 suelto y le asigna id si no trae", () => {
+    const { id, ...noId } = V1_SCENARIO;
+    const [sc] = parseSimulationsJSON(noId);
+    expect(sc.id).toMatch(/^esc-/);
+    expect(sc.id).not.toBe(id);
+    expect(sc.rows[0].valorUnit).toBe(144000);
+  });
+
+  it("lee de vuelta lo que exporta (v2)", () => {
+    const scenarios = parseSimulationsJSON([V1_SCENARIO]);
+    const json = JSON.parse(simulationsToJSON(scenarios));
+    expect(json.version).toBe(SIMULATIONS_VERSION);
+    expect(parseSimulationsJSON(json)).toEqual(scenarios);
+  });
+
+  it("rechaza otra versión y junta los problemas con la ruta del campo", () => {
+    expect(() => parseSimulationsJSON({ version: "comodatos-sim-v9", scenarios: [] })).toThrow("Versión no soportada");
+    try {
+      parseSimulationsJSON([{ name: "Malo", rows: [{ code: "EQ", qty: -1, valorUnit: "caro" }], retirados: "todos" }]);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(SchemaError);
+      expect((e as SchemaError).issues).toEqual([
+        "scenarios[0].rows[0].qty debe ser mayor o igual a 0 (se recibió -1)",
+        'scenarios[0].rows[0].valorUnit debe ser un número (se recibió "caro")',
+        "scenarios[0].retirados debe ser una lista",
+      ]);
+    }
+    expect(() => parseSimulationsJSON(42)).toThrow("scenarios debe ser una lista");
+  });
+});
+
+describe("upgradeScenarioStore", () => {
+  it("migra lo guardado en el navegador y descarta solo lo que no son escenarios", () => {
+    const store = upgradeScenarioStore({ "RUT:76123456-0": [V1_SCENARIO, "basura", null], "SN:X": "no es lista" });
+    expect(Object.keys(store)).toEqual(["RUT:76123456-0"]);
+    expect(store["RUT:76123456-0"]).toHaveLength(1);
+    expect(store["RUT:76123456-0"][0].rows[0]).not.toHaveProperty("costoTotal");
+    expect(store["RUT:76123456-0"][0].rows[0].valorUnit).toBe(144000);
+    expect(upgradeScenarioStore(null)).toEqual({});
+  });
+});
@@ -0,0 +1,76 @@
+import { SchemaError, isObject, readList, readNumber, readObject, readString, type Issues } from "@/lib/schema";
+import { newScenarioId, type Scenario, type ScenarioStore } from "./scenarios";
+import type { SolicitudRow } from "./types";
+
+// ==============================
+// Formato de las simulaciones guardadas (localStorage "comodatos.scenarios") y del JSON exportado.
+//   comodatos-sim-v1  sin versión: filas con "costoTotal" (valor unitario del equipo, nombre antiguo)
+//   comodatos-sim-v2  vigente: el valor unitario va en "valorUnit"
+// ==============================
+
+export const SIMULATIONS_VERSION = "comodatos-sim-v2";
+
+// v1 → v2: costoTotal pasa a valorUnit (si ambos existen, manda valorUnit)
+function migrateRow(r: unknown): unknown {
+  if (!isObject(r) || !("costoTotal" in r)) return r;
+  const { costoTotal, ...rest } = r;
+  return { ...rest, valorUnit: rest.valorUnit ?? costoTotal };
+}
+
+function readRow(issues: Issues, x: unknown, p: string): SolicitudRow {
+  const [o, is] = readObject(issues, p, x);
+  const row: SolicitudRow = {
+    code: readString(is, `${p}.code`, o.code),
+    name: readString(is, `${p}.name`, o.name ?? ""),
+    qty: readNumber(is, `${p}.qty`, o.qty, { min: 0 }),
+    meses: readNumber(is, `${p}.meses`, o.meses ?? 0, { min: 0 }), // 0 = meses de contrato por defecto
+  };
+  const valorUnit = readNumber(is, `${p}.valorUnit`, o.valorUnit, { optional: true, min: 0 });
+  const costoMensual = readNumber(is, `${p}.costoMensual`, o.costoMensual, { optional: true, min: 0 });
+  if (valorUnit !== undefined) row.valorUnit = valorUnit;
+  if (costoMensual !== undefined) row.costoMensual = costoMensual;
+  return row;
+}
+
+function readScenario(issues: Issues, x: unknown, p: string): Scenario {
+  const [o, is] = readObject(issues, p, x);
+  const sc: Scenario = {
+    id: readString(is, `${p}.id`, o.id, { optional: true }) || newScenarioId(),
+    name: readString(is, `${p}.name`, o.name),
+    rows: readList(is, `${p}.rows`, o.rows ?? [], (r, rp) => readRow(is, migrateRow(r), rp)),
+    retirados: readList(is, `${p}.retirados`, o.retirados ?? [], (r, rp) => readString(is, rp, r)),
+  };
+  const ventas = readNumber(is, `${p}.ventasProyectadas`, o.ventasProyectadas, { optional: true, min: 0 });
+  if (ventas !== undefined) sc.ventasProyectadas = ventas;
+  return sc;
+}
+
+// Archivo importado: { version, scenarios } (v2) o una lista / un escenario suelto (v1)
+export function parseSimulationsJSON(j: unknown): Scenario[] {
+  let list: unknown = j;
+  if (isObject(j) && "version" in j) {
+    if (j.version !== SIMULATIONS_VERSION) throw new SchemaError([`Versión no soportada: ${JSON.stringify(j.version)} (se espera ${SIMULATIONS_VERSION})`]);
+    list = j.scenarios;
+  } else if (isObject(j)) {
+    list = [j];
+  }
+  const issues: Issues = [];
+  const out = readList(issues, "scenarios", list, (x, p) => readScenario(issues, x, p));
+  if (issues.length) throw new SchemaError(issues);
+  return out;
+}
+
+export function simulationsToJSON(scenarios: Scenario[]): string {
+  return JSON.stringify({ version: SIMULATIONS_VERSION, scenarios }, null, 2);
+}
+
+// Lo guardado en el navegador se migra sin rechazarlo: se descartan solo las entradas que no son escenarios
+export function upgradeScenarioStore(raw: unknown): ScenarioStore {
+  if (!isObject(raw)) return {};
+  const out: ScenarioStore = {};
+  Object.keys(raw).forEach((k) => {
+    if (!Array.isArray(raw[k])) return;
+    out[k] = raw[k].filter(isObject).map((x: unknown, i: number) => readScenario([], x, `${k}[${i}]`));
+  });
+  return out;
+}
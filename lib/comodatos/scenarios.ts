@@ -0,0 +1,61 @@
+import type { EquipoDetalle, Metric } from "./metrics";
+import type { SolicitudRow } from "./types";
+
+// ==============================
+// Escenarios what-if por cliente (equipos nuevos, retiros y ventas proyectadas)
+// ==============================
+
+export type Scenario = {
+  id: string;
+  name: string;
+  rows: SolicitudRow[]; // equipos nuevos a instalar
+  retirados: string[]; // equipos vigentes que se retiran (ver equipoId)
+  ventasProyectadas?: number; // promedio mensual esperado; vacío = promedio actual
+};
+
+// Escenarios guardados por cliente: la clave incluye el tipo (RUT/SN) para no mezclar agrupaciones
+export type ScenarioStore = Record<string, Scenario[]>;
+
+export const scenarioClientKey = (keyType: string, key: string) => `${keyType}:${key}`;
+
+export const newScenarioId = () => `esc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const blankScenario = (name: string, id = newScenarioId()): Scenario => ({ id, name, rows: [], retirados: [] });
+
+// Un SN puede repetirse en la hoja (reinstalaciones), por eso se combina con la fecha de instalación
+export const equipoId = (e: EquipoDetalle) => `${e.sn || ""}|${e.fechaInst}`;
+
+// Cuota mensual de una línea: (valor equipo × cantidad / meses), salvo "$ mensual" manual × cantidad
+export function solicitudMensual(r: SolicitudRow, contractMonthsDefault: number) {
+  const qty = Math.max(1, Number(r.qty || 1));
+  const meses = Math.max(1, Number(r.meses || contractMonthsDefault));
+  const unit = Number(r.valorUnit ?? 0);
+  const totalEquip = unit * qty;
+  const mensual = r.costoMensual !== undefined && r.costoMensual !== null && r.costoMensual !== 0
+    ? Number(r.costoMensual) * qty
+    : (meses > 0 ? totalEquip / meses : 0);
+  return { totalEquip, mensual: mensual || 0 };
+}
+
+export type ScenarioResult = {
+  cuotaSim: number; // equipos nuevos
+  cuotaRetirada: number; // equipos vigentes retirados
+  cuotaNueva: number; // vigente − retirada + simulada
+  ventasProm: number;
+  relacionNueva: number;
+  viable: boolean;
+};
+
+export function evaluateScenario(metric: Metric, sc: Scenario, contractMonthsDefault: number, relMax: number): ScenarioResult {
+  const cuotaSim = sc.rows.reduce((a, r) => a + solicitudMensual(r, contractMonthsDefault).mensual, 0);
+  const retirados = new Set(sc.retirados);
+  const cuotaRetirada = metric.detalle
+    .filter((e) => e.mesesRestantes > 0 && retirados.has(equipoId(e)))
+    .reduce((a, e) => a + (e.costoMensual || 0), 0);
+  const cuotaNueva = Math.max(0, (metric.comodatoMensualVigente || 0) - cuotaRetirada + cuotaSim);
+  const ventasProm = sc.ventasProyectadas !== undefined ? Math.max(0, sc.ventasProyectadas) : metric.ventasVentanaProm;
+  const relacionNueva = ventasProm > 0 ? cuotaNueva / ventasProm : 0;
+  // Sin ventas solo es viable si no queda cuota
+  const viable = ventasProm > 0 ? relacionNueva <= relMax : cuotaNueva <= 0;
+  return { cuotaSim, cuotaRetirada, cuotaNueva, ventasProm, relacionNueva, viable };
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_ACTIVE_PROFILES, DEFAULT_PROFILES, type ActiveProfiles, type MappingProfile } from "./mapping";
+import { DEFAULT_WINDOWS, normalizeAvgMode, normalizeWindows, type AnalysisWindows, type AvgMode } from "./windows";
+
+// ==============================
+// Configuración persistida del módulo de comodatos (compartida con /negocio)
+// ==============================
+
+// Tus hojas (Google Sheets nativos)
+export const DEFAULT_VENTAS_URL = "https://docs.google.com/spreadsheets/d/1ptMOxf5TNzv-cPnQ6j1Mp_-NYQX9QliS/edit#gid=871602912";
+export const DEFAULT_COMODATOS_URL = "https://docs.google.com/spreadsheets/d/1ptMOxf5TNzv-cPnQ6j1Mp_-NYQX9QliS/edit#gid=551810728";
+
+// Claves de localStorage que escribe /comodatos
+export const COMODATOS_STORAGE = {
+  ventasUrl: "comodatos.ventasUrl",
+  comodatosUrl: "comodatos.comodatosUrl",
+  contractMonths: "comodatos.contractMonths",
+  avgMode: "comodatos.avgMode",
+  windows: "comodatos.windows",
+  mappingProfiles: "comodatos.mappingProfiles",
+  mappingActive: "comodatos.mappingActive",
+} as const;
+
+export type ComodatosSettings = {
+  ventasUrl: string;
+  comodatosUrl: string;
+  contractMonthsDefault: number;
+  avgMode: AvgMode;
+  windows: AnalysisWindows;
+  mappingProfiles: MappingProfile[];
+  activeProfiles: ActiveProfiles;
+};
+
+function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function readComodatosSettings(): ComodatosSettings {
+  const profiles = readJSON<MappingProfile[]>(COMODATOS_STORAGE.mappingProfiles, DEFAULT_PROFILES);
+  return {
+    ventasUrl: readJSON(COMODATOS_STORAGE.ventasUrl, DEFAULT_VENTAS_URL) || DEFAULT_VENTAS_URL,
+    comodatosUrl: readJSON(COMODATOS_STORAGE.comodatosUrl, DEFAULT_COMODATOS_URL) || DEFAULT_COMODATOS_URL,
+    contractMonthsDefault: Number(readJSON(COMODATOS_STORAGE.contractMonths, 24)) || 24,
+    avgMode: normalizeAvgMode(readJSON(COMODATOS_STORAGE.avgMode, "salesMonths")),
+    windows: normalizeWindows(readJSON(COMODATOS_STORAGE.windows, DEFAULT_WINDOWS)),
+    mappingProfiles: Array.isArray(profiles) && profiles.length ? profiles : DEFAULT_PROFILES,
+    activeProfiles: readJSON<ActiveProfiles>(COMODATOS_STORAGE.mappingActive, DEFAULT_ACTIVE_PROFILES),
+  };
+}
@@ -0,0 +1,68 @@
+import { tryParseDate } from "@/lib/dates";
+import type { KeyType } from "./metrics";
+import type { ComodatoRow, VentasRow } from "./types";
+
+// ==============================
+// Serie mensual por cliente: ventas vs costo de comodato
+// ==============================
+
+export type TimelinePoint = {
+  ym: string; // aaaa-mm
+  label: string; // "may-25"
+  ventas: number;
+  comodato: number; // suma de cuotas mensuales de los equipos con contrato activo ese mes
+  equipos: number;
+  relacion: number | null; // comodato / ventas; null si no hubo ventas
+};
+
+export type TimelineOptions = {
+  keyType: KeyType;
+  key: string;
+  asOf: Date;
+  months: number;
+  contractMonthsDefault: number;
+};
+
+const MES_CORTO = ["ene", "feb", "mar", "abr", "may", "jun", "jul", "ago", "sep", "oct", "nov", "dic"];
+
+const ymOf = (y: number, m: number) => `${y}-${String(m + 1).padStart(2, "0")}`;
+const monthIndex = (d: Date) => d.getFullYear() * 12 + d.getMonth();
+
+// Meses calendario desde (asOf - months + 1) hasta el mes de asOf, ambos inclusive
+export function computeTimeline(ventasRows: VentasRow[], comodatosRows: ComodatoRow[], opts: TimelineOptions): TimelinePoint[] {
+  const { keyType, key, asOf, months, contractMonthsDefault } = opts;
+  const last = monthIndex(asOf);
+  const first = last - Math.max(1, months) + 1;
+  const points: TimelinePoint[] = [];
+  for (let i = first; i <= last; i++) {
+    const y = Math.floor(i / 12), m = i % 12;
+    points.push({ ym: ymOf(y, m), label: `${MES_CORTO[m]}-${String(y).slice(-2)}`, ventas: 0, comodato: 0, equipos: 0, relacion: null });
+  }
+  const matches = (r: { rut: string; sn?: string }) => (keyType === "RUT" ? r.rut : (r.sn || "")).trim() === key;
+
+  for (let i = 0; i < ventasRows.length; i++) {
+    const v = ventasRows[i];
+    if (!matches(v)) continue;
+    const d = tryParseDate(v.fecha); if (!d || d > asOf) continue;
+    const idx = monthIndex(d) - first;
+    if (idx >= 0 && idx < points.length) points[idx].ventas += v.monto || 0;
+  }
+
+  // Cada equipo suma su cuota en los meses de su contrato (mes de instalación + meses_contrato - 1)
+  for (let i = 0; i < comodatosRows.length; i++) {
+    const c = comodatosRows[i];
+    if (!matches(c)) continue;
+    const fi = tryParseDate(c.fecha_instalacion); if (!fi || fi > asOf) continue;
+    const mesesBase = c.meses_contrato && c.meses_contrato > 0 ? c.meses_contrato : contractMonthsDefault || 1;
+    const costoMensual = c.costo_mensual !== undefined ? (c.costo_mensual || 0) : ((c.costo_total || 0) / mesesBase);
+    const start = Math.max(monthIndex(fi), first);
+    const end = Math.min(monthIndex(fi) + mesesBase - 1, last);
+    for (let k = start; k <= end; k++) {
+      points[k - first].comodato += costoMensual;
+      points[k - first].equipos += 1;
+    }
+  }
+
+  points.forEach((p) => { p.relacion = p.ventas > 0 ? p.comodato / p.ventas : null; });
+  return points;
+}
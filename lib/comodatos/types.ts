@@ -0,0 +1,52 @@
+// ==============================
+// Tipos base del módulo de comodatos
+// ==============================
+
+export type VentasRow = {
+  rut: string; // forma canónica (ver lib/rut) o el texto original si el RUT es inválido
+  rutInvalido?: boolean;
+  sn?: string; // ItemCode o SN
+  fecha: string; // ISO yyyy-mm-dd
+  monto: number; // total de la línea (CLP)
+  qty?: number; // unidades
+  kilos?: number; // kg de la línea (si existe en hoja)
+  priceLine?: number; // total línea usado para precio/kg
+  cliente?: string;
+  prodName?: string;
+  ejecutivo?: string;
+  region?: string;
+};
+
+export type ComodatoRow = {
+  rut: string;
+  rutInvalido?: boolean;
+  sn?: string;
+  fecha_instalacion: string;
+  meses_contrato: number;
+  costo_total?: number;
+  costo_mensual?: number;
+  cliente?: string;
+  ejecutivo?: string;
+  region?: string;
+  isSalida?: boolean;
+  entregadoHistPair?: number;
+};
+
+// Catálogo para evaluación en vivo
+export type CatalogItem = {
+  code: string;
+  name: string;
+  precio?: number; // precio unitario del equipo (o lista)
+  costo_mensual?: number; // costo mensual sugerido (si existiera)
+  costo_total?: number;
+};
+
+// Nuevos equipos solicitados (evaluación)
+export type SolicitudRow = {
+  code: string;
+  name: string;
+  qty: number;
+  meses: number;
+  valorUnit?: number;      // $ del equipo unitario (ingresado o venido de catálogo)
+  costoMensual?: number;   // opcional: si se quiere forzar mensual (override)
+};
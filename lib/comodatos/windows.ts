@@ -0,0 +1,84 @@
+// ==============================
+// Ventanas de análisis y modos de promedio
+// ==============================
+
+export type AnalysisWindows = {
+  salesMonths: number; // ventana móvil para el promedio mensual de ventas (antes 6)
+  historyMonths: number; // ventana histórica de ventas / entregado / comodatos salida (antes 24)
+  salidaAvgMonths: number; // meses para el costo mensual en modo "Comodatos Salida" (antes 3)
+  topProdMonths: number; // meses del Top de productos (antes 6)
+};
+
+export const DEFAULT_WINDOWS: AnalysisWindows = { salesMonths: 6, historyMonths: 24, salidaAvgMonths: 3, topProdMonths: 6 };
+
+export const WINDOW_LIMITS: Record<keyof AnalysisWindows, { min: number; max: number; label: string }> = {
+  salesMonths: { min: 1, max: 36, label: "Ventana ventas (meses)" },
+  historyMonths: { min: 1, max: 60, label: "Ventana histórica (meses)" },
+  salidaAvgMonths: { min: 1, max: 12, label: "Promedio salida (meses)" },
+  topProdMonths: { min: 1, max: 36, label: "Top productos (meses)" },
+};
+
+// Completa y acota lo guardado en localStorage (versiones previas o valores a mano)
+export function normalizeWindows(w: Partial<AnalysisWindows> | null | undefined): AnalysisWindows {
+  const out = { ...DEFAULT_WINDOWS };
+  (Object.keys(WINDOW_LIMITS) as (keyof AnalysisWindows)[]).forEach((k) => {
+    const v = Math.round(Number(w?.[k]));
+    if (isFinite(v) && v > 0) out[k] = Math.min(WINDOW_LIMITS[k].max, Math.max(WINDOW_LIMITS[k].min, v));
+  });
+  return out;
+}
+
+// salesMonths: total / meses con venta · calendar: total / meses de la ventana (incluye meses sin venta)
+// weighted: meses recientes pesan más (pesos N..1) · median: mediana de los meses de la ventana
+export type AvgMode = "salesMonths" | "calendar" | "weighted" | "median";
+
+export const AVG_MODES: AvgMode[] = ["salesMonths", "calendar", "weighted", "median"];
+
+export const AVG_MODE_LABELS: Record<AvgMode, string> = {
+  salesMonths: "Meses con venta",
+  calendar: "Meses calendario",
+  weighted: "Ponderado (recientes pesan más)",
+  median: "Mediana mensual",
+};
+
+// "calendar6" era el nombre guardado antes de que la ventana fuera configurable
+export function normalizeAvgMode(v: any): AvgMode {
+  if (v === "calendar6") return "calendar";
+  return AVG_MODES.includes(v) ? v : "salesMonths";
+}
+
+// Inicio de la ventana móvil de `months` meses hasta `asOf` (mismo día del mes)
+export const rollingStart = (asOf: Date, months: number) => new Date(asOf.getFullYear(), asOf.getMonth() - months, asOf.getDate());
+
+// Inicio de la ventana histórica: primer día del mes, `months` meses atrás
+export const monthStart = (asOf: Date, months: number) => new Date(asOf.getFullYear(), asOf.getMonth() - months, 1);
+
+// Índice del mes dentro de la ventana: 0 = mes de corte, n-1 = el más antiguo (el mes parcial inicial se suma a este)
+export function monthBucket(d: Date, asOf: Date, months: number): number {
+  const diff = (asOf.getFullYear() - d.getFullYear()) * 12 + (asOf.getMonth() - d.getMonth());
+  return Math.min(Math.max(0, diff), Math.max(1, months) - 1);
+}
+
+// buckets[i] = venta del mes i (0 = más reciente), con ceros para meses sin venta
+export function monthlyAverage(buckets: number[], mode: AvgMode): number {
+  const n = buckets.length;
+  if (!n) return 0;
+  const total = buckets.reduce((a, b) => a + b, 0);
+  switch (mode) {
+    case "salesMonths": {
+      const withSales = buckets.filter((b) => b !== 0).length;
+      return withSales ? total / withSales : 0;
+    }
+    case "calendar":
+      return total / n;
+    case "weighted": {
+      let num = 0, den = 0;
+      buckets.forEach((b, i) => { const w = n - i; num += b * w; den += w; });
+      return den ? num / den : 0;
+    }
+    case "median": {
+      const s = [...buckets].sort((a, b) => a - b);
+      return n % 2 ? s[(n - 1) / 2] : (s[n / 2 - 1] + s[n / 2]) / 2;
+    }
+  }
+}
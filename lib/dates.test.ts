@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseDate, toISODate } from "./dates";
+
+const iso = (v: unknown, format?: Parameters<typeof parseDate>[1]) => {
+  const d = parseDate(v, format).date;
+  return d ? toISODate(d) : null;
+};
+
+describe("parseDate", () => {
+  it("lee celdas numéricas de XLSX como serie de Excel con cualquier formato declarado", () => {
+    expect(iso(45750, "auto")).toBe("2025-04-03");
+    expect(iso(45750, "dmy")).toBe("2025-04-03");
+    expect(iso(45750, "mdy")).toBe("2025-04-03");
+    expect(iso(45750, "ymd")).toBe("2025-04-03");
+    expect(iso(45750, "excel")).toBe("2025-04-03");
+  });
+
+  it("aplica el formato declarado solo al texto", () => {
+    expect(iso("03/04/2025", "dmy")).toBe("2025-04-03");
+    expect(iso("03/04/2025", "mdy")).toBe("2025-03-04");
+    expect(iso("45750", "dmy")).toBeNull();
+    expect(iso("45750", "excel")).toBe("2025-04-03");
+  });
+
+  it("en automático no toma un año suelto como serie de Excel", () => {
+    expect(iso("2025")).toBeNull();
+    expect(parseDate("45750").guessed).toBe("número leído como serie de Excel");
+  });
+
+  it("avisa cuando dd/mm es ambiguo", () => {
+    expect(iso("03/04/2025")).toBe("2025-04-03");
+    expect(parseDate("03/04/2025").guessed).toContain("ambigua");
+    expect(iso("13/04/2025")).toBe("2025-04-13");
+  });
+});
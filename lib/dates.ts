@@ -0,0 +1,132 @@
+// ==============================
+// Fechas
+// ==============================
+
+// Formato declarado para las fechas de una hoja:
+// dmy: 03/04/2025 = 3 de abril (Chile) · mdy: 03/04/2025 = 4 de marzo · ymd: 2025-04-03
+// excel: número de serie de Excel/Sheets · auto: detecta y avisa cuando el valor es ambiguo
+export type DateFormat = "auto" | "dmy" | "mdy" | "ymd" | "excel";
+
+export const DATE_FORMATS: DateFormat[] = ["auto", "dmy", "mdy", "ymd", "excel"];
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  auto: "Automático (dd/mm si es ambiguo)",
+  dmy: "dd/mm/aaaa",
+  mdy: "mm/dd/aaaa",
+  ymd: "aaaa-mm-dd",
+  excel: "Serie de Excel",
+};
+
+// `guessed` describe cuándo la fecha no vino en un formato inequívoco
+export type DateParse = { date: Date | null; guessed?: string };
+
+// Día 0 de la serie de Excel (incluye el 29/02/1900 ficticio de Lotus)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Fecha local (sin hora) → evita que "2025-04-03" se lea como medianoche UTC y caiga el día anterior en Chile
+function localDate(y: number, m: number, d: number): Date | null {
+  const out = new Date(y, m - 1, d);
+  return out.getFullYear() === y && out.getMonth() === m - 1 && out.getDate() === d ? out : null;
+}
+
+export function fromExcelSerial(serial: number): Date | null {
+  if (!isFinite(serial) || serial < 1 || serial > 2958465) return null;
+  const utc = new Date(EXCEL_EPOCH + Math.floor(serial) * 86400000);
+  return localDate(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate());
+}
+
+// Años de 2 dígitos: hasta 10 años en el futuro → 20xx; el resto → 19xx
+function expandYear(yy: string): { year: number; guessed?: string } {
+  if (yy.length !== 2) return { year: parseInt(yy, 10) };
+  const n = parseInt(yy, 10);
+  const pivot = (new Date().getFullYear() % 100) + 10;
+  const year = n <= pivot ? 2000 + n : 1900 + n;
+  return { year, guessed: `año de 2 dígitos leído como ${year}` };
+}
+
+export function parseDate(s: any, format: DateFormat = "auto"): DateParse {
+  if (s === undefined || s === null || s === "") return { date: null };
+  if (s instanceof Date) return { date: isNaN(+s) ? null : s };
+
+  // Número: serie de Excel (XLSX sin cellDates), con cualquier formato declarado; el formato solo rige para texto
+  if (typeof s === "number") return { date: fromExcelSerial(s) };
+
+  const t = String(s).trim();
+  if (!t) return { date: null };
+
+  // GViz: "Date(2025,3,3)" o "Date(2025,3,3,10,0,0)" (mes base 0)
+  const gv = t.match(/^Date\((\d{4}),\s*(\d{1,2}),\s*(\d{1,2})/);
+  if (gv) return { date: localDate(+gv[1], +gv[2] + 1, +gv[3]) };
+
+  // Serie de Excel en texto. En automático se exigen 5 dígitos (desde 1927), así "2025" no pasa por fecha
+  if (/^\d{1,6}(\.\d+)?$/.test(t)) {
+    if (format !== "excel" && !(format === "auto" && /^\d{5}/.test(t))) return { date: null };
+    const date = fromExcelSerial(Number(t));
+    return { date, guessed: date && format === "auto" ? "número leído como serie de Excel" : undefined };
+  }
+
+  // ISO aaaa-mm-dd (con o sin hora)
+  const iso = t.match(/^(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return { date: localDate(+iso[1], +iso[2], +iso[3]) };
+
+  // dd/mm/aaaa o mm/dd/aaaa (también con - o .)
+  const m = t.match(/^(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{2}|\d{4})(?:\s.*)?$/);
+  if (m) {
+    const a = +m[1], b = +m[2];
+    const { year, guessed: yearNote } = expandYear(m[3]);
+    const notes: string[] = [];
+    let dayFirst: boolean;
+    if (format === "dmy") dayFirst = true;
+    else if (format === "mdy") dayFirst = false;
+    else if (format === "auto") {
+      if (a > 12 && b <= 12) dayFirst = true;
+      else if (b > 12 && a <= 12) { dayFirst = false; notes.push("leída como mm/dd por el valor del día"); }
+      else { dayFirst = true; if (a !== b) notes.push("ambigua entre dd/mm y mm/dd; se asumió dd/mm"); }
+    } else return { date: null };
+    if (yearNote) notes.push(yearNote);
+    const date = dayFirst ? localDate(year, b, a) : localDate(year, a, b);
+    return { date, guessed: date && notes.length ? notes.join("; ") : undefined };
+  }
+
+  return { date: null };
+}
+
+export function tryParseDate(s: any, format: DateFormat = "auto"): Date | null {
+  return parseDate(s, format).date;
+}
+
+// aaaa-mm-dd con la fecha local (toISOString usaría UTC)
+export function toISODate(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+const MESES = ["enero", "febrero", "marzo", "abril", "mayo", "junio", "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre"];
+
+// Primer día del mes a partir de Año + Periodo MES (número, fecha o texto) o de un Periodo en texto ("Mayo 2025", "2025-05", "05/2025")
+export function buildDateFromPeriodo(year: any, periodoMes: any, periodo?: any, format: DateFormat = "auto"): Date | null {
+  // Periodo MES que ya es una fecha completa (serie de Excel, GViz, dd/mm/aaaa)
+  if (typeof periodoMes === "number" && periodoMes > 31) {
+    const d = parseDate(periodoMes, format).date;
+    if (d) return new Date(d.getFullYear(), d.getMonth(), 1);
+  }
+  if (typeof periodoMes === "string" && /\D/.test(periodoMes.trim())) {
+    const d = parseDate(periodoMes, format).date;
+    if (d) return new Date(d.getFullYear(), d.getMonth(), 1);
+  }
+
+  let y = Number(String(year ?? "").match(/\d{4}/)?.[0] ?? NaN);
+  let m = Number(String(periodoMes ?? "").match(/\d{1,2}/)?.[0] ?? NaN);
+  if (isNaN(m) && periodo) {
+    const txt = String(periodo).trim().toLowerCase();
+    const ym = txt.match(/^(\d{4})[-\/.](\d{1,2})$/);
+    const my = txt.match(/^(\d{1,2})[-\/.](\d{4})$/);
+    if (ym) { if (isNaN(y)) y = +ym[1]; m = +ym[2]; }
+    else if (my) { if (isNaN(y)) y = +my[2]; m = +my[1]; }
+    else {
+      const idx = MESES.findIndex((x) => txt.includes(x)); if (idx >= 0) m = idx + 1;
+      if (isNaN(y)) y = Number(txt.match(/\d{4}/)?.[0] ?? NaN);
+    }
+  }
+  if (!isNaN(y) && !isNaN(m) && m >= 1 && m <= 12) return new Date(y, m - 1, 1);
+  return null;
+}
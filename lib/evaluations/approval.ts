@@ -0,0 +1,146 @@
+import { pct } from "@/lib/numbers";
+import { catalogItem, type Catalog } from "./catalog";
+import type { ComodatoLine, SaleLine } from "./types";
+
+// ==============================
+// Flujo de aprobación de evaluaciones
+// ==============================
+// borrador → enviada → aprobada | aprobada con excepción | rechazada.
+// Al enviar, si la evaluación cumple la política se aprueba sola; si no, queda esperando a un aprobador.
+
+export type ApprovalStatus = "draft" | "submitted" | "approved" | "approved-exception" | "rejected";
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  draft: "Borrador",
+  submitted: "Enviada a aprobación",
+  approved: "Aprobada",
+  "approved-exception": "Aprobada con excepción",
+  rejected: "Rechazada",
+};
+
+// Colores (hex) compartidos por la UI y los informes Word/PDF
+export const APPROVAL_STATUS_COLORS: Record<ApprovalStatus, string> = {
+  draft: "#71717a",
+  submitted: "#d97706",
+  approved: "#059669",
+  "approved-exception": "#7c3aed",
+  rejected: "#dc2626",
+};
+
+export type ApprovalAction = "submit" | "approve" | "reject" | "reopen";
+
+export type ApprovalEvent = {
+  status: ApprovalStatus;
+  by: string;
+  at: string; // ISO
+  justification?: string;
+};
+
+export type Approval = {
+  status: ApprovalStatus;
+  reasons: string[]; // motivos por los que requiere aprobación (calculados al enviar)
+  history: ApprovalEvent[]; // más antiguo primero
+};
+
+export type ApprovalPolicy = {
+  minMarginPct: number; // margen final mínimo (0..1)
+  maxDiscountPct: number; // descuento máximo por línea (0..1)
+};
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { minMarginPct: 0.5, maxDiscountPct: 0.1 };
+
+export const SYSTEM_APPROVER = "Automático";
+
+// Motivos para enviar a aprobación; vacío = cumple la política
+export function approvalReasons(data: { metrics?: { finalMarginPct?: number }; saleLines?: SaleLine[] }, policy: ApprovalPolicy): string[] {
+  const out: string[] = [];
+  const margin = Number(data.metrics?.finalMarginPct) || 0;
+  if (margin < policy.minMarginPct) out.push(`Margen final ${pct(margin)} bajo el mínimo de ${pct(policy.minMarginPct)}`);
+  (data.saleLines || []).forEach((l, i) => {
+    const d = Number(l.discountPct) || 0;
+    if (d > policy.maxDiscountPct) out.push(`Descuento de ${pct(d)} en ${l.code || `línea ${i + 1}`} supera el máximo de ${pct(policy.maxDiscountPct)}`);
+  });
+  return out;
+}
+
+// Motivos que solo ve el servidor: líneas de venta y equipos cuyo costo no sale de su catálogo (código que
+// no está o catálogo ilegible) usan lista y costo que mandó el navegador, así que no pueden aprobarse solas.
+// Las líneas con costo override no cuentan: ese campo ya está reservado a los roles con negocio.pricing.
+export function unverifiedCostReasons(data: { saleLines: SaleLine[]; comodatoLines: ComodatoLine[] }, catalog: Catalog | null): string[] {
+  const lines = data.saleLines.filter((l) => l.costOverride === undefined || l.costOverride === null);
+  if (!lines.length && !data.comodatoLines.length) return [];
+  if (!catalog) return ["No se pudo leer el catálogo del servidor: los costos de las líneas no están verificados"];
+  return [
+    ...data.saleLines.flatMap((l, i) =>
+      lines.includes(l) && !catalogItem(catalog, l.code) ? [`${l.code || `Línea ${i + 1}`} no está en el catálogo: su costo no está verificado`] : []
+    ),
+    ...data.comodatoLines.flatMap((l, i) =>
+      !catalogItem(catalog, l.code) ? [`Equipo ${l.code || i + 1} no está en el catálogo: su costo no está verificado`] : []
+    ),
+  ];
+}
+
+export const newApproval = (by: string, at = new Date().toISOString()): Approval => ({ status: "draft", reasons: [], history: [{ status: "draft", by, at }] });
+
+export class ApprovalTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalTransitionError";
+  }
+}
+
+// El rol (o quien no es dueño de la evaluación) no puede realizar la acción
+export class ApprovalForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalForbiddenError";
+  }
+}
+
+// Aplica una acción y devuelve el nuevo estado; lanza ApprovalTransitionError si no corresponde
+export function transitionApproval(
+  current: Approval,
+  action: ApprovalAction,
+  opts: { by: string; justification?: string; reasons: string[]; at?: string }
+): Approval {
+  const at = opts.at || new Date().toISOString();
+  const by = (opts.by || "").trim();
+  const justification = (opts.justification || "").trim() || undefined;
+  if (!by) throw new ApprovalTransitionError("Indica quién realiza la acción");
+  const push = (status: ApprovalStatus, ev: Partial<ApprovalEvent> = {}, reasons = current.reasons): Approval => ({
+    status,
+    reasons,
+    history: [...current.history, { status, by, at, ...(justification ? { justification } : {}), ...ev }],
+  });
+
+  switch (action) {
+    case "submit": {
+      if (current.status !== "draft" && current.status !== "rejected") throw new ApprovalTransitionError(`No se puede enviar una evaluación en estado "${APPROVAL_STATUS_LABELS[current.status]}"`);
+      const submitted = push("submitted", {}, opts.reasons);
+      if (opts.reasons.length) return submitted;
+      // Cumple la política: se aprueba sin intervención
+      return { ...submitted, status: "approved", history: [...submitted.history, { status: "approved", by: SYSTEM_APPROVER, at, justification: "Cumple la política de margen y descuentos" }] };
+    }
+    case "approve": {
+      if (current.status !== "submitted") throw new ApprovalTransitionError("Solo se pueden aprobar evaluaciones enviadas");
+      // Aprobar algo que incumple la política es una excepción y debe justificarse
+      if (current.reasons.length) {
+        if (!justification) throw new ApprovalTransitionError("La aprobación con excepción requiere justificación");
+        return push("approved-exception");
+      }
+      return push("approved");
+    }
+    case "reject": {
+      if (current.status !== "submitted") throw new ApprovalTransitionError("Solo se pueden rechazar evaluaciones enviadas");
+      if (!justification) throw new ApprovalTransitionError("El rechazo requiere justificación");
+      return push("rejected");
+    }
+    case "reopen": {
+      if (current.status === "draft") return current;
+      return push("draft", {}, []);
+    }
+  }
+}
+
+export const lastEvent = (a: Approval | undefined, status?: ApprovalStatus) =>
+  a ? [...a.history].reverse().find((e) => !status || e.status === status) : undefined;
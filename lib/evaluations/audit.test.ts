@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { SCENARIO_VERSION } from "./schema";
+import { diffEvaluations, formatChangeValue, keyLines } from "./audit";
+import type { EvaluationData } from "./types";
+
+const base: EvaluationData = {
+  version: SCENARIO_VERSION,
+  customerName: "Cliente",
+  viable: false,
+  metrics: { ventasTot: 0, comodatoTotal: 0, comodatoMensual: 0, relComVta: 0, finalMarginPct: 0, commissionFinalPct: 0 },
+  params: { commissionPct: 0.03, months: 24, usePriceListAsCost: true, commissionOnNet: true, includeExisting: false },
+  saleLines: [
+    { code: "A1", name: "Harina", priceList: 900, kilos: 25, qty: 10, sellPrice: 1000, discountPct: 0 },
+    { code: "a1", name: "Harina", priceList: 900, kilos: 25, qty: 2, sellPrice: 950, discountPct: 0 },
+  ],
+  comodatoLines: [{ code: "EQ", name: "Horno", priceList: 144000, qty: 1 }],
+  existingComodato: null,
+};
+
+describe("diffEvaluations", () => {
+  it("empareja líneas por código y orden de aparición, y no cuenta vacío contra ausente", () => {
+    expect(Array.from(keyLines(base.saleLines).keys())).toEqual(["A1", "A1#2"]);
+    const next: EvaluationData = {
+      ...base,
+      notes: "",
+      params: { ...base.params, months: 36 },
+      saleLines: [base.saleLines[0], { ...base.saleLines[1], discountPct: 0.05 }],
+      comodatoLines: [],
+    };
+    expect(diffEvaluations(base, next)).toEqual([
+      { field: "params.months", label: "Meses contrato", old: 24, new: 36, format: "number" },
+      { field: "saleLines.A1#2.discountPct", label: "Producto A1#2 · % descuento", old: 0, new: 0.05, format: "pct" },
+      { field: "comodatoLines.EQ", label: "Equipo EQ (quitado)", old: "1 × Horno a $144.000/mes", new: null, format: "text" },
+    ]);
+  });
+
+  it("una evaluación nueva informa todas sus líneas como agregadas", () => {
+    const changes = diffEvaluations(null, base).filter((c) => c.field.includes("Lines."));
+    expect(changes.map((c) => c.label)).toEqual(["Producto A1 (agregado)", "Producto A1#2 (agregado)", "Equipo EQ (agregado)"]);
+    expect(formatChangeValue(0.05, "pct")).toBe("5.0%");
+    expect(formatChangeValue(null, "money")).toBe("—");
+  });
+});
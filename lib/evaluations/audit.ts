@@ -0,0 +1,146 @@
+import type { ApprovalStatus } from "./approval";
+import type { ComodatoLine, EvaluationData, SaleLine } from "./types";
+
+// ==============================
+// Registro de cambios de una evaluación: diferencias campo a campo entre dos versiones guardadas
+// ==============================
+
+export type ChangeFormat = "text" | "money" | "pct" | "number" | "bool";
+
+export type FieldChange = {
+  field: string; // ruta estable, p. ej. "saleLines.ABC123.sellPrice"
+  label: string; // texto para mostrar
+  old: unknown; // null = no existía
+  new: unknown; // null = se quitó
+  format: ChangeFormat;
+};
+
+export type AuditAction = "create" | "update" | "approval";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Creación",
+  update: "Modificación",
+  approval: "Aprobación",
+};
+
+// Una línea del registro (append-only); version = versión de los datos después del cambio
+export type AuditEntry = {
+  version: number;
+  at: string; // ISO
+  by: string;
+  action: AuditAction;
+  changes: FieldChange[];
+  approvalStatus?: ApprovalStatus;
+  note?: string; // justificación u observación de la acción
+};
+
+type FieldDef<T> = { key: keyof T; label: string; format: ChangeFormat };
+
+const CLIENT_FIELDS: FieldDef<EvaluationData>[] = [
+  { key: "customerName", label: "Cliente", format: "text" },
+  { key: "clientRut", label: "RUT", format: "text" },
+  { key: "clientCity", label: "Ciudad", format: "text" },
+  { key: "executive", label: "Ejecutivo", format: "text" },
+  { key: "notes", label: "Observaciones", format: "text" },
+];
+
+const PARAM_FIELDS: FieldDef<EvaluationData["params"]>[] = [
+  { key: "commissionPct", label: "% Comisión base", format: "pct" },
+  { key: "months", label: "Meses contrato", format: "number" },
+  { key: "usePriceListAsCost", label: "Usar lista como costo", format: "bool" },
+  { key: "commissionOnNet", label: "Comisión sobre venta neta", format: "bool" },
+  { key: "includeExisting", label: "Incluir comodato vigente", format: "bool" },
+];
+
+const SALE_FIELDS: FieldDef<SaleLine>[] = [
+  { key: "name", label: "Descripción", format: "text" },
+  { key: "qty", label: "Cantidad", format: "number" },
+  { key: "sellPrice", label: "Precio venta", format: "money" },
+  { key: "discountPct", label: "% descuento", format: "pct" },
+  { key: "costOverride", label: "Costo $/kg", format: "money" },
+  { key: "kilos", label: "Kilos/presentación", format: "number" },
+  { key: "priceList", label: "Precio lista", format: "money" },
+];
+
+const COMODATO_FIELDS: FieldDef<ComodatoLine>[] = [
+  { key: "name", label: "Descripción", format: "text" },
+  { key: "qty", label: "Cantidad", format: "number" },
+  { key: "priceList", label: "Costo mensual", format: "money" },
+];
+
+// "" y undefined cuentan como vacío; así un campo opcional que aparece vacío no es un cambio
+const norm = (v: unknown): unknown => (v === undefined || v === "" ? null : v);
+const same = (a: unknown, b: unknown) => norm(a) === norm(b);
+
+// Las líneas se emparejan por código (y orden de aparición si el código se repite)
+export function keyLines<T extends { code: string }>(lines: T[] | undefined): Map<string, T> {
+  const seen = new Map<string, number>();
+  const out = new Map<string, T>();
+  (lines || []).forEach((l) => {
+    const code = (l.code || "").trim().toUpperCase() || "(sin código)";
+    const n = (seen.get(code) || 0) + 1;
+    seen.set(code, n);
+    out.set(n > 1 ? `${code}#${n}` : code, l);
+  });
+  return out;
+}
+
+function diffLines<T extends { code: string }>(
+  prefix: "saleLines" | "comodatoLines",
+  noun: string,
+  a: T[] | undefined,
+  b: T[] | undefined,
+  fields: FieldDef<T>[],
+  summary: (l: T) => string
+): FieldChange[] {
+  const out: FieldChange[] = [];
+  const ka = keyLines(a);
+  const kb = keyLines(b);
+  ka.forEach((la, k) => {
+    const lb = kb.get(k);
+    if (!lb) {
+      out.push({ field: `${prefix}.${k}`, label: `${noun} ${k} (quitado)`, old: summary(la), new: null, format: "text" });
+      return;
+    }
+    fields.forEach((f) => {
+      if (!same(la[f.key], lb[f.key])) out.push({ field: `${prefix}.${k}.${String(f.key)}`, label: `${noun} ${k} · ${f.label}`, old: norm(la[f.key]), new: norm(lb[f.key]), format: f.format });
+    });
+  });
+  kb.forEach((lb, k) => {
+    if (!ka.has(k)) out.push({ field: `${prefix}.${k}`, label: `${noun} ${k} (agregado)`, old: null, new: summary(lb), format: "text" });
+  });
+  return out;
+}
+
+const saleSummary = (l: SaleLine) =>
+  `${l.qty || 0} × ${l.name || l.code} a $${Number(l.sellPrice || 0).toLocaleString("es-CL")}/kg` + (l.discountPct ? ` (-${(l.discountPct * 100).toFixed(1)}%)` : "");
+const comodatoSummary = (l: ComodatoLine) => `${l.qty || 0} × ${l.name || l.code} a $${Number(l.priceList || 0).toLocaleString("es-CL")}/mes`;
+
+// a = null: evaluación nueva (todo lo que trae b cuenta como agregado)
+export function diffEvaluations(a: EvaluationData | null, b: EvaluationData): FieldChange[] {
+  const out: FieldChange[] = [];
+  CLIENT_FIELDS.forEach((f) => {
+    if (!same(a?.[f.key], b[f.key])) out.push({ field: String(f.key), label: f.label, old: norm(a?.[f.key]), new: norm(b[f.key]), format: f.format });
+  });
+  PARAM_FIELDS.forEach((f) => {
+    if (!same(a?.params?.[f.key], b.params?.[f.key]))
+      out.push({ field: `params.${String(f.key)}`, label: f.label, old: norm(a?.params?.[f.key]), new: norm(b.params?.[f.key]), format: f.format });
+  });
+  const vigA = a?.existingComodato?.comodatoMensualVigente;
+  const vigB = b.existingComodato?.comodatoMensualVigente;
+  if (!same(vigA, vigB)) out.push({ field: "existingComodato.comodatoMensualVigente", label: "Comodato vigente del cliente", old: norm(vigA), new: norm(vigB), format: "money" });
+  out.push(...diffLines("saleLines", "Producto", a?.saleLines, b.saleLines, SALE_FIELDS, saleSummary));
+  out.push(...diffLines("comodatoLines", "Equipo", a?.comodatoLines, b.comodatoLines, COMODATO_FIELDS, comodatoSummary));
+  return out;
+}
+
+export function formatChangeValue(v: unknown, format: ChangeFormat): string {
+  if (v === null || v === undefined) return "—";
+  switch (format) {
+    case "money": return "$" + Number(v).toLocaleString("es-CL");
+    case "pct": return `${(Number(v) * 100).toFixed(1)}%`;
+    case "number": return Number(v).toLocaleString("es-CL");
+    case "bool": return v ? "Sí" : "No";
+    default: return String(v);
+  }
+}
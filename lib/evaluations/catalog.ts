@@ -0,0 +1,51 @@
+import type { RawRow } from "@/lib/ingestion";
+import { num, optNum, type NumberLocale } from "@/lib/numbers";
+
+// ==============================
+// Catálogo de productos y equipos de /negocio (lo leen el formulario y el servidor)
+// ==============================
+
+export type CatalogItem = {
+  code: string;
+  name: string;
+  price_list: number; // $/kg o costo mensual equipo
+  cost?: number; // $/kg
+  kilos?: number; // kg por presentación
+};
+
+export type Catalog = Record<string, CatalogItem>;
+
+// URL de catálogo por defecto (para invitados/incógnito y para el servidor si no se configura otra)
+export const DEFAULT_CATALOG_URL =
+  "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/export?format=csv";
+
+export const catalogItem = (catalog: Catalog | null | undefined, code: string): CatalogItem | undefined =>
+  catalog ? catalog[code?.trim()?.toUpperCase()] : undefined;
+
+export function mapCatalogRows(rows: RawRow[], locale: NumberLocale = "auto"): Catalog {
+  const map: Catalog = {};
+  rows.forEach((r) => {
+    const code = String(
+      r.code ?? r.CODIGO ?? r.Codigo ?? r.Código ?? r.codigo ?? ""
+    )
+      .trim()
+      .toUpperCase();
+    if (!code) return;
+    map[code] = {
+      code,
+      name: String(
+        r.name ??
+          r.NOMBRE ??
+          r.Nombre ??
+          r.Descripción ??
+          r.descripcion ??
+          r.descripcion_producto ??
+          ""
+      ).trim(),
+      price_list: num(r.price_list ?? r.price ?? r.PRECIO ?? r.precio ?? r.lista, 0, locale),
+      cost: optNum(r.cost, locale),
+      kilos: optNum(r.kilos, locale),
+    };
+  });
+  return map;
+}
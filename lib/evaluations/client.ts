@@ -0,0 +1,45 @@
+import type { ApprovalAction, ApprovalPolicy } from "./approval";
+import type { AuditEntry, FieldChange } from "./audit";
+import type { EvaluationData, EvaluationQuery, EvaluationRecord, EvaluationSummary } from "./types";
+
+// ==============================
+// Cliente del repositorio de evaluaciones (/api/evaluations)
+// ==============================
+
+const ENDPOINT = "/api/evaluations";
+
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(url, { cache: "no-store", ...init, headers: { "Content-Type": "application/json", ...(init?.headers || {}) } });
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error || `HTTP ${resp.status}`);
+  return body as T;
+}
+
+export async function fetchEvaluations(query: EvaluationQuery = {}): Promise<EvaluationSummary[]> {
+  const qs = new URLSearchParams();
+  Object.entries(query).forEach(([k, v]) => { if (v !== undefined && v !== "") qs.set(k, String(v)); });
+  const { evaluations } = await call<{ evaluations: EvaluationSummary[] }>(`${ENDPOINT}?${qs.toString()}`);
+  return evaluations;
+}
+
+export const fetchEvaluation = (id: string) => call<EvaluationRecord>(`${ENDPOINT}/${encodeURIComponent(id)}`);
+
+// Sin id crea una evaluación nueva (el servidor asigna el correlativo); con id la reemplaza
+export function saveEvaluation(data: EvaluationData, opts: { id?: string | null; clonedFrom?: string | null } = {}): Promise<EvaluationRecord> {
+  if (opts.id) return call<EvaluationRecord>(`${ENDPOINT}/${encodeURIComponent(opts.id)}`, { method: "PUT", body: JSON.stringify({ data }) });
+  return call<EvaluationRecord>(ENDPOINT, { method: "POST", body: JSON.stringify({ data, clonedFrom: opts.clonedFrom || undefined }) });
+}
+
+export const fetchApprovalPolicy = () => call<ApprovalPolicy>(`${ENDPOINT}/policy`);
+
+export function changeApproval(id: string, action: ApprovalAction, opts: { justification?: string } = {}): Promise<EvaluationRecord> {
+  return call<EvaluationRecord>(`${ENDPOINT}/${encodeURIComponent(id)}/approval`, { method: "POST", body: JSON.stringify({ action, ...opts }) });
+}
+
+export async function fetchEvaluationAudit(id: string): Promise<AuditEntry[]> {
+  return (await call<{ entries: AuditEntry[] }>(`${ENDPOINT}/${encodeURIComponent(id)}/audit`)).entries;
+}
+
+export async function fetchEvaluationDiff(id: string, from: number, to: number): Promise<FieldChange[]> {
+  return (await call<{ changes: FieldChange[] }>(`${ENDPOINT}/${encodeURIComponent(id)}/diff?from=${from}&to=${to}`)).changes;
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { delta, equipoRows, saleLineRows, summaryRows, toComparedVariant } from "./compare";
+import { approvalPolicy } from "./store";
+import { computeTotals, type CostItem, type TotalsInput } from "./totals";
+
+const CATALOG: Record<string, CostItem> = { A1: { price_list: 900, cost: 800, kilos: 10 } };
+
+// 100 kg con costo $800 y $12.000/mes de comodato, sin comisión
+const input = (sellPrice: number, equipos: TotalsInput["comodatoLines"]): TotalsInput => ({
+  saleLines: [{ code: "A1", name: "Producto", priceList: 900, kilos: 10, qty: 10, sellPrice, discountPct: 0 }],
+  comodatoLines: equipos,
+  params: { commissionPct: 0, months: 12, usePriceListAsCost: true, commissionOnNet: true },
+  comodatoVigenteMensual: 0,
+});
+
+const HORNO = { code: "EQ", name: "Horno", priceList: 144000, qty: 1 };
+const VITRINA = { code: "VT", name: "Vitrina", priceList: 60000, qty: 2 };
+
+const variants = () => {
+  const policy = approvalPolicy();
+  const a = input(1000, [HORNO]); // margen (100.000 − 80.000 − 12.000) / 100.000 = 8%
+  const b = input(2000, [HORNO, VITRINA]); // margen (200.000 − 80.000 − 22.000) / 200.000 = 49%
+  return [
+    toComparedVariant({ id: "a", label: "Base", totals: computeTotals(a, (c) => CATALOG[c]), comodatoLines: a.comodatoLines }, policy),
+    toComparedVariant({ id: "b", label: "Alza", totals: computeTotals(b, (c) => CATALOG[c]), comodatoLines: b.comodatoLines }, policy),
+  ];
+};
+
+afterEach(() => {
+  delete process.env.APPROVAL_MIN_MARGIN_PCT;
+});
+
+describe("comparación de variantes", () => {
+  it("resume cada métrica por variante y la diferencia contra la base", () => {
+    const rows = summaryRows(variants());
+    const byLabel = Object.fromEntries(rows.map((r) => [r.label, r.values]));
+    expect(byLabel["Ventas mensual"]).toEqual([100000, 200000]);
+    expect(byLabel["Comodato mensual"]).toEqual([12000, 22000]);
+    expect(byLabel["Margen final"][0]).toBeCloseTo(0.08);
+    expect(byLabel["Margen final"][1]).toBeCloseTo(0.49);
+    expect(delta(byLabel["Ventas mensual"][1], byLabel["Ventas mensual"][0])).toBe(100000);
+    expect(delta(byLabel["Margen final"][1], byLabel["Margen final"][0])).toBeCloseTo(0.41);
+    expect(delta(undefined, 1)).toBeNull();
+  });
+
+  it("une las líneas de todas las variantes y deja vacía la celda de la que no la tiene", () => {
+    const [a, b] = variants();
+    expect(saleLineRows([a, b])[0].cells.map((c) => c?.venta)).toEqual([100000, 200000]);
+    expect(equipoRows([a, b])).toEqual([
+      { key: "EQ", name: "Horno", cells: [{ qty: 1, valor: 144000 }, { qty: 1, valor: 144000 }] },
+      { key: "VT", name: "Vitrina", cells: [null, { qty: 2, valor: 120000 }] },
+    ]);
+  });
+
+  it("marca viable con el margen mínimo de la política del servidor", () => {
+    expect(approvalPolicy().minMarginPct).toBe(0.5);
+    expect(variants().map((v) => v.viable)).toEqual([false, false]);
+
+    process.env.APPROVAL_MIN_MARGIN_PCT = "0.49";
+    expect(variants().map((v) => v.viable)).toEqual([false, true]);
+    process.env.APPROVAL_MIN_MARGIN_PCT = "0.05";
+    expect(variants().map((v) => v.viable)).toEqual([true, true]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { ApprovalPolicy } from "./approval";
+import { keyLines } from "./audit";
+import type { EvaluationTotals } from "./totals";
+import type { ComodatoLine } from "./types";
+
+// ==============================
+// Comparación de variantes de una evaluación (mismo cliente, distintas propuestas).
+// Las diferencias se calculan contra la variante base elegida.
+// ==============================
+
+export type ComparedVariant = {
+  id: string;
+  label: string;
+  totals: EvaluationTotals;
+  comodatoLines: ComodatoLine[];
+  viable: boolean;
+};
+
+// Viable con el mismo umbral que el formulario y el servidor (margen final ≥ mínimo de la política)
+export const toComparedVariant = (v: Omit<ComparedVariant, "viable">, policy: Pick<ApprovalPolicy, "minMarginPct">): ComparedVariant => ({
+  ...v,
+  viable: v.totals.finalMarginPct >= policy.minMarginPct,
+});
+
+export type MetricFormat = "money" | "pct";
+
+export type MetricRow = {
+  label: string;
+  format: MetricFormat;
+  values: number[]; // una por variante
+};
+
+export const summaryRows = (vs: ComparedVariant[]): MetricRow[] => [
+  { label: "Ventas mensual", format: "money", values: vs.map((v) => v.totals.ventasTot) },
+  { label: "Comodato mensual", format: "money", values: vs.map((v) => v.totals.comodatoMensualTotal) },
+  { label: "% Rel. Comodato/Venta", format: "pct", values: vs.map((v) => v.totals.relComVta) },
+  { label: "Comisión", format: "money", values: vs.map((v) => v.totals.commissionTotal) },
+  { label: "% Comisión final", format: "pct", values: vs.map((v) => v.totals.commissionFinalPct) },
+  { label: "Margen final", format: "pct", values: vs.map((v) => v.totals.finalMarginPct) },
+];
+
+export type SaleCell = { qty: number; priceSaleKg: number; venta: number; margenFinalPct: number };
+export type EquipoCell = { qty: number; valor: number }; // precio del equipo × cantidad (antes de dividir por los meses)
+
+export type LineRow<C> = {
+  key: string; // código (con #n si se repite dentro de una variante)
+  name: string;
+  cells: (C | null)[]; // null = la variante no tiene la línea
+};
+
+// Filas en el orden de aparición: primero las de la primera variante, luego las nuevas de las siguientes
+function unionRows<L extends { code: string; name: string }, C>(lists: L[][], cell: (l: L) => C): LineRow<C>[] {
+  const keyed = lists.map((ls) => keyLines(ls));
+  const keys: string[] = [];
+  keyed.forEach((m) => m.forEach((_, k) => { if (!keys.includes(k)) keys.push(k); }));
+  return keys.map((k) => {
+    const found = keyed.map((m) => m.get(k));
+    return { key: k, name: found.find((l) => l?.name)?.name || "", cells: found.map((l) => (l ? cell(l) : null)) };
+  });
+}
+
+export const saleLineRows = (vs: ComparedVariant[]): LineRow<SaleCell>[] =>
+  unionRows(vs.map((v) => v.totals.lines), (l) => ({ qty: l.qty || 0, priceSaleKg: l.priceSaleKg, venta: l.venta, margenFinalPct: l.margenFinalPct }));
+
+export const equipoRows = (vs: ComparedVariant[]): LineRow<EquipoCell>[] =>
+  unionRows(vs.map((v) => v.comodatoLines), (l) => ({ qty: l.qty || 0, valor: (l.priceList || 0) * (l.qty || 1) }));
+
+// Diferencia contra la base; null si falta alguno de los dos
+export const delta = (value: number | undefined, base: number | undefined) =>
+  value === undefined || base === undefined ? null : value - base;
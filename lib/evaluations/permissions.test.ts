@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { forbiddenChanges } from "./permissions";
+import { SCENARIO_VERSION } from "./schema";
+import type { EvaluationData } from "./types";
+
+const base: EvaluationData = {
+  version: SCENARIO_VERSION,
+  customerName: "Cliente",
+  viable: false,
+  metrics: { ventasTot: 100000, comodatoTotal: 144000, comodatoMensual: 12000, relComVta: 0.12, finalMarginPct: 0.08, commissionFinalPct: 0 },
+  params: { commissionPct: 0, months: 12, usePriceListAsCost: true, commissionOnNet: true, includeExisting: false },
+  saleLines: [{ code: "A1", name: "Producto", priceList: 900, kilos: 10, qty: 10, sellPrice: 1000, discountPct: 0 }],
+  comodatoLines: [],
+  existingComodato: null,
+};
+
+describe("forbiddenChanges", () => {
+  it("rechaza descuentos, costos y parámetros para un ejecutivo", () => {
+    const data: EvaluationData = {
+      ...base,
+      params: { ...base.params, commissionOnNet: false },
+      saleLines: [{ ...base.saleLines[0], discountPct: 0.2, costOverride: 100 }],
+    };
+    expect(forbiddenChanges("ejecutivo", data, base)).toEqual(["Comisión sobre venta neta", "% descuento de A1", "Costo de A1"]);
+    expect(forbiddenChanges("gerente", data, base)).toEqual([]);
+  });
+
+  it("no revisa resultados ni veredicto: el repositorio los recalcula", () => {
+    const data: EvaluationData = { ...base, viable: true, metrics: { ...base.metrics, finalMarginPct: 0.99 } };
+    expect(forbiddenChanges("ejecutivo", data, base)).toEqual([]);
+  });
+
+  it("rechaza cambiar lista o costo de catálogo de una línea sin permiso de catálogo", () => {
+    const data: EvaluationData = { ...base, saleLines: [{ ...base.saleLines[0], priceList: 100, catalogCost: 50 }] };
+    expect(forbiddenChanges("ejecutivo", data, base)).toEqual(["Precio lista de A1", "Costo de catálogo de A1"]);
+    expect(forbiddenChanges("gerente", data, base)).toEqual(["Precio lista de A1", "Costo de catálogo de A1"]);
+    expect(forbiddenChanges("admin", data, base)).toEqual([]);
+  });
+
+  it("con el catálogo del servidor, no revisa sus códigos (se toman de él) y no acepta costo de catálogo en códigos que no están", () => {
+    const catalog = { A1: { code: "A1", name: "Producto", price_list: 900, cost: 800 } };
+    const data: EvaluationData = {
+      ...base,
+      saleLines: [
+        { ...base.saleLines[0], priceList: 100, catalogCost: 50 },
+        { code: "ZZ9", name: "Manual", priceList: 100, kilos: 1, qty: 1, sellPrice: 500, discountPct: 0, catalogCost: 1 },
+      ],
+    };
+    expect(forbiddenChanges("ejecutivo", data, base, catalog)).toEqual(["Costo de catálogo de ZZ9"]);
+  });
+
+  it("rechaza cambiar el costo de un equipo fuera del catálogo sin permiso de catálogo", () => {
+    const withEq: EvaluationData = { ...base, comodatoLines: [{ code: "EQ9", name: "Equipo", priceList: 144000, qty: 1 }] };
+    const data: EvaluationData = { ...withEq, comodatoLines: [{ ...withEq.comodatoLines[0], priceList: 0, qty: 2 }] };
+    expect(forbiddenChanges("ejecutivo", data, withEq)).toEqual(["Costo del equipo EQ9"]);
+    expect(forbiddenChanges("admin", data, withEq)).toEqual([]);
+    // Los del catálogo del servidor los pone el repositorio al guardar
+    const catalog = { EQ9: { code: "EQ9", name: "Equipo", price_list: 144000 } };
+    expect(forbiddenChanges("ejecutivo", data, withEq, catalog)).toEqual([]);
+  });
+
+  it("la comisión base puede subir pero no bajar sin permiso de parámetros; los meses son libres", () => {
+    const withCommission: EvaluationData = { ...base, params: { ...base.params, commissionPct: 0.03 } };
+    const lower: EvaluationData = { ...base, params: { ...base.params, commissionPct: 0.01 } };
+    const higher: EvaluationData = { ...base, params: { ...base.params, commissionPct: 0.05, months: 36 } };
+    expect(forbiddenChanges("ejecutivo", lower, withCommission)).toEqual(["% Comisión base (bajarla)"]);
+    expect(forbiddenChanges("gerente", lower, withCommission)).toEqual([]);
+    expect(forbiddenChanges("ejecutivo", higher, withCommission)).toEqual([]);
+    expect(forbiddenChanges("ejecutivo", withCommission, null)).toEqual([]);
+  });
+
+  it("permite cambiar cantidades y precio de venta", () => {
+    const data: EvaluationData = { ...base, saleLines: [{ ...base.saleLines[0], qty: 20, sellPrice: 1500 }] };
+    expect(forbiddenChanges("ejecutivo", data, base)).toEqual([]);
+  });
+});
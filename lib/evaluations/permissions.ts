@@ -0,0 +1,66 @@
+import { can, type Role } from "@/lib/auth/roles";
+import { catalogItem, type Catalog } from "./catalog";
+import type { ComodatoLine, EvaluationData, EvaluationParams, SaleLine } from "./types";
+
+// ==============================
+// Campos de la evaluación que solo algunos roles pueden cambiar.
+// Se comparan contra la base (la versión guardada, o el origen de una copia);
+// una evaluación nueva parte de los valores por defecto del formulario.
+// Resultados (metrics) y veredicto (viable) no se revisan aquí: son derivados y el repositorio
+// los recalcula al guardar (store.ts), así que lo que mande el navegador en ellos no se usa.
+// Lista y costo de catálogo de una línea fijan su costo: sin negocio.catalog solo valen los del catálogo
+// del servidor (el repositorio los pone al guardar) o los de la base; una línea nueva con un código que no
+// está en el catálogo puede traer lista (se ingresa a mano) pero no costo de catálogo, y al enviar
+// requiere aprobación (unverifiedCostReasons). Lo mismo vale para el costo de los equipos de comodato.
+// Cantidades, meses de contrato y precio de venta son del negocio que arma el ejecutivo (la simulación de
+// comodatos trae sus meses); la comisión base sí puede subirla, pero sin negocio.params no puede bajarla
+// de la base, porque eso sube el margen.
+// ==============================
+
+export const DEFAULT_RESTRICTED_PARAMS: Pick<EvaluationParams, "usePriceListAsCost" | "commissionOnNet"> = {
+  usePriceListAsCost: true,
+  commissionOnNet: true,
+};
+
+const sameNum = (a: number | undefined, b: number | undefined) => (Number(a) || 0) === (Number(b) || 0);
+const sameOpt = (a: number | undefined, b: number | undefined) => (a ?? null) === (b ?? null);
+
+// Devuelve la lista de cambios no permitidos (vacía = se puede guardar)
+export function forbiddenChanges(role: Role, data: EvaluationData, base: EvaluationData | null, catalog: Catalog | null = null): string[] {
+  const out: string[] = [];
+  // Por código: agregar, quitar o reordenar líneas no cuenta como cambio de precio
+  const baseByCode = new Map<string, SaleLine>();
+  (base?.saleLines || []).forEach((l) => { if (!baseByCode.has(l.code)) baseByCode.set(l.code, l); });
+  const baseComByCode = new Map<string, ComodatoLine>();
+  (base?.comodatoLines || []).forEach((l) => { if (!baseComByCode.has(l.code)) baseComByCode.set(l.code, l); });
+
+  if (!can(role, "negocio.params")) {
+    const ref = base?.params || DEFAULT_RESTRICTED_PARAMS;
+    if (!!data.params?.usePriceListAsCost !== !!(ref.usePriceListAsCost ?? DEFAULT_RESTRICTED_PARAMS.usePriceListAsCost)) out.push("Usar lista como costo");
+    if (!!data.params?.commissionOnNet !== !!(ref.commissionOnNet ?? DEFAULT_RESTRICTED_PARAMS.commissionOnNet)) out.push("Comisión sobre venta neta");
+    if ((Number(data.params?.commissionPct) || 0) < (Number(base?.params?.commissionPct) || 0)) out.push("% Comisión base (bajarla)");
+  }
+
+  if (!can(role, "negocio.pricing")) {
+    for (const l of data.saleLines || []) {
+      const b = baseByCode.get(l.code);
+      if (!sameNum(l.discountPct, b?.discountPct)) out.push(`% descuento de ${l.code || "una línea"}`);
+      if (!sameOpt(l.costOverride, b?.costOverride)) out.push(`Costo de ${l.code || "una línea"}`);
+    }
+  }
+
+  if (!can(role, "negocio.catalog")) {
+    for (const l of data.saleLines || []) {
+      if (catalogItem(catalog, l.code)) continue;
+      const b = baseByCode.get(l.code);
+      if (b && !sameNum(l.priceList, b.priceList)) out.push(`Precio lista de ${l.code || "una línea"}`);
+      if (b ? !sameOpt(l.catalogCost, b.catalogCost) : catalog && l.catalogCost !== undefined) out.push(`Costo de catálogo de ${l.code || "una línea"}`);
+    }
+    for (const l of data.comodatoLines || []) {
+      if (catalogItem(catalog, l.code)) continue;
+      const b = baseComByCode.get(l.code);
+      if (b && !sameNum(l.priceList, b.priceList)) out.push(`Costo del equipo ${l.code || "sin código"}`);
+    }
+  }
+  return out;
+}
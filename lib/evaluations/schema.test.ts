@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { SchemaError } from "@/lib/schema";
+import { DEFAULT_RESTRICTED_PARAMS } from "./permissions";
+import { SCENARIO_VERSION, parseScenario, scenarioVersionOf, upgradeScenario } from "./schema";
+import type { EvaluationData } from "./types";
+
+// Exportación antigua (sin versión): sin métricas, veredicto ni interruptores
+const V1 = {
+  customerName: "Panadería Los Aromos",
+  clientRut: "76.123.456-0",
+  executive: "jperez",
+  params: { commissionPct: 0.03, months: 24 },
+  saleLines: [{ code: "A1", name: "Harina", priceList: 900, kilos: 25, qty: 10, sellPrice: 1100 }],
+  comodatoLines: [{ code: "EQ", name: "Horno", priceList: 144000, qty: 1 }],
+};
+
+// Exportación scenario-v2: descuento, includeExisting y comodato vigente opcionales
+const V2 = {
+  version: "scenario-v2",
+  customerName: "Pastelería Sur",
+  viable: true,
+  metrics: { ventasTot: 275000, comodatoTotal: 144000, comodatoMensual: 6000, relComVta: 0.02, finalMarginPct: 0.18, commissionFinalPct: 0.03 },
+  params: { commissionPct: 0.03, months: 24, usePriceListAsCost: false, commissionOnNet: false },
+  saleLines: [
+    { code: "A1", name: "Harina", priceList: 900, kilos: 25, qty: 10, sellPrice: 1100 },
+    { code: "B2", name: "Azúcar", priceList: 300, kilos: 50, qty: 2, sellPrice: 350, discountPct: 0.05, costOverride: 250 },
+  ],
+  comodatoLines: [],
+};
+
+describe("parseScenario", () => {
+  it("migra una exportación v1 y completa los interruptores con los valores por defecto", () => {
+    const { data, migratedFrom } = parseScenario(V1);
+    expect(migratedFrom).toBe("scenario-v1");
+    expect(data.version).toBe(SCENARIO_VERSION);
+    expect(data.params).toEqual({ commissionPct: 0.03, months: 24, ...DEFAULT_RESTRICTED_PARAMS, includeExisting: false });
+    expect(data.viable).toBe(false);
+    expect(data.metrics).toMatchObject({ ventasTot: 0, finalMarginPct: 0 });
+    expect(data.saleLines[0]).toEqual({ ...V1.saleLines[0], discountPct: 0 });
+    expect(data.existingComodato).toBeNull();
+  });
+
+  it("en v1 los interruptores que sí vienen no se pisan con los por defecto", () => {
+    const { data } = parseScenario({ ...V1, params: { ...V1.params, usePriceListAsCost: false } });
+    expect(data.params.usePriceListAsCost).toBe(false);
+    expect(data.params.commissionOnNet).toBe(DEFAULT_RESTRICTED_PARAMS.commissionOnNet);
+  });
+
+  it("migra una exportación v2 sin tocar lo que ya traía", () => {
+    const { data, migratedFrom } = parseScenario(V2);
+    expect(migratedFrom).toBe("scenario-v2");
+    expect(data.params).toEqual({ ...V2.params, includeExisting: false });
+    expect(data.metrics).toEqual(V2.metrics);
+    expect(data.viable).toBe(true);
+    expect(data.saleLines[0].discountPct).toBe(0);
+    expect(data.saleLines[1]).toEqual(V2.saleLines[1]);
+    expect(data.existingComodato).toBeNull();
+  });
+
+  it("la versión vigente no se migra y descarta campos desconocidos", () => {
+    const current = { ...parseScenario(V2).data, extra: "x" };
+    const { data, migratedFrom } = parseScenario(current);
+    expect(migratedFrom).toBeNull();
+    expect(data).not.toHaveProperty("extra");
+  });
+
+  it("rechaza lo que no es un objeto o trae una versión desconocida", () => {
+    expect(() => parseScenario([V1])).toThrow(SchemaError);
+    expect(() => parseScenario("{}")).toThrow("La evaluación debe ser un objeto JSON");
+    expect(() => scenarioVersionOf({ version: "scenario-v9" })).toThrow("Versión no soportada");
+  });
+
+  it("junta todos los problemas con la ruta del campo", () => {
+    const bad = {
+      ...V2,
+      params: { ...V2.params, commissionPct: 2, months: 0 },
+      saleLines: [{ ...V2.saleLines[0], qty: "diez", discountPct: -1 }],
+      comodatoLines: "ninguno",
+    };
+    try {
+      parseScenario(bad);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(SchemaError);
+      expect((e as SchemaError).issues).toEqual([
+        "params.commissionPct debe ser menor o igual a 1 (se recibió 2)",
+        "params.months debe ser mayor o igual a 1 (se recibió 0)",
+        'saleLines[0].qty debe ser un número (se recibió "diez")',
+        "saleLines[0].discountPct debe ser mayor o igual a 0 (se recibió -1)",
+        "comodatoLines debe ser una lista",
+      ]);
+    }
+  });
+});
+
+describe("upgradeScenario", () => {
+  it("lleva lo guardado al formato vigente sin rechazarlo", () => {
+    const stored = { ...V1, saleLines: [{ ...V1.saleLines[0], qty: "x" }] } as unknown as EvaluationData;
+    const data = upgradeScenario(stored);
+    expect(data.version).toBe(SCENARIO_VERSION);
+    expect(data.params).toMatchObject(DEFAULT_RESTRICTED_PARAMS);
+    expect(data.saleLines[0].qty).toBe(0);
+  });
+});
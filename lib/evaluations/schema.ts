@@ -0,0 +1,171 @@
+import type { ExistingComodato } from "@/lib/comodatos/lookup";
+import { SchemaError, isObject, readBoolean, readList, readNumber, readObject, readString, type Issues } from "@/lib/schema";
+import { DEFAULT_RESTRICTED_PARAMS } from "./permissions";
+import type { ComodatoLine, EvaluationData, EvaluationMetrics, EvaluationParams, SaleLine } from "./types";
+
+// ==============================
+// Formato del JSON de una evaluación ("Exportar JSON", repositorio) y migraciones entre versiones.
+//   scenario-v1  sin campo version (exportaciones más antiguas): faltaban métricas o interruptores
+//   scenario-v2  versión exportada hasta ahora: descuento, inclusión del comodato vigente y
+//                comodato vigente opcionales
+//   scenario-v3  vigente: esos campos siempre presentes (0 / false / null)
+// Un archivo se migra paso a paso hasta la versión vigente y recién entonces se valida.
+// ==============================
+
+export const SCENARIO_VERSION = "scenario-v3";
+
+const VERSIONS = ["scenario-v1", "scenario-v2", SCENARIO_VERSION] as const;
+export type ScenarioVersion = (typeof VERSIONS)[number];
+
+const EMPTY_METRICS: EvaluationMetrics = {
+  ventasTot: 0,
+  comodatoTotal: 0,
+  comodatoMensual: 0,
+  relComVta: 0,
+  finalMarginPct: 0,
+  commissionFinalPct: 0,
+};
+
+// MIGRATIONS[i] lleva de VERSIONS[i] a VERSIONS[i + 1]; trabajan sobre el JSON crudo (sin validar)
+const MIGRATIONS: ((j: Record<string, any>) => Record<string, any>)[] = [
+  // v1 → v2: los interruptores ausentes toman los valores por defecto del formulario
+  (j) => ({
+    ...j,
+    version: "scenario-v2",
+    params: isObject(j.params) ? { ...DEFAULT_RESTRICTED_PARAMS, ...j.params } : j.params,
+    metrics: isObject(j.metrics) ? j.metrics : EMPTY_METRICS,
+    viable: typeof j.viable === "boolean" ? j.viable : false,
+  }),
+  // v2 → v3: los campos opcionales pasan a estar siempre presentes
+  (j) => ({
+    ...j,
+    version: "scenario-v3",
+    params: isObject(j.params) ? { ...j.params, includeExisting: j.params.includeExisting ?? false } : j.params,
+    saleLines: Array.isArray(j.saleLines) ? j.saleLines.map((l) => (isObject(l) ? { ...l, discountPct: l.discountPct ?? 0 } : l)) : j.saleLines,
+    existingComodato: j.existingComodato ?? null,
+  }),
+];
+
+export function scenarioVersionOf(j: Record<string, any>): ScenarioVersion {
+  if (j.version === undefined) return "scenario-v1";
+  const v = VERSIONS.find((x) => x === j.version);
+  if (!v) throw new SchemaError([`Versión no soportada: ${JSON.stringify(j.version)} (se aceptan ${VERSIONS.join(", ")})`]);
+  return v;
+}
+
+export function migrateScenario(j: Record<string, any>): Record<string, any> {
+  let out = j;
+  for (let i = VERSIONS.indexOf(scenarioVersionOf(j)); i < MIGRATIONS.length; i++) out = MIGRATIONS[i](out);
+  return out;
+}
+
+// ===================== Validación (formato vigente) =====================
+function readSaleLine(issues: Issues, x: unknown, p: string): SaleLine {
+  const [o, is] = readObject(issues, p, x);
+  const line: SaleLine = {
+    code: readString(is, `${p}.code`, o.code),
+    name: readString(is, `${p}.name`, o.name ?? ""),
+    priceList: readNumber(is, `${p}.priceList`, o.priceList, { min: 0 }),
+    kilos: readNumber(is, `${p}.kilos`, o.kilos, { min: 0 }),
+    qty: readNumber(is, `${p}.qty`, o.qty, { min: 0 }),
+    sellPrice: readNumber(is, `${p}.sellPrice`, o.sellPrice, { min: 0 }),
+    discountPct: readNumber(is, `${p}.discountPct`, o.discountPct, { min: 0, max: 1 }),
+  };
+  const cost = readNumber(is, `${p}.costOverride`, o.costOverride, { optional: true, min: 0 });
+  if (cost !== undefined) line.costOverride = cost;
+  const catalogCost = readNumber(is, `${p}.catalogCost`, o.catalogCost, { optional: true, min: 0 });
+  if (catalogCost !== undefined) line.catalogCost = catalogCost;
+  return line;
+}
+
+function readComodatoLine(issues: Issues, x: unknown, p: string): ComodatoLine {
+  const [o, is] = readObject(issues, p, x);
+  return {
+    code: readString(is, `${p}.code`, o.code),
+    name: readString(is, `${p}.name`, o.name ?? ""),
+    priceList: readNumber(is, `${p}.priceList`, o.priceList, { min: 0 }),
+    qty: readNumber(is, `${p}.qty`, o.qty, { min: 0 }),
+  };
+}
+
+function readParams(issues: Issues, x: unknown): EvaluationParams {
+  const [o, is] = readObject(issues, "params", x);
+  return {
+    commissionPct: readNumber(is, "params.commissionPct", o.commissionPct, { min: 0, max: 1 }),
+    months: readNumber(is, "params.months", o.months, { min: 1 }),
+    usePriceListAsCost: readBoolean(is, "params.usePriceListAsCost", o.usePriceListAsCost),
+    commissionOnNet: readBoolean(is, "params.commissionOnNet", o.commissionOnNet),
+    includeExisting: readBoolean(is, "params.includeExisting", o.includeExisting),
+  };
+}
+
+function readMetrics(issues: Issues, x: unknown): EvaluationMetrics {
+  const [o, is] = readObject(issues, "metrics", x);
+  const n = (k: keyof EvaluationMetrics) => readNumber(is, `metrics.${k}`, o[k]);
+  const opt = (k: keyof EvaluationMetrics) => readNumber(is, `metrics.${k}`, o[k], { optional: true });
+  return {
+    ventasTot: n("ventasTot"),
+    comodatoTotal: n("comodatoTotal"),
+    comodatoMensual: n("comodatoMensual"),
+    comodatoVigenteMensual: opt("comodatoVigenteMensual"),
+    comodatoMensualTotal: opt("comodatoMensualTotal"),
+    relComVta: n("relComVta"),
+    finalMarginPct: n("finalMarginPct"),
+    commissionFinalPct: n("commissionFinalPct"),
+  };
+}
+
+// Del comodato vigente solo se revisa lo que entra en los cálculos; el detalle se conserva tal cual
+function readExisting(issues: Issues, x: unknown): ExistingComodato | null {
+  if (x === null) return null;
+  const [o, is] = readObject(issues, "existingComodato", x);
+  return {
+    ...(o as ExistingComodato),
+    rut: readString(is, "existingComodato.rut", o.rut),
+    comodatoMensualVigente: readNumber(is, "existingComodato.comodatoMensualVigente", o.comodatoMensualVigente, { min: 0 }),
+    detalle: Array.isArray(o.detalle) ? o.detalle : [],
+  };
+}
+
+// Arma una evaluación limpia (sin campos desconocidos) y anota los problemas encontrados
+function readScenario(issues: Issues, j: Record<string, any>): EvaluationData {
+  return {
+    version: SCENARIO_VERSION,
+    customerName: readString(issues, "customerName", j.customerName ?? ""),
+    clientRut: readString(issues, "clientRut", j.clientRut, { optional: true }),
+    clientCity: readString(issues, "clientCity", j.clientCity, { optional: true }),
+    executive: readString(issues, "executive", j.executive, { optional: true }),
+    notes: readString(issues, "notes", j.notes, { optional: true }),
+    date: readString(issues, "date", j.date, { optional: true }),
+    viable: readBoolean(issues, "viable", j.viable),
+    metrics: readMetrics(issues, j.metrics),
+    params: readParams(issues, j.params),
+    saleLines: readList(issues, "saleLines", j.saleLines, (x, p) => readSaleLine(issues, x, p)),
+    comodatoLines: readList(issues, "comodatoLines", j.comodatoLines, (x, p) => readComodatoLine(issues, x, p)),
+    existingComodato: readExisting(issues, j.existingComodato),
+  };
+}
+
+export type ParsedScenario = {
+  data: EvaluationData;
+  migratedFrom: ScenarioVersion | null; // null = ya venía en la versión vigente
+};
+
+// Migra y valida; lanza SchemaError con todos los problemas (nada se aplica a medias)
+export function parseScenario(raw: unknown): ParsedScenario {
+  if (!isObject(raw)) throw new SchemaError(["La evaluación debe ser un objeto JSON"]);
+  const from = scenarioVersionOf(raw);
+  const issues: Issues = [];
+  const data = readScenario(issues, migrateScenario(raw));
+  if (issues.length) throw new SchemaError(issues);
+  return { data, migratedFrom: from === SCENARIO_VERSION ? null : from };
+}
+
+// Para lo ya guardado en el repositorio: se lleva al formato vigente sin rechazarlo
+export function upgradeScenario(raw: EvaluationData): EvaluationData {
+  try {
+    return readScenario([], migrateScenario(raw));
+  } catch {
+    return raw;
+  }
+}
@@ -0,0 +1,23 @@
+import type { IngestResult } from "@/lib/ingestion";
+import { fetchSheetCached } from "@/lib/ingestion/proxy";
+import { DEFAULT_CATALOG_URL, mapCatalogRows, type Catalog } from "./catalog";
+
+// ==============================
+// Catálogo que usa el servidor para costear evaluaciones (solo servidor).
+// Pasa por la caché del proxy de hojas, así guardar y enviar no vuelven a leer la hoja cada vez.
+// Variables de entorno:
+//   NEGOCIO_CATALOG_URL  hoja del catálogo (def. la misma que carga /negocio por defecto)
+// ==============================
+
+export const serverCatalogUrl = () => process.env.NEGOCIO_CATALOG_URL || DEFAULT_CATALOG_URL;
+
+// null si la hoja no se pudo leer o no trae códigos: los costos de las líneas quedan sin verificar
+export async function loadServerCatalog(): Promise<Catalog | null> {
+  try {
+    const res = JSON.parse((await fetchSheetCached(serverCatalogUrl())).body) as IngestResult;
+    const catalog = mapCatalogRows(res.rows);
+    return Object.keys(catalog).length ? catalog : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { applyLinePrice, applyUniformDiscount, applyUniformIncrease, requiredSales, solvePrices } from "./solver";
+import { computeTotals, type CostItem, type TotalsInput } from "./totals";
+import type { SaleLine } from "./types";
+
+const CATALOG: Record<string, CostItem> = {
+  A1: { price_list: 900, cost: 800, kilos: 25 },
+  B2: { price_list: 300, cost: 250, kilos: 50 },
+};
+const getItem = (code: string) => CATALOG[code];
+
+const LINES: SaleLine[] = [
+  { code: "A1", name: "Harina", priceList: 900, kilos: 25, qty: 10, sellPrice: 1000, discountPct: 0 },
+  { code: "B2", name: "Azúcar", priceList: 300, kilos: 50, qty: 4, sellPrice: 320, discountPct: 0.1 },
+];
+
+// K = 800·250 + 250·200 = 250.000; C = 144.000·2 / 24 = 12.000
+const input = (saleLines: SaleLine[], commissionOnNet: boolean): TotalsInput => ({
+  saleLines,
+  comodatoLines: [{ code: "EQ", name: "Horno", priceList: 144000, qty: 2 }],
+  params: { commissionPct: 0.05, months: 24, usePriceListAsCost: true, commissionOnNet },
+  comodatoVigenteMensual: 0,
+});
+
+const U = 0.15;
+const marginOf = (saleLines: SaleLine[], commissionOnNet: boolean) => computeTotals(input(saleLines, commissionOnNet), getItem).finalMarginPct;
+
+describe("solvePrices", () => {
+  it("comisión bruta: V = (K + C) / (1 − r − u) y el precio de cada línea deja el margen justo en el umbral", () => {
+    const totals = computeTotals(input(LINES, false), getItem);
+    const sol = solvePrices(totals, { commissionPct: 0.05, commissionOnNet: false }, U);
+    expect(sol.requiredSales).toBeCloseTo((250000 + 12000) / (1 - 0.05 - U), 6);
+    expect(sol.currentSales).toBe(totals.ventasTot);
+    expect(totals.finalMarginPct).toBeLessThan(U);
+
+    sol.lineFloors.forEach((f) => {
+      const lines = LINES.map((l, i) => (i === f.index ? { ...l, sellPrice: f.minSellPrice! } : l));
+      expect(marginOf(lines, false)).toBeCloseTo(U, 9);
+    });
+    const raised = LINES.map((l) => ({ ...l, sellPrice: l.sellPrice * (1 + sol.uniformIncreasePct!) }));
+    expect(marginOf(raised, false)).toBeCloseTo(U, 9);
+  });
+
+  it("comisión neta de comodato: V = (K + C·(1 − r)) / (1 − r − u)", () => {
+    const totals = computeTotals(input(LINES, true), getItem);
+    const sol = solvePrices(totals, { commissionPct: 0.05, commissionOnNet: true }, U);
+    expect(sol.requiredSales).toBeCloseTo((250000 + 12000 * (1 - 0.05)) / (1 - 0.05 - U), 6);
+
+    sol.lineFloors.forEach((f) => {
+      const lines = LINES.map((l, i) => (i === f.index ? { ...l, sellPrice: f.minSellPrice! } : l));
+      expect(marginOf(lines, true)).toBeCloseTo(U, 9);
+    });
+  });
+
+  it("el descuento parejo máximo también deja el margen en el umbral", () => {
+    const rich = LINES.map((l) => ({ ...l, sellPrice: l.sellPrice * 2 }));
+    const sol = solvePrices(computeTotals(input(rich, false), getItem), { commissionPct: 0.05, commissionOnNet: false }, U);
+    expect(sol.uniformIncreasePct).toBeLessThan(0); // hay holgura
+    const discounted = rich.map((l) => ({ ...l, discountPct: sol.maxDiscountPct! }));
+    expect(marginOf(discounted, false)).toBeCloseTo(U, 9);
+  });
+
+  it("al aplicar se redondea hacia el lado viable", () => {
+    const totals = computeTotals(input(LINES, false), getItem);
+    const sol = solvePrices(totals, { commissionPct: 0.05, commissionOnNet: false }, U);
+    expect(marginOf(applyUniformIncrease(LINES, sol.uniformIncreasePct!), false)).toBeGreaterThanOrEqual(U);
+    expect(marginOf(applyLinePrice(LINES, 0, sol.lineFloors[0].minSellPrice!), false)).toBeGreaterThanOrEqual(U);
+    const rich = LINES.map((l) => ({ ...l, sellPrice: l.sellPrice * 2 }));
+    const max = solvePrices(computeTotals(input(rich, false), getItem), { commissionPct: 0.05, commissionOnNet: false }, U).maxDiscountPct!;
+    expect(marginOf(applyUniformDiscount(rich, max), false)).toBeGreaterThanOrEqual(U);
+  });
+
+  it("si comisión + umbral llegan al 100% ningún precio alcanza", () => {
+    const totals = computeTotals(input(LINES, false), getItem);
+    expect(requiredSales(totals, { commissionPct: 0.5, commissionOnNet: false }, 0.5)).toBeNull();
+    const sol = solvePrices(totals, { commissionPct: 0.6, commissionOnNet: false }, 0.5);
+    expect(sol.requiredSales).toBeNull();
+    expect(sol.uniformIncreasePct).toBeNull();
+    expect(sol.maxDiscountPct).toBeNull();
+    expect(sol.lineFloors.map((f) => f.minSellPrice)).toEqual([null, null]);
+  });
+
+  it("sin líneas de venta no hay alza ni descuento que calcular", () => {
+    const totals = computeTotals(input([], false), getItem);
+    const sol = solvePrices(totals, { commissionPct: 0.05, commissionOnNet: false }, U);
+    expect(sol.currentSales).toBe(0);
+    expect(sol.requiredSales).toBeCloseTo(12000 / (1 - 0.05 - U), 6);
+    expect(sol.uniformIncreasePct).toBeNull();
+    expect(sol.maxDiscountPct).toBeNull();
+    expect(sol.lineFloors).toEqual([]);
+  });
+
+  it("una línea con descuento del 100% no tiene precio mínimo", () => {
+    const lines = [{ ...LINES[0], discountPct: 1 }, LINES[1]];
+    const sol = solvePrices(computeTotals(input(lines, false), getItem), { commissionPct: 0.05, commissionOnNet: false }, U);
+    expect(sol.lineFloors[0].minSellPrice).toBeNull();
+    expect(sol.lineFloors[1].minSellPrice).toBeGreaterThan(LINES[1].sellPrice);
+  });
+});
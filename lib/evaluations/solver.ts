@@ -0,0 +1,77 @@
+import type { EvaluationTotals, TotalsInput } from "./totals";
+import type { SaleLine } from "./types";
+
+// ==============================
+// Precios para llegar a viable (margen final ≥ umbral), con la misma lógica de computeTotals.
+// Con V = ventas, K = costo total, C = comodato mensual total y r = % comisión:
+//   margen final = V − K − C − r·B,  B = V (comisión bruta) o máx(0, V − C) (neta de comodato)
+// El comodato se reparte en proporción a la venta, así que el margen solo depende de V:
+//   bruta: V ≥ (K + C) / (1 − r − u)      neta: V ≥ (K + C·(1 − r)) / (1 − r − u)
+// ==============================
+
+export type LinePriceFloor = {
+  index: number; // posición en saleLines
+  code: string;
+  name: string;
+  sellPrice: number; // actual
+  minSellPrice: number | null; // $/kg bruto (antes de descuento) si solo cambia esta línea; null = no alcanza
+};
+
+export type PriceSolution = {
+  threshold: number;
+  currentSales: number;
+  requiredSales: number | null; // null = ningún precio alcanza (comisión + umbral ≥ 100%)
+  uniformIncreasePct: number | null; // alza pareja sobre el precio de venta (negativo = holgura)
+  lineFloors: LinePriceFloor[];
+  maxDiscountPct: number | null; // descuento parejo máximo sobre el precio bruto; null = ni sin descuento alcanza
+};
+
+export function requiredSales(totals: EvaluationTotals, params: Pick<TotalsInput["params"], "commissionPct" | "commissionOnNet">, threshold: number) {
+  const r = params.commissionPct || 0;
+  const room = 1 - r - threshold;
+  if (room <= 0) return null;
+  const K = totals.lines.reduce((a, l) => a + l.costoKg * l.kilosMes, 0);
+  const C = totals.comodatoMensualTotal;
+  return (K + (params.commissionOnNet ? C * (1 - r) : C)) / room;
+}
+
+export function solvePrices(
+  totals: EvaluationTotals,
+  params: Pick<TotalsInput["params"], "commissionPct" | "commissionOnNet">,
+  threshold: number
+): PriceSolution {
+  const V0 = totals.ventasTot;
+  const V = requiredSales(totals, params, threshold);
+
+  const lineFloors = totals.lines.map((l, index) => {
+    const keep = 1 - Math.max(0, Math.min(1, l.discountPct || 0));
+    const minNet = V === null || l.kilosMes <= 0 || keep <= 0 ? null : Math.max(0, l.priceSaleKg + (V - V0) / l.kilosMes);
+    return { index, code: l.code, name: l.name, sellPrice: l.sellPrice || 0, minSellPrice: minNet === null ? null : minNet / keep };
+  });
+
+  // Descuento parejo (reemplaza los de cada línea) sobre la venta a precio bruto
+  const grossSales = totals.lines.reduce((a, l) => a + (l.sellPrice || 0) * l.kilosMes, 0);
+  const maxDiscount = V === null || grossSales <= 0 ? null : 1 - V / grossSales;
+
+  return {
+    threshold,
+    currentSales: V0,
+    requiredSales: V,
+    uniformIncreasePct: V === null || V0 <= 0 ? null : V / V0 - 1,
+    lineFloors,
+    maxDiscountPct: maxDiscount === null || maxDiscount < 0 ? null : Math.min(1, maxDiscount),
+  };
+}
+
+// ===================== Aplicar (redondeando hacia el lado viable) =====================
+const ceilPrice = (v: number) => Math.ceil(v - 1e-9);
+
+export const applyUniformIncrease = (lines: SaleLine[], increasePct: number): SaleLine[] =>
+  lines.map((l) => ({ ...l, sellPrice: ceilPrice((l.sellPrice || 0) * (1 + increasePct)) }));
+
+export const applyLinePrice = (lines: SaleLine[], index: number, sellPrice: number): SaleLine[] =>
+  lines.map((l, i) => (i === index ? { ...l, sellPrice: ceilPrice(sellPrice) } : l));
+
+// Descuento en fracción con 0,1% de precisión (como el campo % desc)
+export const applyUniformDiscount = (lines: SaleLine[], discountPct: number): SaleLine[] =>
+  lines.map((l) => ({ ...l, discountPct: Math.floor(discountPct * 1000 + 1e-9) / 1000 }));
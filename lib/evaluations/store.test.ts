@@ -0,0 +1,207 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearSheetCache } from "@/lib/ingestion/proxy";
+import { SCENARIO_VERSION } from "./schema";
+import { ApprovalForbiddenError } from "./approval";
+import { diffEvaluations } from "./audit";
+import {
+  EvaluationVersionNotFoundError,
+  createEvaluation,
+  getEvaluationAudit,
+  getEvaluationVersion,
+  transitionEvaluation,
+  updateEvaluation,
+} from "./store";
+import type { EvaluationData } from "./types";
+
+let dir: string;
+let server: Server;
+// Catálogo del servidor (stub de Google Sheets); catalogUp = false simula la hoja caída
+let catalogUp = true;
+const CATALOG = "https://docs.google.com/spreadsheets/d/catalogo/edit#gid=0";
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "evaluaciones-"));
+  process.env.EVALUATIONS_DIR = dir;
+  server = createServer((req, res) => {
+    if (catalogUp && req.url?.startsWith("/spreadsheets/d/catalogo/export?format=csv")) {
+      res.writeHead(200, { "Content-Type": "text/csv" });
+      res.end("code,name,price_list,cost\nA1,Producto,900,800\nB2,Sin costo,300,\nEQ,Equipo,144000,\n");
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  process.env.SHEETS_UPSTREAM_ORIGIN = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.NEGOCIO_CATALOG_URL = CATALOG;
+});
+
+afterAll(async () => {
+  delete process.env.EVALUATIONS_DIR;
+  delete process.env.SHEETS_UPSTREAM_ORIGIN;
+  delete process.env.NEGOCIO_CATALOG_URL;
+  await new Promise((r) => server.close(r));
+  await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  clearSheetCache();
+  catalogUp = true;
+});
+
+// 100 kg a $1.000 con costo $800 y $12.000/mes de comodato: margen final (100.000 − 80.000 − 12.000) / 100.000 = 8%
+const scenario = (over: Partial<EvaluationData> = {}): EvaluationData => ({
+  version: SCENARIO_VERSION,
+  customerName: "Cliente",
+  executive: "Ejecutivo",
+  viable: true,
+  metrics: { ventasTot: 1, comodatoTotal: 0, comodatoMensual: 0, relComVta: 0, finalMarginPct: 0.99, commissionFinalPct: 0 },
+  params: { commissionPct: 0, months: 12, usePriceListAsCost: true, commissionOnNet: true, includeExisting: false },
+  saleLines: [{ code: "A1", name: "Producto", priceList: 900, kilos: 10, qty: 10, sellPrice: 1000, discountPct: 0, catalogCost: 800 }],
+  comodatoLines: [{ code: "EQ", name: "Equipo", priceList: 144000, qty: 1 }],
+  existingComodato: null,
+  ...over,
+});
+
+describe("resultados recalculados en el servidor", () => {
+  it("no guarda los resultados ni el veredicto que manda el navegador", async () => {
+    const rec = await createEvaluation(scenario());
+    expect(rec.data.metrics.ventasTot).toBe(100000);
+    expect(rec.data.metrics.comodatoMensual).toBe(12000);
+    expect(rec.data.metrics.finalMarginPct).toBeCloseTo(0.08);
+    expect(rec.data.viable).toBe(false);
+
+    const upd = await updateEvaluation(rec.id, scenario({ notes: "otra" }));
+    expect(upd.data.metrics.finalMarginPct).toBeCloseTo(0.08);
+    expect(upd.data.viable).toBe(false);
+  });
+
+  it("al enviar usa el margen recalculado: no se aprueba sola con resultados inflados", async () => {
+    const rec = await createEvaluation(scenario());
+    const sent = await transitionEvaluation(rec.id, "submit", { by: "Ejecutivo", role: "ejecutivo" });
+    expect(sent.approval?.status).toBe("submitted");
+    expect(sent.approval?.reasons[0]).toMatch(/^Margen final 8\.0%/);
+  });
+
+  it("sin costo de catálogo, usa el precio lista del catálogo si así está configurado", async () => {
+    const rec = await createEvaluation(scenario({ saleLines: [{ code: "B2", name: "Sin costo", priceList: 0, kilos: 10, qty: 10, sellPrice: 1000, discountPct: 0 }] }));
+    expect(rec.data.saleLines[0].priceList).toBe(300);
+    expect(rec.data.metrics.finalMarginPct).toBeCloseTo(0.58);
+    expect(rec.data.viable).toBe(true);
+  });
+});
+
+describe("costos del catálogo del servidor", () => {
+  const cheap = { code: "A1", name: "Producto", priceList: 1, kilos: 10, qty: 10, sellPrice: 1000, discountPct: 0, catalogCost: 1 };
+
+  it("ignora lista y costo que manda el navegador para códigos del catálogo", async () => {
+    const rec = await createEvaluation(scenario({ saleLines: [cheap] }));
+    expect(rec.data.saleLines[0]).toMatchObject({ priceList: 900, catalogCost: 800 });
+    expect(rec.data.metrics.finalMarginPct).toBeCloseTo(0.08);
+    expect(rec.data.viable).toBe(false);
+  });
+
+  it("toma el costo de los equipos del catálogo, no el que manda el navegador", async () => {
+    const rec = await createEvaluation(scenario({ comodatoLines: [{ code: "EQ", name: "Equipo", priceList: 0, qty: 1 }] }));
+    expect(rec.data.comodatoLines[0].priceList).toBe(144000);
+    expect(rec.data.metrics.comodatoMensual).toBe(12000);
+    expect(rec.data.viable).toBe(false);
+  });
+
+  it("un equipo fuera del catálogo no se aprueba solo aunque cumpla el margen", async () => {
+    const rec = await createEvaluation(
+      scenario({ saleLines: [{ ...cheap, sellPrice: 2000 }], comodatoLines: [{ code: "EQ9", name: "Otro", priceList: 0, qty: 1 }] })
+    );
+    expect(rec.data.viable).toBe(true);
+    const sent = await transitionEvaluation(rec.id, "submit", { by: "Ejecutivo", role: "ejecutivo" });
+    expect(sent.approval?.status).toBe("submitted");
+    expect(sent.approval?.reasons).toEqual(["Equipo EQ9 no está en el catálogo: su costo no está verificado"]);
+  });
+
+  it("un código fuera del catálogo no se aprueba solo aunque cumpla el margen", async () => {
+    const rec = await createEvaluation(scenario({ saleLines: [{ ...cheap, code: "ZZ9" }] }));
+    expect(rec.data.viable).toBe(true);
+    const sent = await transitionEvaluation(rec.id, "submit", { by: "Ejecutivo", role: "ejecutivo" });
+    expect(sent.approval?.status).toBe("submitted");
+    expect(sent.approval?.reasons).toEqual(["ZZ9 no está en el catálogo: su costo no está verificado"]);
+  });
+
+  it("si no se puede leer el catálogo, enviar siempre pide aprobación", async () => {
+    catalogUp = false;
+    const rec = await createEvaluation(scenario({ saleLines: [cheap] }));
+    expect(rec.data.saleLines[0].catalogCost).toBe(1);
+    const sent = await transitionEvaluation(rec.id, "submit", { by: "Ejecutivo", role: "ejecutivo" });
+    expect(sent.approval?.status).toBe("submitted");
+    expect(sent.approval?.reasons).toEqual(["No se pudo leer el catálogo del servidor: los costos de las líneas no están verificados"]);
+  });
+});
+
+describe("permisos de aprobación", () => {
+  const approved = async () => {
+    const rec = await createEvaluation(scenario({ executive: "Ana" }), { by: "Ana" });
+    await transitionEvaluation(rec.id, "submit", { by: "Ana", role: "ejecutivo" });
+    await transitionEvaluation(rec.id, "approve", { by: "Gerente", role: "gerente", justification: "Cliente estratégico" });
+    return rec;
+  };
+
+  it("un ejecutivo no puede aprobar ni reabrir una evaluación aprobada, aunque sea suya", async () => {
+    const rec = await createEvaluation(scenario({ executive: "Ana" }), { by: "Ana" });
+    await transitionEvaluation(rec.id, "submit", { by: "Ana", role: "ejecutivo" });
+    await expect(transitionEvaluation(rec.id, "approve", { by: "Ana", role: "ejecutivo", justification: "ok" })).rejects.toThrow(ApprovalForbiddenError);
+
+    const done = await approved();
+    await expect(transitionEvaluation(done.id, "reopen", { by: "Ana", role: "ejecutivo" })).rejects.toThrow(ApprovalForbiddenError);
+    const reopened = await transitionEvaluation(done.id, "reopen", { by: "Gerente", role: "gerente" });
+    expect(reopened.approval?.status).toBe("draft");
+  });
+
+  it("solo quien creó una evaluación enviada puede reabrirla sin ser aprobador", async () => {
+    const rec = await createEvaluation(scenario({ executive: "Ana" }), { by: "Ana" });
+    await transitionEvaluation(rec.id, "submit", { by: "Ana", role: "ejecutivo" });
+    await expect(transitionEvaluation(rec.id, "reopen", { by: "Beto", role: "ejecutivo" })).rejects.toThrow(ApprovalForbiddenError);
+    const reopened = await transitionEvaluation(rec.id, "reopen", { by: "Ana", role: "ejecutivo" });
+    expect(reopened.approval?.status).toBe("draft");
+  });
+});
+
+describe("historial y registro de cambios", () => {
+  const auditText = (id: string) => readFile(path.join(dir, "_history", id, "audit.jsonl"), "utf8");
+
+  it("la diferencia entre dos versiones informa líneas cambiadas, agregadas y quitadas", async () => {
+    const rec = await createEvaluation(scenario({ saleLines: [...scenario().saleLines, { code: "B2", name: "Sin costo", priceList: 300, kilos: 10, qty: 5, sellPrice: 400, discountPct: 0 }] }));
+    await updateEvaluation(rec.id, scenario({ saleLines: [{ ...scenario().saleLines[0], sellPrice: 1100 }], comodatoLines: [...scenario().comodatoLines, { code: "EQ9", name: "Otro", priceList: 5000, qty: 2 }] }));
+    const changes = diffEvaluations(await getEvaluationVersion(rec.id, 1), await getEvaluationVersion(rec.id, 2));
+    expect(changes.map((c) => [c.field, c.old, c.new])).toEqual([
+      ["saleLines.A1.sellPrice", 1000, 1100],
+      ["saleLines.B2", "5 × Sin costo a $400/kg", null],
+      ["comodatoLines.EQ9", null, "2 × Otro a $5.000/mes"],
+    ]);
+    await expect(getEvaluationVersion(rec.id, 3)).rejects.toThrow(EvaluationVersionNotFoundError);
+  });
+
+  it("el registro solo crece: guardar y cambiar de estado agregan líneas sin tocar las anteriores", async () => {
+    const rec = await createEvaluation(scenario(), { by: "Ana" });
+    const afterCreate = await auditText(rec.id);
+    await updateEvaluation(rec.id, scenario({ notes: "otra" }), { by: "Ana" });
+    const afterUpdate = await auditText(rec.id);
+    await updateEvaluation(rec.id, scenario({ notes: "otra" }), { by: "Ana" }); // sin cambios: no agrega
+    expect(await auditText(rec.id)).toBe(afterUpdate);
+    await transitionEvaluation(rec.id, "submit", { by: "Ana", role: "ejecutivo" });
+    const afterSubmit = await auditText(rec.id);
+
+    expect(afterUpdate.startsWith(afterCreate)).toBe(true);
+    expect(afterSubmit.startsWith(afterUpdate)).toBe(true);
+    const entries = await getEvaluationAudit(rec.id);
+    expect(entries.map((e) => [e.version, e.action, e.approvalStatus])).toEqual([
+      [1, "create", "draft"],
+      [2, "update", "draft"],
+      [2, "approval", "submitted"],
+    ]);
+    expect(entries[1].changes).toEqual([{ field: "notes", label: "Observaciones", old: null, new: "otra", format: "text" }]);
+  });
+});
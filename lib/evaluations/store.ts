@@ -0,0 +1,295 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { can, type Role } from "@/lib/auth/roles";
+import { toISODate } from "@/lib/dates";
+import { readJSON, withFileLock, writeJSONAtomic } from "@/lib/jsonfiles";
+import { cleanRut } from "@/lib/rut";
+import {
+  APPROVAL_STATUS_LABELS,
+  ApprovalForbiddenError,
+  DEFAULT_APPROVAL_POLICY,
+  SYSTEM_APPROVER,
+  approvalReasons,
+  newApproval,
+  transitionApproval,
+  unverifiedCostReasons,
+  type Approval,
+  type ApprovalAction,
+  type ApprovalPolicy,
+} from "./approval";
+import { diffEvaluations, type AuditEntry, type FieldChange } from "./audit";
+import { catalogItem, type Catalog } from "./catalog";
+import { upgradeScenario } from "./schema";
+import { loadServerCatalog } from "./serverCatalog";
+import { evaluationTotals, metricsOf } from "./totals";
+import { summarizeEvaluation, type EvaluationData, type EvaluationQuery, type EvaluationRecord, type EvaluationSummary } from "./types";
+
+// ==============================
+// Repositorio de evaluaciones (solo servidor): un archivo JSON por evaluación.
+// Historial en _history/<id>/: una copia por versión (v<N>.json) y el registro de cambios
+// (audit.jsonl, solo se agregan líneas).
+// Variables de entorno:
+//   EVALUATIONS_DIR            carpeta del repositorio (def. ./data/evaluations)
+//   APPROVAL_MIN_MARGIN_PCT    margen final mínimo sin aprobación (0..1, def. 0.5)
+//   APPROVAL_MAX_DISCOUNT_PCT  descuento máximo por línea sin aprobación (0..1, def. 0.1)
+//   NEGOCIO_CATALOG_URL        catálogo con el que se costean las líneas (ver serverCatalog.ts)
+// ==============================
+
+const COUNTER_FILE = "_counter.json";
+const HISTORY_DIR = "_history";
+const AUDIT_FILE = "audit.jsonl";
+const LOCK_FILE = "_lock";
+
+export class EvaluationVersionNotFoundError extends Error {
+  constructor(id: string, version: number) {
+    super(`La evaluación ${id} no tiene versión ${version}`);
+    this.name = "EvaluationVersionNotFoundError";
+  }
+}
+
+export class EvaluationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`No existe la evaluación ${id}`);
+    this.name = "EvaluationNotFoundError";
+  }
+}
+
+export function evaluationsDir(): string {
+  return process.env.EVALUATIONS_DIR || path.join(process.cwd(), "data", "evaluations");
+}
+
+function envPct(name: string, fallback: number): number {
+  const v = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(v) && v >= 0 && v <= 1 ? v : fallback;
+}
+
+export function approvalPolicy(): ApprovalPolicy {
+  return {
+    minMarginPct: envPct("APPROVAL_MIN_MARGIN_PCT", DEFAULT_APPROVAL_POLICY.minMarginPct),
+    maxDiscountPct: envPct("APPROVAL_MAX_DISCOUNT_PCT", DEFAULT_APPROVAL_POLICY.maxDiscountPct),
+  };
+}
+
+// Los ids vienen de la URL: solo se aceptan los generados aquí (sin rutas)
+const isSafeId = (id: string) => /^[A-Za-z0-9-]{1,64}$/.test(id);
+const fileOf = (id: string) => path.join(evaluationsDir(), `${id}.json`);
+const historyOf = (id: string) => path.join(evaluationsDir(), HISTORY_DIR, id);
+
+type VersionSnapshot = { version: number; at: string; by: string; data: EvaluationData };
+
+async function writeVersion(id: string, snap: VersionSnapshot) {
+  await fs.mkdir(historyOf(id), { recursive: true });
+  await writeJSONAtomic(path.join(historyOf(id), `v${snap.version}.json`), snap);
+}
+
+async function appendAudit(id: string, entry: AuditEntry) {
+  await fs.mkdir(historyOf(id), { recursive: true });
+  await fs.appendFile(path.join(historyOf(id), AUDIT_FILE), JSON.stringify(entry) + "\n", "utf8");
+}
+
+const withLock = <T>(fn: () => Promise<T>): Promise<T> =>
+  withFileLock(path.join(evaluationsDir(), LOCK_FILE), fn, "Repositorio de evaluaciones ocupado; intenta de nuevo");
+
+async function nextDocNumber(): Promise<number> {
+  const file = path.join(evaluationsDir(), COUNTER_FILE);
+  const cur = await readJSON<{ last: number }>(file);
+  const next = (Number(cur?.last) || 0) + 1;
+  await writeJSONAtomic(file, { last: next });
+  return next;
+}
+
+// Resultados y veredicto se recalculan aquí: los que manda el navegador no se guardan ni se usan para aprobar.
+// Lista y costo de las líneas de venta y costo de los equipos cuyo código está en el catálogo del servidor
+// se toman de él; los demás conservan los del navegador y al enviar requieren aprobación (unverifiedCostReasons).
+function withServerMetrics(data: EvaluationData, catalog: Catalog | null): EvaluationData {
+  const saleLines = data.saleLines.map((l) => {
+    const it = catalogItem(catalog, l.code);
+    if (!it) return l;
+    const { catalogCost: _sent, ...line } = l;
+    return { ...line, priceList: it.price_list, ...(it.cost !== undefined ? { catalogCost: it.cost } : {}) };
+  });
+  const comodatoLines = data.comodatoLines.map((l) => {
+    const it = catalogItem(catalog, l.code);
+    return it ? { ...l, priceList: it.price_list } : l;
+  });
+  const resolved = { ...data, saleLines, comodatoLines };
+  const metrics = metricsOf(evaluationTotals(resolved));
+  return { ...resolved, metrics, viable: metrics.finalMarginPct >= approvalPolicy().minMarginPct };
+}
+
+const approvalOf = (rec: EvaluationRecord): Approval => rec.approval || newApproval(rec.data.executive || SYSTEM_APPROVER, rec.createdAt);
+
+// Las guardadas con un formato anterior se entregan migradas (el archivo se reescribe al volver a guardar)
+const loaded = (rec: EvaluationRecord): EvaluationRecord => ({ ...rec, approval: approvalOf(rec), data: upgradeScenario(rec.data) });
+
+export async function getEvaluation(id: string): Promise<EvaluationRecord> {
+  if (!isSafeId(id)) throw new EvaluationNotFoundError(id);
+  const rec = await readJSON<EvaluationRecord>(fileOf(id));
+  if (!rec) throw new EvaluationNotFoundError(id);
+  return loaded(rec);
+}
+
+export async function createEvaluation(input: EvaluationData, opts: { clonedFrom?: string; by?: string } = {}): Promise<EvaluationRecord> {
+  const data = withServerMetrics(input, await loadServerCatalog());
+  return withLock(async () => {
+    const now = new Date().toISOString();
+    const rec: EvaluationRecord = {
+      id: randomUUID(),
+      docNumber: await nextDocNumber(),
+      createdAt: now,
+      updatedAt: now,
+      ...(opts.clonedFrom && isSafeId(opts.clonedFrom) ? { clonedFrom: opts.clonedFrom } : {}),
+      version: 1,
+      approval: newApproval(opts.by || data.executive || SYSTEM_APPROVER, now),
+      data,
+    };
+    const by = opts.by || data.executive || SYSTEM_APPROVER;
+    await writeJSONAtomic(fileOf(rec.id), rec);
+    await writeVersion(rec.id, { version: 1, at: now, by, data });
+    await appendAudit(rec.id, { version: 1, at: now, by, action: "create", changes: diffEvaluations(null, data), approvalStatus: "draft" });
+    return rec;
+  });
+}
+
+// Conserva id, correlativo y fecha de creación. Si cambia algún campo registrado se crea una versión
+// nueva y una línea en el registro; una evaluación ya enviada o resuelta vuelve además a borrador:
+// la aprobación corresponde a los números que se revisaron.
+export async function updateEvaluation(id: string, input: EvaluationData, opts: { by?: string } = {}): Promise<EvaluationRecord> {
+  const data = withServerMetrics(input, await loadServerCatalog());
+  return withLock(async () => {
+    const prev = await getEvaluation(id);
+    const now = new Date().toISOString();
+    const by = opts.by || data.executive || SYSTEM_APPROVER;
+    const changes = diffEvaluations(prev.data, data);
+    const prevVersion = prev.version || 1;
+    if (!changes.length) {
+      const rec: EvaluationRecord = { ...prev, updatedAt: now, data };
+      await writeJSONAtomic(fileOf(id), rec);
+      return rec;
+    }
+
+    let approval = approvalOf(prev);
+    if (approval.status !== "draft") {
+      changes.push({ field: "approval.status", label: "Estado de aprobación", old: APPROVAL_STATUS_LABELS[approval.status], new: APPROVAL_STATUS_LABELS.draft, format: "text" });
+      approval = transitionApproval(approval, "reopen", { by, justification: "Evaluación modificada", reasons: [], at: now });
+    }
+    // Evaluaciones guardadas antes del historial: su estado anterior pasa a ser la versión 1
+    if (!prev.version) await writeVersion(id, { version: 1, at: prev.updatedAt, by: prev.data.executive || SYSTEM_APPROVER, data: prev.data });
+    const version = prevVersion + 1;
+    const rec: EvaluationRecord = { ...prev, updatedAt: now, version, approval, data };
+    await writeJSONAtomic(fileOf(id), rec);
+    await writeVersion(id, { version, at: now, by, data });
+    await appendAudit(id, { version, at: now, by, action: "update", changes, approvalStatus: approval.status });
+    return rec;
+  });
+}
+
+// Envío, aprobación, rechazo o reapertura. Los motivos se recalculan aquí con la política del servidor
+// y los resultados recalculados de la evaluación (también las guardadas antes de recalcular al guardar).
+// Aprobar, rechazar y reabrir una aprobada exigen evaluations.approve; sin ese permiso solo quien la creó
+// o su ejecutivo puede reabrirla (enviada o rechazada), para no deshacer una aprobación y editarla.
+export async function transitionEvaluation(
+  id: string,
+  action: ApprovalAction,
+  opts: { by: string; role: Role; justification?: string }
+): Promise<EvaluationRecord> {
+  const catalog = action === "submit" ? await loadServerCatalog() : null;
+  return withLock(async () => {
+    const prev = await getEvaluation(id);
+    if (!can(opts.role, "evaluations.approve")) {
+      if (action === "approve" || action === "reject") throw new ApprovalForbiddenError("Solo gerentes y administradores pueden aprobar o rechazar");
+      const status = approvalOf(prev).status;
+      const owner = approvalOf(prev).history[0]?.by === opts.by || prev.data.executive === opts.by;
+      if (action === "reopen" && (status === "approved" || status === "approved-exception" || !owner))
+        throw new ApprovalForbiddenError("Solo gerentes y administradores pueden reabrir una evaluación aprobada o de otro ejecutivo");
+    }
+    const now = new Date().toISOString();
+    const reasons =
+      action === "submit"
+        ? [...approvalReasons(withServerMetrics(prev.data, catalog), approvalPolicy()), ...unverifiedCostReasons(prev.data, catalog)]
+        : [];
+    const before = approvalOf(prev);
+    const approval = transitionApproval(before, action, { by: opts.by, justification: opts.justification, reasons, at: now });
+    const rec: EvaluationRecord = { ...prev, updatedAt: now, approval };
+    await writeJSONAtomic(fileOf(id), rec);
+    if (approval.status !== before.status) {
+      const change: FieldChange = {
+        field: "approval.status",
+        label: "Estado de aprobación",
+        old: APPROVAL_STATUS_LABELS[before.status],
+        new: APPROVAL_STATUS_LABELS[approval.status],
+        format: "text",
+      };
+      // Si el envío se aprobó solo, la nota lo dice (quien envió no es quien aprobó)
+      const last = approval.history[approval.history.length - 1];
+      const notes = [opts.justification?.trim(), last.by === SYSTEM_APPROVER ? `${SYSTEM_APPROVER}: ${last.justification}` : ""].filter(Boolean);
+      await appendAudit(id, {
+        version: prev.version || 1,
+        at: now,
+        by: opts.by,
+        action: "approval",
+        changes: [change],
+        approvalStatus: approval.status,
+        ...(notes.length ? { note: notes.join(" · ") } : {}),
+      });
+    }
+    return rec;
+  });
+}
+
+// Registro completo, más antiguo primero. Las evaluaciones previas al historial no tienen líneas.
+export async function getEvaluationAudit(id: string): Promise<AuditEntry[]> {
+  await getEvaluation(id); // 404 si no existe
+  const raw = await fs.readFile(path.join(historyOf(id), AUDIT_FILE), "utf8").catch((e: any) => (e?.code === "ENOENT" ? "" : Promise.reject(e)));
+  const out: AuditEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try { out.push(JSON.parse(line)); } catch { /* línea truncada por una caída: se ignora */ }
+  }
+  return out;
+}
+
+export async function getEvaluationVersion(id: string, version: number): Promise<EvaluationData> {
+  const rec = await getEvaluation(id);
+  const snap = Number.isInteger(version) && version > 0 ? await readJSON<VersionSnapshot>(path.join(historyOf(id), `v${version}.json`)) : null;
+  if (snap) return upgradeScenario(snap.data);
+  if (version === (rec.version || 1)) return rec.data; // versión vigente sin copia (evaluación anterior al historial)
+  throw new EvaluationVersionNotFoundError(id, version);
+}
+
+async function readAll(): Promise<EvaluationRecord[]> {
+  const dir = evaluationsDir();
+  const names = await fs.readdir(dir).catch((e: any) => (e?.code === "ENOENT" ? [] : Promise.reject(e)));
+  const out: EvaluationRecord[] = [];
+  for (const n of names) {
+    if (!n.endsWith(".json") || n.startsWith("_")) continue;
+    const rec = await readJSON<EvaluationRecord>(path.join(dir, n)).catch(() => null);
+    if (rec && rec.id && rec.data) out.push(loaded(rec));
+  }
+  return out;
+}
+
+export async function listEvaluations(query: EvaluationQuery = {}): Promise<EvaluationSummary[]> {
+  const q = (query.q || "").trim().toLowerCase();
+  const qRut = /^[\d.\-\sk]+$/.test(q) ? cleanRut(q) : ""; // solo si parece RUT
+  const rut = cleanRut(query.rut || "");
+  const exec = (query.executive || "").trim().toLowerCase();
+  const all = await readAll();
+  return all
+    .filter((r) => {
+      const d = r.data;
+      if (q && !(d.customerName || "").toLowerCase().includes(q) && !(qRut && cleanRut(d.clientRut || "").includes(qRut))) return false;
+      if (rut && cleanRut(d.clientRut || "") !== rut) return false;
+      if (exec && !(d.executive || "").toLowerCase().includes(exec)) return false;
+      const day = toISODate(new Date(r.createdAt));
+      if (query.from && day < query.from) return false;
+      if (query.to && day > query.to) return false;
+      if (query.verdict && (query.verdict === "viable") !== !!d.viable) return false;
+      if (query.status && r.approval?.status !== query.status) return false;
+      return true;
+    })
+    .sort((a, b) => b.docNumber - a.docNumber)
+    .slice(0, query.limit && query.limit > 0 ? query.limit : 200)
+    .map(summarizeEvaluation);
+}
@@ -0,0 +1,132 @@
+import type { ComodatoLine, EvaluationData, EvaluationMetrics, EvaluationParams, SaleLine } from "./types";
+
+// ==============================
+// Cálculo de una evaluación (comodato prorrateado por ventas, comisión sobre ventas).
+// Lo usan el formulario de /negocio, la comparación de variantes y el servidor al guardar.
+// ==============================
+
+// Lo que se necesita del catálogo para costear una línea
+export type CostItem = {
+  price_list: number;
+  cost?: number; // $/kg
+  kilos?: number; // kg por presentación
+};
+
+export type TotalsInput = {
+  saleLines: SaleLine[];
+  comodatoLines: ComodatoLine[];
+  params: Pick<EvaluationParams, "commissionPct" | "months" | "usePriceListAsCost" | "commissionOnNet">;
+  comodatoVigenteMensual: number; // cuota de los equipos que el cliente ya tiene (0 si no se incluye)
+};
+
+export type TotalsLine = SaleLine & {
+  kilosMes: number;
+  priceSaleKg: number; // con descuento
+  venta: number;
+  costoKg: number;
+  margenBruto: number;
+  asigComodato: number;
+  comision: number;
+  margenFinal: number;
+  margenFinalPct: number;
+};
+
+export type EvaluationTotals = {
+  ventasTot: number;
+  comodatoTotalEquipos: number;
+  comodatoMensual: number;
+  comodatoVigenteMensual: number;
+  comodatoMensualTotal: number;
+  relComVta: number;
+  lines: TotalsLine[];
+  finalMarginPct: number;
+  commissionTotal: number;
+  commissionFinalPct: number; // comisión total / ventas
+};
+
+export function computeTotals(input: TotalsInput, getItem: (code: string) => CostItem | undefined): EvaluationTotals {
+  const { saleLines, comodatoLines, comodatoVigenteMensual } = input;
+  const { commissionPct, months, usePriceListAsCost, commissionOnNet } = input.params;
+
+  const lineData = saleLines.map((l) => {
+    const it = getItem(l.code);
+    const kilosUnit = l.kilos || it?.kilos || 1;
+    const kilosMes = (l.qty || 0) * kilosUnit;
+    const priceSaleKgBase = l.sellPrice || 0;
+    const discount = l.discountPct ? Math.max(0, Math.min(1, l.discountPct)) : 0;
+    const priceSaleKg = priceSaleKgBase * (1 - discount);
+    const venta = priceSaleKg * kilosMes; // $ por línea
+    const costoKg =
+      l.costOverride !== undefined && l.costOverride !== null
+        ? Number(l.costOverride)
+        : it?.cost !== undefined
+        ? it.cost
+        : usePriceListAsCost
+        ? it?.price_list ?? 0
+        : 0;
+    const margenBruto = (priceSaleKg - costoKg) * kilosMes; // $
+    return { ...l, kilosMes, priceSaleKg, venta, costoKg, margenBruto };
+  });
+
+  const ventasTot = lineData.reduce((a, r) => a + r.venta, 0);
+
+  // TOTAL de comodato (sumo todos los equipos * cantidad)
+  const comodatoTotalEquipos = comodatoLines.reduce((a, l) => a + (l.priceList || 0) * (l.qty || 1), 0);
+  // MENSUAL = total / meses
+  const comodatoMensual = months > 0 ? comodatoTotalEquipos / months : comodatoTotalEquipos;
+  // + cuota de los equipos que el cliente ya tiene (si se incluye)
+  const comodatoMensualTotal = comodatoMensual + comodatoVigenteMensual;
+
+  const relComVta = ventasTot > 0 ? comodatoMensualTotal / ventasTot : 0;
+
+  const lines = lineData.map((r) => {
+    const asigComodato = ventasTot > 0 ? (r.venta / ventasTot) * comodatoMensualTotal : 0;
+    const commissionBase = commissionOnNet ? Math.max(0, r.venta - asigComodato) : r.venta;
+    const comision = commissionPct * commissionBase; // % sobre base (bruta o neta de comodato)
+    const margenFinal = r.margenBruto - asigComodato - comision;
+    const margenFinalPct = r.venta > 0 ? margenFinal / r.venta : 0;
+    return { ...r, asigComodato, comision, margenFinal, margenFinalPct };
+  });
+
+  const T_total = lines.reduce((a, r) => a + r.margenFinal, 0);
+  const U_total = ventasTot > 0 ? T_total / ventasTot : 0;
+  const commissionTotal = lines.reduce((a, r) => a + (r.comision || 0), 0);
+
+  return {
+    ventasTot,
+    comodatoTotalEquipos,
+    comodatoMensual,
+    comodatoVigenteMensual,
+    comodatoMensualTotal,
+    relComVta,
+    lines,
+    finalMarginPct: U_total,
+    commissionTotal,
+    commissionFinalPct: ventasTot > 0 ? commissionTotal / ventasTot : 0,
+  };
+}
+
+export const metricsOf = (t: EvaluationTotals): EvaluationMetrics => ({
+  ventasTot: t.ventasTot,
+  comodatoTotal: t.comodatoTotalEquipos,
+  comodatoMensual: t.comodatoMensual,
+  comodatoVigenteMensual: t.comodatoVigenteMensual,
+  comodatoMensualTotal: t.comodatoMensualTotal,
+  relComVta: t.relComVta,
+  finalMarginPct: t.finalMarginPct,
+  commissionFinalPct: t.commissionFinalPct,
+});
+
+// Evaluación guardada: lista, costo y kilos salen de cada línea (el repositorio ya puso en ellas los del
+// catálogo del servidor, ver withServerMetrics en store.ts)
+export function evaluationTotals(data: EvaluationData): EvaluationTotals {
+  const items = new Map<string, CostItem>();
+  data.saleLines.forEach((l) => {
+    if (!items.has(l.code)) items.set(l.code, { price_list: l.priceList || 0, cost: l.catalogCost, kilos: l.kilos });
+  });
+  const vigente = data.params.includeExisting && data.existingComodato ? data.existingComodato.comodatoMensualVigente || 0 : 0;
+  return computeTotals(
+    { saleLines: data.saleLines, comodatoLines: data.comodatoLines, params: data.params, comodatoVigenteMensual: vigente },
+    (code) => items.get(code)
+  );
+}
@@ -0,0 +1,119 @@
+import type { ExistingComodato } from "@/lib/comodatos/lookup";
+import type { Approval, ApprovalStatus } from "./approval";
+
+// ==============================
+// Tipos de una evaluación de negocio (formulario de /negocio y repositorio)
+// ==============================
+
+export type SaleLine = {
+  code: string;
+  name: string;
+  priceList: number; // $/kg (lista, solo lectura)
+  kilos: number; // kg/presentación
+  qty: number; // presentaciones por mes
+  sellPrice: number; // $/kg (precio de venta)
+  // ==== NUEVO ====
+  discountPct: number; // 0..1
+  costOverride?: number; // $/kg, opcional
+  catalogCost?: number; // $/kg de la columna costo del catálogo al guardar (el servidor recalcula con él)
+};
+
+export type ComodatoLine = {
+  code: string;
+  name: string;
+  priceList: number; // costo mensual del equipo
+  qty: number; // cantidad de equipos
+};
+
+export type EvaluationParams = {
+  commissionPct: number;
+  months: number;
+  usePriceListAsCost: boolean;
+  commissionOnNet: boolean;
+  includeExisting: boolean;
+};
+
+// Resultados al momento de guardar (para listar y buscar sin recalcular)
+export type EvaluationMetrics = {
+  ventasTot: number;
+  comodatoTotal: number;
+  comodatoMensual: number;
+  comodatoVigenteMensual?: number;
+  comodatoMensualTotal?: number;
+  relComVta: number;
+  finalMarginPct: number;
+  commissionFinalPct: number;
+};
+
+// Mismo formato que "Exportar" (JSON scenario-v3, ver schema.ts) más los datos del cliente
+export type EvaluationData = {
+  version: "scenario-v3";
+  customerName: string;
+  clientRut?: string;
+  clientCity?: string;
+  executive?: string;
+  notes?: string;
+  date?: string; // fecha mostrada en el formulario (dd-mm-aaaa)
+  viable: boolean;
+  metrics: EvaluationMetrics;
+  params: EvaluationParams;
+  saleLines: SaleLine[];
+  comodatoLines: ComodatoLine[];
+  existingComodato: ExistingComodato | null;
+};
+
+export type EvaluationRecord = {
+  id: string;
+  docNumber: number; // correlativo asignado por el servidor
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  clonedFrom?: string; // id de la evaluación de origen
+  version?: number; // versión de los datos (1 al crear; ausente en las guardadas antes del historial)
+  approval?: Approval; // ausente en evaluaciones guardadas antes del flujo de aprobación (= borrador)
+  data: EvaluationData;
+};
+
+export type EvaluationSummary = {
+  id: string;
+  docNumber: number;
+  createdAt: string;
+  updatedAt: string;
+  clonedFrom?: string;
+  customerName: string;
+  clientRut?: string;
+  executive?: string;
+  viable: boolean;
+  ventasTot: number;
+  relComVta: number;
+  finalMarginPct: number;
+  approvalStatus: ApprovalStatus;
+};
+
+export type Verdict = "viable" | "no-viable";
+
+export type EvaluationQuery = {
+  q?: string; // cliente o RUT (contiene)
+  rut?: string;
+  executive?: string;
+  from?: string; // aaaa-mm-dd (fecha de creación, inclusive)
+  to?: string;
+  verdict?: Verdict;
+  status?: ApprovalStatus;
+  limit?: number;
+};
+
+export const summarizeEvaluation = (r: EvaluationRecord): EvaluationSummary => ({
+  id: r.id,
+  docNumber: r.docNumber,
+  createdAt: r.createdAt,
+  updatedAt: r.updatedAt,
+  clonedFrom: r.clonedFrom,
+  customerName: r.data.customerName || "",
+  clientRut: r.data.clientRut,
+  executive: r.data.executive,
+  viable: !!r.data.viable,
+  ventasTot: r.data.metrics?.ventasTot || 0,
+  relComVta: r.data.metrics?.relComVta || 0,
+  finalMarginPct: r.data.metrics?.finalMarginPct || 0,
+  approvalStatus: r.approval?.status || "draft",
+});
@@ -0,0 +1,121 @@
+import type { ExistingComodato } from "@/lib/comodatos/lookup";
+import { rutKey } from "@/lib/rut";
+import type { TotalsInput } from "./totals";
+
+// ==============================
+// Espacio de trabajo de /negocio: varias evaluaciones abiertas a la vez (pestañas).
+// Cada pestaña guarda su formulario en sus propias claves de localStorage a cada cambio;
+// la pestaña inicial usa las claves de siempre, así lo que ya estaba en el navegador se conserva.
+// ==============================
+
+export type WorkspaceTab = {
+  id: string;
+  title: string; // cliente y N° de la evaluación (se actualiza al editar)
+  group?: string; // variantes de una misma propuesta comparten grupo
+  variant?: string; // nombre de la variante (p. ej. "Precio lista")
+};
+
+export const DEFAULT_TAB_ID = "principal";
+
+export const WORKSPACE_STORAGE = {
+  tabs: "workspace.tabs",
+  active: "workspace.active",
+} as const;
+
+// Claves del formulario que son de cada evaluación (catálogo, tema, logo, etc. son comunes)
+export const EVALUATION_KEYS = [
+  "sales",
+  "comodato",
+  "customerName",
+  "commission",
+  "months",
+  "useListAsCost",
+  "commissionOnNet",
+  "client.rut",
+  "client.city",
+  "client.exec",
+  "notes",
+  "eval.id",
+  "eval.docNumber",
+  "eval.clonedFrom",
+  "eval.approval",
+  "existing.include",
+  "existing.comodato",
+] as const;
+
+export type EvaluationKey = (typeof EVALUATION_KEYS)[number];
+
+export const evaluationKey = (tabId: string, key: EvaluationKey) => (tabId === DEFAULT_TAB_ID ? key : `ws.${tabId}.${key}`);
+
+export const newTabId = () => `ev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const tabTitle = (customerName: string, docNumber: number | null) =>
+  (customerName.trim() || "Sin cliente") + (docNumber ? ` · N° ${docNumber}` : "");
+
+function readKey<T>(tabId: string, key: EvaluationKey): T | null {
+  try {
+    const raw = localStorage.getItem(evaluationKey(tabId, key));
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Valores iniciales del formulario (los mismos que usa /negocio al abrir una pestaña en blanco)
+export const DEFAULT_FORM_PARAMS: TotalsInput["params"] & { includeExisting: boolean } = {
+  commissionPct: 0,
+  months: 12,
+  usePriceListAsCost: true,
+  commissionOnNet: true,
+  includeExisting: false,
+};
+
+// Lo necesario para calcular una pestaña que no es la activa (comparación de variantes)
+export type TabForm = TotalsInput & {
+  customerName: string;
+  docNumber: number | null;
+};
+
+export function readTabForm(tabId: string): TabForm {
+  const clientRut = readKey<string>(tabId, "client.rut") || "";
+  const existing = readKey<ExistingComodato>(tabId, "existing.comodato");
+  const include = readKey<boolean>(tabId, "existing.include") ?? DEFAULT_FORM_PARAMS.includeExisting;
+  // Igual que en el formulario: el comodato vigente solo cuenta si corresponde al RUT escrito
+  const vigente = include && existing && existing.rut === rutKey(clientRut).key ? existing.comodatoMensualVigente : 0;
+  return {
+    customerName: readKey<string>(tabId, "customerName") || "",
+    docNumber: readKey<number>(tabId, "eval.docNumber"),
+    saleLines: readKey(tabId, "sales") || [],
+    comodatoLines: readKey(tabId, "comodato") || [],
+    params: {
+      commissionPct: readKey<number>(tabId, "commission") ?? DEFAULT_FORM_PARAMS.commissionPct,
+      months: readKey<number>(tabId, "months") ?? DEFAULT_FORM_PARAMS.months,
+      usePriceListAsCost: readKey<boolean>(tabId, "useListAsCost") ?? DEFAULT_FORM_PARAMS.usePriceListAsCost,
+      commissionOnNet: readKey<boolean>(tabId, "commissionOnNet") ?? DEFAULT_FORM_PARAMS.commissionOnNet,
+    },
+    comodatoVigenteMensual: vigente,
+  };
+}
+
+// Variante: copia el formulario a otra pestaña como borrador nuevo (sin N° ni aprobación).
+// clonedFrom = evaluación guardada de origen, para que el servidor compare los permisos contra ella
+export function forkTabStorage(fromId: string, toId: string, clonedFrom: string | null) {
+  const skip: EvaluationKey[] = ["eval.id", "eval.docNumber", "eval.approval", "eval.clonedFrom"];
+  try {
+    EVALUATION_KEYS.filter((k) => !skip.includes(k)).forEach((k) => {
+      const raw = localStorage.getItem(evaluationKey(fromId, k));
+      if (raw !== null) localStorage.setItem(evaluationKey(toId, k), raw);
+    });
+    localStorage.setItem(evaluationKey(toId, "eval.clonedFrom"), JSON.stringify(clonedFrom));
+  } catch {}
+}
+
+// Pestaña donde ya está abierta una evaluación del repositorio (para no abrirla dos veces)
+export const findTabWithEvaluation = (tabs: WorkspaceTab[], evalId: string) =>
+  tabs.find((t) => readKey<string>(t.id, "eval.id") === evalId)?.id || null;
+
+export function clearTabStorage(tabId: string) {
+  EVALUATION_KEYS.forEach((k) => {
+    try { localStorage.removeItem(evaluationKey(tabId, k)); } catch {}
+  });
+}
@@ -0,0 +1,85 @@
+import type { RawRow } from "./types";
+
+// ==============================
+// CSV: delimitador, parser y filas → objetos
+// ==============================
+
+export function detectDelimiterInText(sample: string): string {
+  let inQ = false, cComma = 0, cSemi = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const ch = sample[i];
+    if (ch === '"') { inQ = !inQ; continue; }
+    if (!inQ) {
+      if (ch === ',') cComma++; else if (ch === ';') cSemi++; else if (ch === '\n' || ch === '\r') break;
+    }
+  }
+  return cSemi > cComma ? ';' : ',';
+}
+
+// Soporta comillas, delimitador auto (, o ;), y saltos de línea dentro de campos
+export function parseCSVRobusto(text: string): string[][] {
+  const delim = detectDelimiterInText(text.slice(0, 1000));
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cur = "";
+  let inQ = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      if (inQ && text[i + 1] === '"') { cur += '"'; i++; }
+      else { inQ = !inQ; }
+      continue;
+    }
+    if (!inQ && ch === delim) { row.push(cur); cur = ""; continue; }
+    if (!inQ && ch === '\n') { row.push(cur); rows.push(row); row = []; cur = ""; continue; }
+    if (!inQ && ch === '\r') { continue; }
+    cur += ch;
+  }
+  // último campo / fila
+  row.push(cur); rows.push(row);
+  // Quitar filas vacías al final
+  while (rows.length && rows[rows.length - 1].every((c) => c.trim() === "")) rows.pop();
+  return rows;
+}
+
+// Toma la primera fila no vacía como cabecera. `lines` guarda la fila de la hoja (1-based) de cada objeto.
+export function rowsToObjectsWithLines(rows: string[][]): { rows: RawRow[]; lines: number[] } {
+  if (!rows.length) return { rows: [], lines: [] };
+  const headIdx = rows.findIndex((r) => r.some((c) => c.trim() !== ""));
+  if (headIdx < 0) return { rows: [], lines: [] };
+  const header = rows[headIdx].map((h) => h.replace(/\r/g, "").trim());
+  const out: RawRow[] = [];
+  const lines: number[] = [];
+  for (let i = headIdx + 1; i < rows.length; i++) {
+    const r = rows[i];
+    if (!r || r.every((c) => (c ?? "").trim() === "")) continue;
+    const o: RawRow = {};
+    for (let j = 0; j < header.length; j++) o[header[j]] = r[j];
+    out.push(o);
+    lines.push(i + 1);
+  }
+  return { rows: out, lines };
+}
+
+export function rowsToObjects(rows: string[][]): RawRow[] {
+  return rowsToObjectsWithLines(rows).rows;
+}
+
+// Decodifica UTF-8 y quita BOM
+export function decodeText(buf: ArrayBuffer): string {
+  const textRaw = new TextDecoder("utf-8").decode(new Uint8Array(buf));
+  return textRaw.replace(/^\uFEFF/, "");
+}
+
+export function csvTextToObjects(text: string): { rows: RawRow[]; lines: number[] } {
+  return rowsToObjectsWithLines(parseCSVRobusto(text));
+}
+
+// Serializa una tabla a CSV (con BOM y ";" para que Excel en es-CL la abra bien)
+export function tableToCsv(rows: (string | number | undefined | null)[][], delim = ";"): string {
+  const esc = (v: any) => {
+    const t = String(v ?? "");
+    return /["\n\r;,]/.test(t) ? `"${t.replace(/"/g, '""')}"` : t;
+  };
+  return "\uFEFF" + rows.map((r) => r.map(esc).join(delim)).join("\r\n");
+}
@@ -0,0 +1,60 @@
+import type { RawRow } from "./types";
+
+// ==============================
+// Google Sheets: URLs y GViz
+// ==============================
+
+export const GOOGLE_ORIGIN = "https://docs.google.com";
+
+// Por host y ruta: "https://otro.host/?docs.google.com/spreadsheets" no cuenta como Google Sheet
+export function isGoogleSheet(url: string): boolean {
+  try {
+    const u = new URL(url);
+    return u.hostname === "docs.google.com" && u.pathname.startsWith("/spreadsheets/");
+  } catch {
+    return false;
+  }
+}
+
+// Acepta enlaces /edit, /export y variantes con ?gid=, &gid= o #gid=
+// `origin` permite apuntar a otro host (p.ej. un servidor stub en pruebas)
+export function normalizeGoogleSheetUrl(url: string, origin = GOOGLE_ORIGIN): { csvUrl: string; id?: string; gid?: string } {
+  try {
+    if (!isGoogleSheet(url)) return { csvUrl: url };
+    const idMatch = url.match(/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+    const gidMatch = url.match(/[?&#]gid=(\d+)/);
+    const id = idMatch?.[1];
+    const gid = gidMatch?.[1];
+    const csvUrl = `${origin}/spreadsheets/d/${id}/export?format=csv` + (gid ? `&gid=${gid}` : "");
+    return { csvUrl, id, gid };
+  } catch {
+    return { csvUrl: url };
+  }
+}
+
+export function gvizUrl(sheetId: string, gid?: string, origin = GOOGLE_ORIGIN) {
+  return `${origin}/spreadsheets/d/${sheetId}/gviz/tq?${gid ? `gid=${gid}&` : ""}tqx=out:json`;
+}
+
+// Convierte la respuesta de google.visualization.Query.setResponse(...) en filas
+export function gvizTableToObjects(resp: any): RawRow[] {
+  const table = resp?.table;
+  const cols = (table?.cols || []).map((c: any, i: number) => c?.label || c?.id || `col${i + 1}`);
+  const out: RawRow[] = [];
+  for (const row of table?.rows || []) {
+    const o: RawRow = {};
+    (row?.c || []).forEach((cell: any, idx: number) => { o[cols[idx]] = cell?.v ?? ""; });
+    out.push(o);
+  }
+  return out;
+}
+
+// Respuesta textual de /gviz/tq (tqx=out:json): "/*O_o*/ google.visualization.Query.setResponse({...});"
+export function parseGvizText(text: string): RawRow[] {
+  const start = text.indexOf("setResponse(");
+  const end = text.lastIndexOf(")");
+  if (start < 0 || end < start) throw new Error("Respuesta GViz no reconocida");
+  const resp = JSON.parse(text.slice(start + "setResponse(".length, end));
+  if (resp?.status === "error") throw new Error(resp?.errors?.[0]?.detailed_message || "GViz devolvió error");
+  return gvizTableToObjects(resp);
+}
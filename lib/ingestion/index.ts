@@ -0,0 +1,17 @@
+export type { DataSource, IngestResult, RawRow, SourceKind, SourceMeta } from "./types";
+export { csvTextToObjects, decodeText, detectDelimiterInText, parseCSVRobusto, rowsToObjects, rowsToObjectsWithLines, tableToCsv } from "./csv";
+export { GOOGLE_ORIGIN, gvizTableToObjects, gvizUrl, isGoogleSheet, normalizeGoogleSheetUrl, parseGvizText } from "./googleSheets";
+export {
+  apiSheetSource,
+  csvUrlSource,
+  googleCsvSource,
+  gvizJsonSource,
+  loadFirst,
+  loadSheetFromUrl,
+  loadUploadedFile,
+  serverSourcesForUrl,
+  sourcesForUrl,
+  uploadedFileSource,
+  xlsxBufferToObjects,
+} from "./sources";
+export type { FetchOptions } from "./sources";
@@ -0,0 +1,33 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { csvTextToObjects } from "./csv";
+import { xlsxBufferToObjects } from "./sources";
+import type { DataSource, IngestResult } from "./types";
+
+// ==============================
+// Archivo local (solo servidor / scripts). No se reexporta en index para no
+// arrastrar "fs" al bundle del navegador.
+// ==============================
+
+export function localFileSource(filePath: string): DataSource {
+  const label = path.basename(filePath);
+  return {
+    kind: "local-file",
+    label,
+    load: async (): Promise<IngestResult> => {
+      const buf = await readFile(filePath);
+      const warnings: string[] = [];
+      let table: { rows: any[]; lines: number[] };
+      if (/\.xlsx?$/i.test(filePath)) {
+        const ab = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer;
+        const { sheetName, ...parsed } = await xlsxBufferToObjects(ab);
+        table = parsed;
+        if (sheetName) warnings.push(`Se leyó solo la primera hoja (${sheetName}).`);
+      } else {
+        table = csvTextToObjects(buf.toString("utf-8").replace(/^\uFEFF/, ""));
+      }
+      const { rows, lines } = table;
+      return { rows, lineNumbers: lines, rowCount: rows.length, warnings, source: { kind: "local-file", label, loadedAt: new Date().toISOString() } };
+    },
+  };
+}
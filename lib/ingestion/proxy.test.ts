@@ -0,0 +1,101 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearSheetCache, fetchSheetCached, isAllowedSheetUrl, sheetCacheSize } from "./proxy";
+import { loadFirst } from "./sources";
+import type { DataSource, IngestResult } from "./types";
+
+// Stub de Google Sheets: responde el export CSV y cuenta las lecturas
+let server: Server;
+let hits = 0;
+const SHEET = "https://docs.google.com/spreadsheets/d/abc123/edit#gid=7";
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    hits++;
+    if (req.url?.startsWith("/spreadsheets/d/abc123/export?format=csv&gid=7")) {
+      res.writeHead(200, { "Content-Type": "text/csv" });
+      res.end("Código;Nombre\nA1;Uno\n\nB2;Dos\n");
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  process.env.SHEETS_UPSTREAM_ORIGIN = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  delete process.env.SHEETS_UPSTREAM_ORIGIN;
+  delete process.env.SHEETS_CACHE_MAX;
+  await new Promise((r) => server.close(r));
+});
+
+beforeEach(() => {
+  clearSheetCache();
+  hits = 0;
+});
+
+describe("isAllowedSheetUrl", () => {
+  it("acepta Google Sheets por host y ruta", () => {
+    expect(isAllowedSheetUrl(SHEET)).toBe(true);
+  });
+
+  it("rechaza URLs que solo mencionan docs.google.com", () => {
+    expect(isAllowedSheetUrl("https://attacker.example/?docs.google.com/spreadsheets")).toBe(false);
+    expect(isAllowedSheetUrl("https://docs.google.com.attacker.example/spreadsheets/d/x")).toBe(false);
+    expect(isAllowedSheetUrl("https://docs.google.com/document/d/x")).toBe(false);
+    expect(isAllowedSheetUrl("file:///etc/passwd")).toBe(false);
+  });
+});
+
+describe("fetchSheetCached", () => {
+  it("lee la hoja del stub con números de línea y la sirve desde caché", async () => {
+    const first = await fetchSheetCached(SHEET);
+    const res = JSON.parse(first.body) as IngestResult;
+    expect(first.hit).toBe(false);
+    expect(res.rows).toEqual([{ Código: "A1", Nombre: "Uno" }, { Código: "B2", Nombre: "Dos" }]);
+    expect(res.lineNumbers).toEqual([2, 4]);
+
+    const second = await fetchSheetCached(SHEET);
+    expect(second.hit).toBe(true);
+    expect(second.etag).toBe(first.etag);
+    expect(hits).toBe(1);
+
+    await fetchSheetCached(SHEET, { fresh: true });
+    expect(hits).toBe(2);
+  });
+
+  it("no guarda más hojas que SHEETS_CACHE_MAX", async () => {
+    process.env.SHEETS_CACHE_MAX = "1";
+    await fetchSheetCached(SHEET);
+    await fetchSheetCached(SHEET.replace("#gid=7", "?gid=7&x=1"));
+    expect(sheetCacheSize()).toBe(1);
+    delete process.env.SHEETS_CACHE_MAX;
+  });
+});
+
+describe("loadFirst", () => {
+  const stub = (kind: DataSource["kind"], load: () => Promise<IngestResult>): DataSource => ({ kind, label: kind, load });
+  const rows = (n: number): IngestResult => ({
+    rows: Array.from({ length: n }, (_, i) => ({ i })),
+    lineNumbers: Array.from({ length: n }, (_, i) => i + 2),
+    rowCount: n,
+    warnings: [],
+    source: { kind: "gviz", label: "gviz", loadedAt: "" },
+  });
+
+  it("pasa a la siguiente fuente si una falla o viene vacía, dejando constancia", async () => {
+    const res = await loadFirst([
+      stub("google-csv", async () => { throw new Error("HTTP 500"); }),
+      stub("csv-url", async () => rows(0)),
+      stub("gviz", async () => rows(2)),
+    ]);
+    expect(res.rowCount).toBe(2);
+    expect(res.warnings).toEqual(["google-csv: HTTP 500", "csv-url: sin filas; se intenta la siguiente fuente."]);
+  });
+
+  it("propaga el último error si ninguna fuente responde", async () => {
+    await expect(loadFirst([stub("gviz", async () => { throw new Error("caída"); })])).rejects.toThrow("caída");
+  });
+});
@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { GOOGLE_ORIGIN, isGoogleSheet } from "./googleSheets";
+import { loadFirst, serverSourcesForUrl } from "./sources";
+
+// ==============================
+// Proxy de hojas (solo servidor): lectura + caché en memoria con ETag/TTL.
+// Variables de entorno:
+//   SHEETS_UPSTREAM_ORIGIN  host que reemplaza a https://docs.google.com (stub local en pruebas)
+//   SHEETS_CACHE_TTL_MS     vida de la caché (def. 5 min)
+//   SHEETS_CACHE_MAX        máximo de hojas en caché (def. 50; se descarta la menos usada)
+//   SHEETS_ALLOWED_HOSTS    hosts extra (coma) permitidos para CSV que no son Google Sheets
+// ==============================
+
+export type CachedSheet = {
+  etag: string;
+  body: string; // IngestResult serializado
+  storedAt: number;
+  expiresAt: number;
+};
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 50;
+// Map conserva el orden de inserción: al leer se reinserta, así la primera clave es la menos usada
+const cache = new Map<string, CachedSheet>();
+
+export function sheetCacheTtlMs(): number {
+  const n = Number(process.env.SHEETS_CACHE_TTL_MS);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_TTL_MS;
+}
+
+function sheetCacheMax(): number {
+  const n = Number(process.env.SHEETS_CACHE_MAX);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : DEFAULT_MAX_ENTRIES;
+}
+
+export const sheetCacheSize = () => cache.size;
+
+function storeEntry(url: string, entry: CachedSheet) {
+  cache.delete(url);
+  cache.forEach((e, k) => { if (e.expiresAt <= entry.storedAt) cache.delete(k); });
+  cache.set(url, entry);
+  const max = sheetCacheMax();
+  for (const k of Array.from(cache.keys())) {
+    if (cache.size <= max) break;
+    cache.delete(k);
+  }
+}
+
+export function clearSheetCache() {
+  cache.clear();
+}
+
+// Solo se permite Google Sheets y los hosts declarados, para no convertir el proxy en un relay abierto
+export function isAllowedSheetUrl(url: string): boolean {
+  let u: URL;
+  try { u = new URL(url); } catch { return false; }
+  if (u.protocol !== "https:" && u.protocol !== "http:") return false;
+  if (isGoogleSheet(url)) return true;
+  const extra = (process.env.SHEETS_ALLOWED_HOSTS || "").split(",").map((h) => h.trim().toLowerCase()).filter(Boolean);
+  return extra.includes(u.host.toLowerCase());
+}
+
+export async function fetchSheetCached(url: string, opts: { fresh?: boolean } = {}): Promise<CachedSheet & { hit: boolean }> {
+  const now = Date.now();
+  const hit = cache.get(url);
+  if (hit && !opts.fresh && hit.expiresAt > now) {
+    cache.delete(url);
+    cache.set(url, hit);
+    return { ...hit, hit: true };
+  }
+  if (hit && hit.expiresAt <= now) cache.delete(url);
+
+  const origin = process.env.SHEETS_UPSTREAM_ORIGIN || GOOGLE_ORIGIN;
+  const res = await loadFirst(serverSourcesForUrl(url, { origin, init: { cache: "no-store" } }));
+  const body = JSON.stringify(res);
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  const entry: CachedSheet = { etag, body, storedAt: now, expiresAt: now + sheetCacheTtlMs() };
+  storeEntry(url, entry);
+  return { ...entry, hit: false };
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { xlsxBufferToObjects } from "./sources";
+
+describe("xlsxBufferToObjects", () => {
+  it("devuelve la fila de la hoja de cada objeto, saltando filas vacías", async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Código"], ["A1"], [], ["B2"]]), "Hoja1");
+    const res = await xlsxBufferToObjects(XLSX.write(wb, { type: "array", bookType: "xlsx" }));
+    expect(res.sheetName).toBe("Hoja1");
+    expect(res.rows.map((r) => r["Código"])).toEqual(["A1", "B2"]);
+    expect(res.lines).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,158 @@
+import { csvTextToObjects, decodeText } from "./csv";
+import { GOOGLE_ORIGIN, gvizUrl, isGoogleSheet, normalizeGoogleSheetUrl, parseGvizText } from "./googleSheets";
+import type { DataSource, IngestResult, RawRow, SourceKind, SourceMeta } from "./types";
+
+// ==============================
+// Fuentes enchufables
+// ==============================
+
+// Opciones de red: host alternativo para Google y RequestInit extra (p.ej. cache: "no-store" en servidor)
+export type FetchOptions = { origin?: string; init?: RequestInit };
+
+type Table = { rows: RawRow[]; lines?: number[] };
+
+// Sin números de línea explícitos se asume cabecera en la fila 1 y datos desde la 2
+function result({ rows, lines }: Table, meta: Omit<SourceMeta, "loadedAt">, warnings: string[] = []): IngestResult {
+  const lineNumbers = lines && lines.length === rows.length ? lines : rows.map((_r, i) => i + 2);
+  return { rows, lineNumbers, rowCount: rows.length, warnings, source: { ...meta, loadedAt: new Date().toISOString() } };
+}
+
+async function fetchOk(url: string, init?: RequestInit): Promise<Response> {
+  const resp = await fetch(url, init);
+  if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+  return resp;
+}
+
+async function fetchCsv(url: string, init?: RequestInit): Promise<Table> {
+  const resp = await fetchOk(url, init);
+  return csvTextToObjects(decodeText(await resp.arrayBuffer()));
+}
+
+// CSV exportado desde un Google Sheet nativo (respeta gid)
+export function googleCsvSource(url: string, opts: FetchOptions = {}): DataSource {
+  const { csvUrl, id, gid } = normalizeGoogleSheetUrl(url, opts.origin);
+  return {
+    kind: "google-csv",
+    label: csvUrl,
+    load: async () => result(await fetchCsv(csvUrl, opts.init), { kind: "google-csv", label: csvUrl, sheetId: id, gid }),
+  };
+}
+
+// Google Visualization en formato JSON (texto). Pensado para el servidor: no usa JSONP.
+export function gvizJsonSource(sheetId: string, gid?: string, opts: FetchOptions = {}): DataSource {
+  const url = gvizUrl(sheetId, gid, opts.origin ?? GOOGLE_ORIGIN);
+  return {
+    kind: "gviz",
+    label: url,
+    load: async () => {
+      const resp = await fetchOk(url, opts.init);
+      return result({ rows: parseGvizText(await resp.text()) }, { kind: "gviz", label: url, sheetId, gid });
+    },
+  };
+}
+
+// CSV en cualquier URL pública
+export function csvUrlSource(url: string, opts: FetchOptions = {}): DataSource {
+  return {
+    kind: "csv-url",
+    label: url,
+    load: async () => result(await fetchCsv(url, opts.init), { kind: "csv-url", label: url }),
+  };
+}
+
+// Hoja leída a través del proxy del servidor (/api/sheets), que ya devuelve un IngestResult
+export function apiSheetSource(url: string, opts: { endpoint?: string; fresh?: boolean } = {}): DataSource {
+  const endpoint = opts.endpoint ?? "/api/sheets";
+  return {
+    kind: isGoogleSheet(url) ? "google-csv" : "csv-url",
+    label: url,
+    load: async () => {
+      const qs = new URLSearchParams({ url });
+      if (opts.fresh) qs.set("fresh", "1");
+      const resp = await fetch(`${endpoint}?${qs.toString()}`);
+      const body = await resp.json().catch(() => null);
+      if (!resp.ok) throw new Error(body?.error || `HTTP ${resp.status}`);
+      return body as IngestResult;
+    },
+  };
+}
+
+const isXlsxName = (name: string) => /\.xlsx?$/i.test(name);
+
+const hasRowNum = (r: RawRow): r is RawRow & { __rowNum__: number } => "__rowNum__" in r && typeof r.__rowNum__ === "number";
+
+export async function xlsxBufferToObjects(buf: ArrayBuffer): Promise<{ rows: RawRow[]; lines: number[]; sheetName?: string }> {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(buf, { type: "array" });
+  const sheetName = wb.SheetNames[0];
+  if (!sheetName) return { rows: [], lines: [] };
+  const rows = XLSX.utils.sheet_to_json<RawRow>(wb.Sheets[sheetName], { defval: "" });
+  // sheet_to_json deja __rowNum__ (0-based, no enumerable) en cada objeto
+  const lines = rows.map((r, i) => (hasRowNum(r) ? r.__rowNum__ + 1 : i + 2));
+  return { rows, lines, sheetName };
+}
+
+// Archivo subido por el usuario (CSV o XLSX según extensión)
+export function uploadedFileSource(file: File): DataSource {
+  const kind: SourceKind = isXlsxName(file.name) ? "upload-xlsx" : "upload-csv";
+  return {
+    kind,
+    label: file.name,
+    load: async () => {
+      const buf = await file.arrayBuffer();
+      if (kind === "upload-csv") return result(csvTextToObjects(decodeText(buf)), { kind, label: file.name });
+      const { sheetName, ...table } = await xlsxBufferToObjects(buf);
+      const warnings = sheetName ? [`Se leyó solo la primera hoja (${sheetName}).`] : ["El libro no tiene hojas."];
+      return result(table, { kind, label: file.name }, warnings);
+    },
+  };
+}
+
+// Intenta cada fuente en orden. Si una falla o viene vacía y hay otra, sigue con la siguiente
+// y deja constancia en warnings.
+export async function loadFirst(sources: DataSource[]): Promise<IngestResult> {
+  if (!sources.length) throw new Error("Sin fuentes configuradas");
+  const warnings: string[] = [];
+  let lastErr: unknown = null;
+  let emptyResult: IngestResult | null = null;
+  for (let i = 0; i < sources.length; i++) {
+    const src = sources[i];
+    try {
+      const res = await src.load();
+      if (!res.rowCount && i < sources.length - 1) {
+        warnings.push(`${src.kind}: sin filas; se intenta la siguiente fuente.`);
+        emptyResult = emptyResult || res;
+        continue;
+      }
+      return { ...res, warnings: [...warnings, ...res.warnings] };
+    } catch (e: any) {
+      lastErr = e;
+      warnings.push(`${src.kind}: ${e?.message || e}`);
+    }
+  }
+  if (emptyResult) return { ...emptyResult, warnings };
+  throw lastErr instanceof Error ? lastErr : new Error(String(lastErr));
+}
+
+// Navegador: los Google Sheets pasan por el proxy; otras URLs se leen directo como CSV
+export function sourcesForUrl(url: string): DataSource[] {
+  if (!isGoogleSheet(url)) return [csvUrlSource(url, { init: { mode: "cors" } })];
+  return [apiSheetSource(url)];
+}
+
+// Servidor: Google Sheet → CSV export y luego GViz JSON; otra URL → CSV directo
+export function serverSourcesForUrl(url: string, opts: FetchOptions = {}): DataSource[] {
+  if (!isGoogleSheet(url)) return [csvUrlSource(url, opts)];
+  const { id, gid } = normalizeGoogleSheetUrl(url);
+  const out: DataSource[] = [googleCsvSource(url, opts)];
+  if (id) out.push(gvizJsonSource(id, gid, opts));
+  return out;
+}
+
+export function loadSheetFromUrl(url: string): Promise<IngestResult> {
+  return loadFirst(sourcesForUrl(url));
+}
+
+export function loadUploadedFile(file: File): Promise<IngestResult> {
+  return loadFirst([uploadedFileSource(file)]);
+}
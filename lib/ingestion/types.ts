@@ -0,0 +1,37 @@
+// ==============================
+// Tipos comunes de ingesta
+// ==============================
+
+// Fila cruda tal como viene de la hoja (cabecera → valor)
+export type RawRow = Record<string, any>;
+
+export type SourceKind =
+  | "google-csv" // export CSV de Google Sheets
+  | "gviz" // Google Visualization (tqx=out:json)
+  | "csv-url" // CSV publicado en cualquier URL
+  | "upload-csv" // archivo CSV subido por el usuario
+  | "upload-xlsx" // archivo XLSX/XLS subido por el usuario
+  | "local-file"; // archivo en disco (solo servidor)
+
+export type SourceMeta = {
+  kind: SourceKind;
+  label: string; // URL, nombre de archivo o ruta
+  sheetId?: string;
+  gid?: string;
+  loadedAt: string; // ISO
+};
+
+export type IngestResult = {
+  rows: RawRow[];
+  lineNumbers: number[]; // fila de la hoja de origen para cada elemento de rows (cabecera = 1)
+  rowCount: number;
+  warnings: string[];
+  source: SourceMeta;
+};
+
+// Fuente enchufable: cada implementación sabe cargar y normalizar sus filas
+export interface DataSource {
+  kind: SourceKind;
+  label: string;
+  load(): Promise<IngestResult>;
+}
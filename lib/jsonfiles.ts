@@ -0,0 +1,57 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// ==============================
+// Archivos JSON del servidor: lectura tolerante a "no existe", escritura atómica (tmp + rename)
+// y exclusión mutua para leer → modificar → guardar
+// ==============================
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+
+export async function writeJSONAtomic(file: string, value: unknown) {
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+export async function readJSON<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+// Exclusión mutua: cola en el proceso + archivo de bloqueo entre procesos (p. ej. varias instancias de next start)
+const queues = new Map<string, Promise<unknown>>();
+
+async function acquireFileLock(lock: string, busyMessage: string): Promise<() => Promise<void>> {
+  const started = Date.now();
+  for (;;) {
+    try {
+      const h = await fs.open(lock, "wx");
+      await h.close();
+      return () => fs.rm(lock, { force: true });
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+      // Un bloqueo abandonado (proceso caído) no debe trabar el archivo para siempre
+      const st = await fs.stat(lock).catch(() => null);
+      if (st && Date.now() - st.mtimeMs > LOCK_STALE_MS) { await fs.rm(lock, { force: true }); continue; }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) throw new Error(busyMessage);
+      await new Promise((r) => setTimeout(r, LOCK_RETRY_MS));
+    }
+  }
+}
+
+export function withFileLock<T>(lock: string, fn: () => Promise<T>, busyMessage = "Archivo ocupado; intenta de nuevo"): Promise<T> {
+  const run = (queues.get(lock) || Promise.resolve()).then(async () => {
+    await fs.mkdir(path.dirname(lock), { recursive: true });
+    const release = await acquireFileLock(lock, busyMessage);
+    try { return await fn(); } finally { await release(); }
+  });
+  queues.set(lock, run.catch(() => undefined));
+  return run;
+}
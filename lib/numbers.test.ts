@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { numInfo, parseNumber } from "./numbers";
+
+describe("parseNumber", () => {
+  it("lee formatos chileno e internacional en automático", () => {
+    expect(parseNumber("1.234.567,5").value).toBe(1234567.5);
+    expect(parseNumber("1,234,567.5").value).toBe(1234567.5);
+    expect(parseNumber("1234.56").value).toBe(1234.56);
+    expect(parseNumber("12,5").value).toBe(12.5);
+  });
+
+  it("un punto seguido de 3 dígitos se lee como miles, con aviso", () => {
+    expect(parseNumber("1.200")).toEqual({ value: 1200, percent: false, note: '"1.200" es ambiguo; se leyó el punto como separador de miles' });
+    expect(parseNumber("1,200")).toEqual({ value: 1.2, percent: false, note: '"1,200" es ambiguo; se leyó la coma como decimal' });
+  });
+
+  it("un 0 inicial nunca es un grupo de miles", () => {
+    expect(parseNumber("0.125")).toEqual({ value: 0.125, percent: false, note: undefined });
+    expect(parseNumber("0,125").value).toBe(0.125);
+  });
+
+  it("respeta el formato declarado sin avisos", () => {
+    expect(parseNumber("1.200", "es-CL")).toEqual({ value: 1200, percent: false, note: undefined });
+    expect(parseNumber("1.200", "en")).toEqual({ value: 1.2, percent: false, note: undefined });
+    expect(parseNumber("1,200", "en").value).toBe(1200);
+  });
+
+  it("entiende negativos, moneda, porcentaje y unidades", () => {
+    expect(parseNumber("(12.000)", "es-CL").value).toBe(-12000);
+    expect(parseNumber("12.000-", "es-CL").value).toBe(-12000);
+    expect(parseNumber("$ -1.200", "es-CL").value).toBe(-1200);
+    expect(parseNumber("15%")).toEqual({ value: 0.15, percent: true, note: undefined });
+    expect(parseNumber("12kg").value).toBe(12);
+    expect(parseNumber("1.5e3").value).toBe(1500);
+  });
+
+  it("devuelve null si no es un número", () => {
+    expect(parseNumber("").value).toBeNull();
+    expect(parseNumber("abc").value).toBeNull();
+    expect(parseNumber("1.2.3,4,5").value).toBeNull();
+  });
+});
+
+describe("numInfo", () => {
+  it("distingue vacío, ilegible y dudoso", () => {
+    expect(numInfo("", 7)).toEqual({ value: 7, coerced: false });
+    expect(numInfo("abc", 7)).toEqual({ value: 7, coerced: true });
+    expect(numInfo("1.200")).toEqual({ value: 1200, coerced: false, note: '"1.200" es ambiguo; se leyó el punto como separador de miles' });
+    expect(numInfo(42)).toEqual({ value: 42, coerced: false, note: undefined });
+  });
+});
@@ -0,0 +1,102 @@
+// ==============================
+// Números
+// ==============================
+
+// Pista de formato por fuente:
+// es-CL: "1.234.567,5" (punto de miles, coma decimal) · en: "1,234,567.5" · auto: deduce por la posición de los separadores
+export type NumberLocale = "auto" | "es-CL" | "en";
+
+export const NUMBER_LOCALES: NumberLocale[] = ["auto", "es-CL", "en"];
+
+export const NUMBER_LOCALE_LABELS: Record<NumberLocale, string> = {
+  auto: "Automático",
+  "es-CL": "1.234,56 (Chile)",
+  en: "1,234.56 (internacional)",
+};
+
+// value null = no se pudo leer · note = lectura dudosa (separador ambiguo)
+export type NumberParse = { value: number | null; percent?: boolean; note?: string };
+
+// Devuelve el texto con "." como decimal y sin separadores de miles
+function normalizeSeparators(t: string, locale: NumberLocale): { text: string; note?: string } {
+  const dots = (t.match(/\./g) || []).length;
+  const commas = (t.match(/,/g) || []).length;
+  if (locale === "es-CL") return { text: t.replace(/\./g, "").replace(",", ".") };
+  if (locale === "en") return { text: t.replace(/,/g, "") };
+  // auto
+  if (dots && commas) {
+    // el último separador es el decimal
+    return t.lastIndexOf(",") > t.lastIndexOf(".") ? { text: t.replace(/\./g, "").replace(",", ".") } : { text: t.replace(/,/g, "") };
+  }
+  if (dots > 1) return { text: t.replace(/\./g, "") };
+  if (commas > 1) return { text: t.replace(/,/g, "") };
+  if (dots === 1) {
+    // "1.200" en una hoja chilena son miles; "1234.56" (export XLSX/CSV) y "0.125" (un grupo de miles
+    // no parte en 0) son decimales
+    return /^[1-9]\d{0,2}\.\d{3}$/.test(t)
+      ? { text: t.replace(".", ""), note: `"${t}" es ambiguo; se leyó el punto como separador de miles` }
+      : { text: t };
+  }
+  if (commas === 1) {
+    return /^\d{1,3},\d{3}$/.test(t)
+      ? { text: t.replace(",", "."), note: `"${t}" es ambiguo; se leyó la coma como decimal` }
+      : { text: t.replace(",", ".") };
+  }
+  return { text: t };
+}
+
+export function parseNumber(v: any, locale: NumberLocale = "auto"): NumberParse {
+  if (typeof v === "number") return { value: isFinite(v) ? v : null };
+  if (typeof v === "boolean") return { value: v ? 1 : 0 };
+  let t = String(v ?? "").replace(/\s/g, "");
+  if (!t) return { value: null };
+
+  // Negativos contables "(12.000)" y signo al final "12.000-"
+  let negative = false;
+  const paren = t.match(/^\((.*)\)$/);
+  if (paren) { negative = true; t = paren[1]; }
+  if (/^-/.test(t)) { negative = !negative; t = t.slice(1); }
+  else if (/-$/.test(t)) { negative = !negative; t = t.slice(0, -1); }
+
+  // Moneda, porcentaje y unidades al final ("12kg", "3un.")
+  const percent = /%$/.test(t);
+  t = t.replace(/%$/, "").replace(/^(US\$|CLP\$?|USD|UF|\$)/i, "").replace(/(CLP|USD|\$)$/i, "").replace(/(\d)[a-z]+\.?$/i, "$1");
+  if (/^-/.test(t)) { negative = !negative; t = t.slice(1); } // "$ -1.200"
+
+  // Notación científica (exportes de CSV)
+  if (/^\d+(\.\d+)?e[+-]?\d+$/i.test(t)) {
+    const n = Number(t);
+    return { value: (negative ? -n : n) / (percent ? 100 : 1), percent };
+  }
+  if (!/^[\d.,]+$/.test(t) || !/\d/.test(t)) return { value: null };
+
+  const { text, note } = normalizeSeparators(t, locale);
+  const n = Number(text);
+  if (isNaN(n)) return { value: null };
+  return { value: (negative ? -n : n) / (percent ? 100 : 1), percent, note };
+}
+
+export function num(v: any, def = 0, locale: NumberLocale = "auto") {
+  const { value } = parseNumber(v, locale);
+  return value === null ? def : value;
+}
+
+// Para columnas opcionales: vacío o ilegible → undefined
+export function optNum(v: any, locale: NumberLocale = "auto"): number | undefined {
+  if (v === undefined || v === null || String(v).trim() === "") return undefined;
+  return parseNumber(v, locale).value ?? undefined;
+}
+
+// Igual que num(), pero indica si un valor no vacío no se pudo leer (coerced) o se leyó con dudas (note)
+export function numInfo(v: any, def = 0, locale: NumberLocale = "auto"): { value: number; coerced: boolean; note?: string } {
+  if (v === undefined || v === null || String(v).trim() === "") return { value: def, coerced: false };
+  const { value, note } = parseNumber(v, locale);
+  if (value === null) return { value: def, coerced: true };
+  return { value, coerced: false, note };
+}
+
+// ===================== Formato para mostrar =====================
+export const moneyCL = (v: number) => "$" + Math.round(v || 0).toLocaleString("es-CL");
+// Fracción → porcentaje: un decimal en evaluaciones, entero en los tableros de comodatos
+export const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+export const pctInt = (v: number) => `${(v * 100).toFixed(0)}%`;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { formatRut, isValidRut, parseRut, rutCheckDigit, rutKey } from "./rut";
+
+describe("rutCheckDigit", () => {
+  it("calcula el dígito por módulo 11, con 0 y K", () => {
+    expect(rutCheckDigit("12345678")).toBe("5");
+    expect(rutCheckDigit("76123456")).toBe("0");
+    expect(rutCheckDigit("10000013")).toBe("K");
+  });
+});
+
+describe("parseRut", () => {
+  it("acepta un RUT válido con o sin puntos y guion", () => {
+    const canonical = { canonical: "12345678-5", body: "12345678", dv: "5", valid: true };
+    expect(parseRut("12.345.678-5")).toEqual(canonical);
+    expect(parseRut("12345678-5")).toEqual(canonical);
+    expect(parseRut("123456785")).toEqual(canonical);
+    expect(parseRut(" 012.345.678 - 5 ")).toEqual(canonical);
+  });
+
+  it("marca como inválido un dígito verificador equivocado", () => {
+    expect(parseRut("12.345.678-4")).toMatchObject({ canonical: "12345678-4", valid: false });
+    expect(isValidRut("12.345.678-4")).toBe(false);
+  });
+
+  it("acepta K en minúscula o mayúscula", () => {
+    expect(parseRut("10.000.013-k")).toMatchObject({ canonical: "10000013-K", valid: true });
+    expect(isValidRut("10000013K")).toBe(true);
+    expect(isValidRut("10000013-0")).toBe(false);
+  });
+
+  it("devuelve null si no parece un RUT", () => {
+    expect(parseRut("")).toBeNull();
+    expect(parseRut("5")).toBeNull();
+    expect(parseRut("K-5")).toBeNull();
+  });
+});
+
+describe("rutKey", () => {
+  it("agrupa por la forma canónica solo si es válido", () => {
+    expect(rutKey("12.345.678-5")).toEqual({ key: "12345678-5", valid: true });
+    expect(rutKey("12345678-5")).toEqual({ key: "12345678-5", valid: true });
+    expect(rutKey(" 12.345.678-4 ")).toEqual({ key: "12.345.678-4", valid: false });
+  });
+});
+
+describe("formatRut", () => {
+  it("formatea con puntos y guion", () => {
+    expect(formatRut("123456785")).toBe("12.345.678-5");
+    expect(formatRut("10000013-k")).toBe("10.000.013-K");
+    expect(formatRut("7654321-6")).toBe("7.654.321-6");
+  });
+
+  it("deja tal cual lo que no es un RUT", () => {
+    expect(formatRut("  sin rut ")).toBe("sin rut");
+  });
+});
@@ -0,0 +1,50 @@
+// ==============================
+// RUT chileno: forma canónica, formato y dígito verificador (módulo 11)
+// ==============================
+
+// Forma canónica: cuerpo sin puntos ni ceros a la izquierda + "-" + DV en mayúscula (p.ej. "76123456-7")
+export type RutInfo = { canonical: string; body: string; dv: string; valid: boolean };
+
+// Deja solo dígitos y K (quita puntos, guiones, espacios)
+export const cleanRut = (s: any) => String(s ?? "").toUpperCase().replace(/[^0-9K]/g, "");
+
+// Dígito verificador por módulo 11 (serie 2..7)
+export function rutCheckDigit(body: string): string {
+  let sum = 0;
+  let factor = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += Number(body[i]) * factor;
+    factor = factor === 7 ? 2 : factor + 1;
+  }
+  const r = 11 - (sum % 11);
+  return r === 11 ? "0" : r === 10 ? "K" : String(r);
+}
+
+// null si no parece un RUT (vacío, letras en el cuerpo, muy corto)
+export function parseRut(s: any): RutInfo | null {
+  const clean = cleanRut(s);
+  if (clean.length < 2) return null;
+  const body = clean.slice(0, -1).replace(/^0+/, "");
+  const dv = clean.slice(-1);
+  if (!body || !/^\d+$/.test(body)) return null;
+  return { canonical: `${body}-${dv}`, body, dv, valid: body.length <= 9 && rutCheckDigit(body) === dv };
+}
+
+export function isValidRut(s: any): boolean {
+  return !!parseRut(s)?.valid;
+}
+
+// Clave para agrupar: la forma canónica si el RUT es válido; si no, el texto original recortado
+// (así un RUT inválido no se fusiona con otro cliente por accidente)
+export function rutKey(s: any): { key: string; valid: boolean } {
+  const info = parseRut(s);
+  if (info?.valid) return { key: info.canonical, valid: true };
+  return { key: String(s ?? "").trim(), valid: false };
+}
+
+// "76123456-7" → "76.123.456-7". Si no es un RUT reconocible devuelve el texto tal cual.
+export function formatRut(s: any): string {
+  const info = parseRut(s);
+  if (!info) return String(s ?? "").trim();
+  return `${info.body.replace(/\B(?=(\d{3})+(?!\d))/g, ".")}-${info.dv}`;
+}
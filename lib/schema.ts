@@ -0,0 +1,93 @@
+// ==============================
+// Validación de JSON importados o recibidos: cada problema se informa con la ruta del campo
+// (p. ej. "saleLines[2].qty debe ser un número") y se junta en una sola lista.
+// Los lectores devuelven el valor normalizado para construir el objeto limpio.
+// ==============================
+
+const MAX_LISTED = 10;
+
+export class SchemaError extends Error {
+  issues: string[];
+  constructor(issues: string[]) {
+    const extra = issues.length > MAX_LISTED ? `\n… y ${issues.length - MAX_LISTED} problema(s) más` : "";
+    super(issues.slice(0, MAX_LISTED).join("\n") + extra);
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+export type Issues = string[];
+
+export const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === "object" && !Array.isArray(v);
+
+const show = (v: unknown) => {
+  const s = typeof v === "string" ? `"${v}"` : JSON.stringify(v);
+  return s && s.length > 30 ? s.slice(0, 30) + "…" : String(s);
+};
+
+const missing = (v: unknown) => v === undefined || v === null || v === "";
+
+type NumOpts = { optional?: boolean; min?: number; max?: number };
+
+// Acepta texto numérico ("1,5" o "1.5") de archivos editados a mano
+export function readNumber(issues: Issues, path: string, v: unknown, opts: NumOpts & { optional: true }): number | undefined;
+export function readNumber(issues: Issues, path: string, v: unknown, opts?: NumOpts): number;
+export function readNumber(issues: Issues, path: string, v: unknown, opts: NumOpts = {}): number | undefined {
+  if (missing(v)) {
+    if (!opts.optional) issues.push(`${path}: falta (número)`);
+    return opts.optional ? undefined : 0;
+  }
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v.trim().replace(",", ".")) : NaN;
+  if (!Number.isFinite(n)) {
+    issues.push(`${path} debe ser un número (se recibió ${show(v)})`);
+    return opts.optional ? undefined : 0;
+  }
+  if (opts.min !== undefined && n < opts.min) issues.push(`${path} debe ser mayor o igual a ${opts.min} (se recibió ${n})`);
+  if (opts.max !== undefined && n > opts.max) issues.push(`${path} debe ser menor o igual a ${opts.max} (se recibió ${n})`);
+  return n;
+}
+
+export function readString(issues: Issues, path: string, v: unknown, opts: { optional: true }): string | undefined;
+export function readString(issues: Issues, path: string, v: unknown, opts?: { optional?: boolean }): string;
+export function readString(issues: Issues, path: string, v: unknown, opts: { optional?: boolean } = {}): string | undefined {
+  if (v === undefined || v === null) {
+    if (!opts.optional) issues.push(`${path}: falta (texto)`);
+    return opts.optional ? undefined : "";
+  }
+  if (typeof v === "number") return String(v); // códigos numéricos escritos sin comillas
+  if (typeof v !== "string") {
+    issues.push(`${path} debe ser texto (se recibió ${show(v)})`);
+    return opts.optional ? undefined : "";
+  }
+  return v;
+}
+
+export function readBoolean(issues: Issues, path: string, v: unknown): boolean {
+  if (typeof v === "boolean") return v;
+  issues.push(missing(v) ? `${path}: falta (sí/no)` : `${path} debe ser true o false (se recibió ${show(v)})`);
+  return false;
+}
+
+export function readList<T>(issues: Issues, path: string, v: unknown, item: (x: unknown, path: string) => T): T[] {
+  if (!Array.isArray(v)) {
+    issues.push(missing(v) ? `${path}: falta (lista)` : `${path} debe ser una lista`);
+    return [];
+  }
+  return v.map((x, i) => item(x, `${path}[${i}]`));
+}
+
+// Devuelve el objeto y la lista donde anotar sus campos: si falta entero basta con un mensaje
+export function readObject(issues: Issues, path: string, v: unknown): [Record<string, any>, Issues] {
+  if (isObject(v)) return [v, issues];
+  issues.push(missing(v) ? `${path}: falta` : `${path} debe ser un objeto`);
+  return [{}, []];
+}
+
+// JSON.parse con un mensaje entendible para el usuario
+export function parseJSONText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e: any) {
+    throw new SchemaError([`El archivo no es un JSON válido (${e?.message || e})`]);
+  }
+}
@@ -0,0 +1,9 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Pruebas de lib/ (lógica sin navegador): yarn test
+export default defineConfig({
+  resolve: { alias: { "@": path.dirname(fileURLToPath(import.meta.url)) } },
+  test: { include: ["lib/**/*.test.ts"], environment: "node" },
+});